@@ -0,0 +1,75 @@
+
+import React, { useState } from 'react';
+import { CustomerStatus, Membership, Task } from '../types';
+import { bucketTasks, isMine } from '../services/tasks';
+import { TaskItem } from './TaskItem';
+import { t } from '../lib/i18n';
+
+interface AgendaViewProps {
+  tasks: Task[];
+  members: Membership[];
+  userId: string;
+  busy: boolean;
+  onComplete: (task: Task, status: CustomerStatus | null) => void;
+  onRemove: (task: Task) => void;
+  onOpenCustomer: (task: Task) => void;
+}
+
+const SECTIONS = [
+  ['overdue', 'agenda.overdue', 'text-red-500'],
+  ['today', 'agenda.today', 'text-indigo-600'],
+  ['upcoming', 'agenda.upcoming', 'text-slate-400'],
+] as const;
+
+export const AgendaView: React.FC<AgendaViewProps> = ({ tasks, members, userId, busy, onComplete, onRemove, onOpenCustomer }) => {
+  const [onlyMine, setOnlyMine] = useState(true);
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'denied' : Notification.permission);
+  const buckets = bucketTasks(onlyMine ? tasks.filter(task => isMine(task, userId)) : tasks);
+
+  const enableNotifications = async () => setPermission(await Notification.requestPermission());
+
+  return (
+    <div className="space-y-5">
+      <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm flex items-center justify-between gap-4">
+        <div className="flex gap-2">
+          {([[true, 'agenda.mine'], [false, 'agenda.team']] as const).map(([mine, label]) => (
+            <button key={label} onClick={() => setOnlyMine(mine)} className={`px-4 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-colors ${onlyMine === mine ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 border-slate-100'}`}>
+              {t(label)}
+            </button>
+          ))}
+        </div>
+        {permission === 'default' && (
+          <button onClick={enableNotifications} className="text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700">
+            {t('agenda.enableNotifications')}
+          </button>
+        )}
+      </div>
+
+      {SECTIONS.map(([key, label, color]) => buckets[key].length > 0 && (
+        <section key={key} className="space-y-3">
+          <h3 className={`text-[11px] font-black uppercase tracking-widest ml-4 ${color}`}>{t(label)} ({buckets[key].length})</h3>
+          <div className="bg-white p-4 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-2">
+            {buckets[key].map(task => (
+              <TaskItem
+                key={task.id}
+                task={task}
+                members={members}
+                busy={busy}
+                showCustomer
+                onComplete={onComplete}
+                onRemove={onRemove}
+                onOpenCustomer={onOpenCustomer}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {SECTIONS.every(([key]) => buckets[key].length === 0) && (
+        <div className="text-center py-24 bg-white rounded-[3rem] border-2 border-dashed border-slate-100">
+          <p className="text-slate-400 font-bold text-sm tracking-tight">{t('agenda.empty')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
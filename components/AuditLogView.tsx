@@ -0,0 +1,54 @@
+
+import React, { useEffect, useState } from 'react';
+import { AuditAction, AuditEvent, AuditFilters, Customer, Membership } from '../types';
+import { auditService, AUDIT_ACTION_LABELS } from '../services/audit';
+import { AuditTimeline } from './AuditTimeline';
+import { t } from '../lib/i18n';
+
+interface AuditLogViewProps {
+  empresaId: string;
+  members: Membership[];
+  customers: Customer[];
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+export const AuditLogView: React.FC<AuditLogViewProps> = ({ empresaId, members, customers, onNotify }) => {
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+
+  useEffect(() => {
+    setEvents(null);
+    auditService.fetchForCompany(empresaId, filters)
+      .then(setEvents)
+      .catch(() => {
+        setEvents([]);
+        onNotify(t('audit.loadFailed'), 'error');
+      });
+  }, [empresaId, filters]);
+
+  const customerName = (id: string) => customers.find(c => c.id === id)?.name;
+  const fieldClass = "px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-5">
+      <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm grid grid-cols-2 gap-3">
+        <select value={filters.actorId || ''} onChange={e => setFilters({ ...filters, actorId: e.target.value || undefined })} className={fieldClass}>
+          <option value="">{t('audit.allUsers')}</option>
+          {members.map(m => <option key={m.user_id} value={m.user_id}>{m.name}</option>)}
+        </select>
+        <select value={filters.action || ''} onChange={e => setFilters({ ...filters, action: (e.target.value || undefined) as AuditAction | undefined })} className={fieldClass}>
+          <option value="">{t('audit.allActions')}</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+        </select>
+        <input type="date" value={filters.from || ''} onChange={e => setFilters({ ...filters, from: e.target.value || undefined })} className={fieldClass} title={t('audit.from')} />
+        <input type="date" value={filters.to || ''} onChange={e => setFilters({ ...filters, to: e.target.value || undefined })} className={fieldClass} title={t('audit.to')} />
+      </div>
+
+      <div className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-sm">
+        {events === null
+          ? <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-indigo-600 mx-auto"></div>
+          : <AuditTimeline events={events} showCustomer={customerName} />}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { AuditEvent } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS } from '../services/audit';
+import { formatDateTime, t } from '../lib/i18n';
+
+interface AuditTimelineProps {
+  events: AuditEvent[];
+  showCustomer?: (customerId: string) => string | undefined;
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—'
+    : typeof value === 'boolean' ? t(value ? 'filters.yes' : 'filters.no')
+    : String(value);
+
+export const AuditTimeline: React.FC<AuditTimelineProps> = ({ events, showCustomer }) => {
+  if (events.length === 0) {
+    return <p className="text-xs text-slate-400 font-bold">{t('audit.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {events.map(event => (
+        <div key={event.id} className="border-l-2 border-indigo-100 pl-4 py-1">
+          <p className="text-sm font-black text-slate-800">
+            {AUDIT_ACTION_LABELS[event.action]}
+            {showCustomer && event.customer_id && (
+              <span className="text-slate-400 font-bold"> • {showCustomer(event.customer_id) || t('audit.customerRemoved')}</span>
+            )}
+          </p>
+          <p className="text-[11px] text-slate-400 font-bold">
+            {formatDateTime(event.created_at)} • {event.actor_name}
+          </p>
+          {event.summary && <p className="text-xs text-slate-500 mt-1">{event.summary}</p>}
+          {event.changes.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {event.changes.map(change => (
+                <li key={change.field} className="text-xs text-slate-500">
+                  <b className="text-slate-600">{AUDIT_FIELD_LABELS[change.field] || change.field}:</b>{' '}
+                  <span className="line-through text-red-400">{formatValue(change.old)}</span>{' → '}
+                  <span className="text-emerald-600 font-bold">{formatValue(change.new)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+
+import React, { useState } from 'react';
+import { FieldErrors, SignupData } from '../types';
+import { authService } from '../services/api';
+import { errorMessage, isAppError } from '../services/errors';
+import { validateEmail, validateLogin, validateSignup } from '../services/validation';
+import { navigate } from '../lib/router';
+import { MessageKey, t } from '../lib/i18n';
+import { Button } from './Button';
+import { FieldError } from './FieldError';
+import { UserIcon } from './Icons';
+
+export type AuthMode = 'login' | 'signup' | 'recover' | 'magic';
+
+interface AuthPageProps {
+  mode: AuthMode;
+  inviteToken: string | null;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+const MODE_PATHS: Record<AuthMode, string> = {
+  login: '/login',
+  signup: '/signup',
+  recover: '/recuperar-senha',
+  magic: '/link-de-acesso',
+};
+
+// Modos que pedem só o e-mail e respondem com um link enviado para ele
+const LINK_MODES: Record<'recover' | 'magic', { title: MessageKey; hint: MessageKey; submit: MessageKey; sent: MessageKey }> = {
+  recover: {
+    title: 'auth.recover.title',
+    hint: 'auth.recover.hint',
+    submit: 'auth.recover.submit',
+    sent: 'auth.recover.sent',
+  },
+  magic: {
+    title: 'auth.magic.title',
+    hint: 'auth.magic.hint',
+    submit: 'auth.magic.submit',
+    sent: 'auth.magic.sent',
+  },
+};
+
+// Telas /login, /signup, /recuperar-senha e /link-de-acesso; a sessão criada aqui é detectada pelo App, que redireciona para o painel
+export const AuthPage: React.FC<AuthPageProps> = ({ mode, inviteToken, onNotify }) => {
+  const [authForm, setAuthForm] = useState<SignupData>({ email: '', password: '', companyName: '', responsibleName: '', terms: false });
+  const [authErrors, setAuthErrors] = useState<FieldErrors>({});
+  const [loading, setLoading] = useState(false);
+  // E-mail cadastrado que ainda aguarda confirmação, para oferecer o reenvio
+  const [unconfirmed, setUnconfirmed] = useState<string | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
+  const linkMode = mode === 'recover' || mode === 'magic' ? LINK_MODES[mode] : null;
+  // "LGPD" fica em negrito dentro da frase traduzida
+  const [termsBefore, termsAfter] = t('auth.terms').split('{law}');
+
+  // O convite acompanha a troca entre as telas
+  const switchMode = (target: AuthMode) => {
+    setAuthErrors({});
+    setLinkSent(false);
+    navigate(`${MODE_PATHS[target]}${window.location.search}`);
+  };
+
+  const handleResend = async () => {
+    if (!unconfirmed || loading) return;
+    setLoading(true);
+    try {
+      await authService.resendConfirmation(unconfirmed);
+      onNotify(t('auth.resent'), 'success');
+    } catch (err) {
+      onNotify(errorMessage(err, t('auth.resendFailed')), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendLink = async () => {
+    const errors = validateEmail(authForm.email);
+    setAuthErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setLoading(true);
+    try {
+      if (mode === 'recover') await authService.sendPasswordReset(authForm.email);
+      else await authService.sendMagicLink(authForm.email);
+      setLinkSent(true);
+    } catch (err) {
+      if (isAppError(err, 'validation')) setAuthErrors(err.fields || {});
+      onNotify(errorMessage(err, t('auth.sendFailed')), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAuth = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+    if (linkMode) return handleSendLink();
+
+    const errors = mode === 'signup' ? validateSignup(authForm, !inviteToken) : validateLogin(authForm);
+    setAuthErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setLoading(true);
+    try {
+      if (mode === 'signup') {
+        await authService.signUp(authForm);
+        onNotify(t('auth.signedUp'), 'success');
+        setUnconfirmed(authForm.email.trim());
+        switchMode('login');
+      } else {
+        await authService.signIn(authForm.email, authForm.password);
+        onNotify(t('auth.welcomeBack'), 'success');
+      }
+    } catch (err) {
+      if (isAppError(err, 'validation')) setAuthErrors(err.fields || {});
+      if (isAppError(err, 'auth') && err.code === 'email_not_confirmed') setUnconfirmed(authForm.email.trim());
+      onNotify(errorMessage(err, t('auth.failed')), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-slate-50">
+      <div className="w-full max-w-md bg-white rounded-[3rem] shadow-2xl p-10 border border-slate-100 animate-fade-in relative overflow-hidden">
+        {loading && (
+          <div className="absolute inset-0 bg-white/80 z-20 flex items-center justify-center backdrop-blur-[2px]">
+            <div className="flex flex-col items-center gap-3">
+              <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-indigo-600"></div>
+              <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">{t('common.processing')}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="mb-10 text-center">
+          <div className="bg-indigo-600 w-20 h-20 rounded-3xl flex items-center justify-center mx-auto mb-6 text-white shadow-xl rotate-3">
+            <UserIcon />
+          </div>
+          <h1 className="text-3xl font-black text-slate-900 tracking-tight">
+            {t(linkMode ? linkMode.title : mode === 'login' ? 'auth.loginTitle' : 'auth.signupTitle')}
+          </h1>
+          <p className="text-slate-400 mt-2 text-sm">
+            {t(linkMode ? linkMode.hint : 'auth.tagline')}
+          </p>
+        </div>
+
+        {linkSent && linkMode ? (
+          <p className="text-xs text-emerald-600 font-bold bg-emerald-50 rounded-2xl px-5 py-4">{t(linkMode.sent)}</p>
+        ) : (
+        <form onSubmit={handleAuth} noValidate className="space-y-4">
+          {mode === 'signup' && (
+            <>
+              {inviteToken ? (
+                <p className="text-xs text-indigo-600 font-bold bg-indigo-50 rounded-2xl px-5 py-4">{t('auth.invited')}</p>
+              ) : (
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('auth.companyName')}</label>
+                <input required className="w-full px-6 py-4 rounded-2xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/50 transition-all font-medium" placeholder={t('auth.companyPlaceholder')} value={authForm.companyName} onChange={e => setAuthForm({...authForm, companyName: e.target.value})} />
+                <FieldError message={authErrors.companyName} />
+              </div>
+              )}
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('common.responsibleName')}</label>
+                <input required className="w-full px-6 py-4 rounded-2xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/50 transition-all font-medium" placeholder={t('auth.responsiblePlaceholder')} value={authForm.responsibleName} onChange={e => setAuthForm({...authForm, responsibleName: e.target.value})} />
+                <FieldError message={authErrors.responsibleName} />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-1">
+             <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('common.loginEmail')}</label>
+             <input type="email" required className="w-full px-6 py-4 rounded-2xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/50 transition-all font-medium" placeholder={t('auth.emailPlaceholder')} value={authForm.email} onChange={e => setAuthForm({...authForm, email: e.target.value})} />
+             <FieldError message={authErrors.email} />
+          </div>
+
+          {!linkMode && (
+          <div className="space-y-1">
+             <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('auth.password')}</label>
+             <input type="password" required className="w-full px-6 py-4 rounded-2xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/50 transition-all font-medium" placeholder="••••••••" value={authForm.password} onChange={e => setAuthForm({...authForm, password: e.target.value})} />
+             <FieldError message={authErrors.password} />
+             {mode === 'login' && (
+               <button type="button" onClick={() => switchMode('recover')} className="block ml-auto mt-2 mr-1 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600 transition-colors">
+                 {t('auth.forgotPassword')}
+               </button>
+             )}
+          </div>
+          )}
+
+          {mode === 'signup' && (
+            <label className="flex items-start gap-4 px-2 py-3 cursor-pointer group hover:bg-slate-50 rounded-xl transition-colors">
+              <input type="checkbox" required className="mt-1 w-5 h-5 rounded-lg border-slate-300 text-indigo-600 focus:ring-indigo-500 cursor-pointer" checked={authForm.terms} onChange={e => setAuthForm({...authForm, terms: e.target.checked})} />
+              <span className="text-xs text-slate-500 leading-snug">{termsBefore}<b>LGPD</b>{termsAfter}</span>
+            </label>
+          )}
+          {mode === 'signup' && <FieldError message={authErrors.terms} />}
+
+          <Button type="submit" fullWidth className="py-5 text-lg shadow-2xl shadow-indigo-100 mt-4 font-bold" disabled={loading}>
+            {t(linkMode ? linkMode.submit : mode === 'login' ? 'auth.submitLogin' : 'auth.submitSignup')}
+          </Button>
+
+          {mode === 'login' && (
+            <button type="button" onClick={() => switchMode('magic')} className="w-full py-4 rounded-2xl bg-slate-50 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-colors">
+              {t('auth.magicLink')}
+            </button>
+          )}
+        </form>
+        )}
+
+        {mode === 'login' && unconfirmed && (
+          <p className="mt-6 text-xs text-amber-600 font-bold bg-amber-50 rounded-2xl px-5 py-4">
+            {t('auth.unconfirmed', { email: unconfirmed })}{' '}
+            <button type="button" disabled={loading} onClick={handleResend} className="underline font-black hover:text-amber-800 disabled:opacity-50">{t('auth.resend')}</button>
+          </p>
+        )}
+
+        <button
+          type="button"
+          disabled={loading}
+          onClick={() => switchMode(mode === 'login' ? 'signup' : 'login')}
+          className="w-full mt-8 text-indigo-600 font-black text-xs uppercase tracking-widest hover:text-indigo-800 transition-colors disabled:opacity-50"
+        >
+          {t(mode === 'login' ? 'auth.toSignup' : mode === 'signup' ? 'auth.toLogin' : 'auth.backToLogin')}
+        </button>
+      </div>
+
+      <p className="mt-8 text-slate-400 text-[10px] font-bold uppercase tracking-[0.2em]">{t('auth.footer')}</p>
+    </div>
+  );
+};
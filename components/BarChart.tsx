@@ -0,0 +1,23 @@
+
+import React from 'react';
+
+interface BarChartProps {
+  data: { label: string; value: number; display?: string }[];
+  color?: string;
+}
+
+// Gráfico de colunas simples em CSS, sem dependências de bibliotecas de gráficos
+export const BarChart: React.FC<BarChartProps> = ({ data, color = 'bg-indigo-500' }) => {
+  const max = Math.max(1, ...data.map(d => d.value));
+  return (
+    <div className="flex items-end gap-1.5 h-40">
+      {data.map(d => (
+        <div key={d.label} className="flex-1 min-w-0 h-full flex flex-col justify-end items-center gap-1" title={`${d.label}: ${d.display ?? d.value}`}>
+          <span className="text-[9px] font-black text-slate-500">{d.value > 0 ? d.display ?? d.value : ''}</span>
+          <div className={`w-full rounded-t-lg ${color}`} style={{ height: `${(d.value / max) * 100}%`, minHeight: d.value > 0 ? 4 : 0 }}></div>
+          <span className="text-[9px] font-bold text-slate-400 truncate w-full text-center">{d.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
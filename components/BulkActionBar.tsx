@@ -0,0 +1,72 @@
+
+import React from 'react';
+import { BulkAction, CompanySchema, CustomerStatus, Membership } from '../types';
+import { STATUS_LABELS } from '../services/filters';
+import { t } from '../lib/i18n';
+
+interface BulkActionBarProps {
+  count: number;
+  members: Membership[];
+  schema: CompanySchema;
+  canEdit: boolean;
+  canDelete: boolean;
+  canExport: boolean;
+  canMessage: boolean;
+  progress: { done: number; total: number } | null;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onRun: (action: BulkAction) => void;
+  onExport: () => void;
+  onMessage: () => void;
+  onExit: () => void;
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, members, schema, canEdit, canDelete, canExport, canMessage, progress, onSelectAll, onClear, onRun, onExport, onMessage, onExit }) => {
+  const busy = !!progress || count === 0;
+  const selectClass = "px-3 py-2.5 rounded-2xl bg-white/10 text-white text-[10px] font-black uppercase tracking-widest outline-none cursor-pointer disabled:opacity-40 [&>option]:text-slate-700";
+
+  // Selects funcionam como menus: executam ao escolher e voltam ao rótulo
+  const menu = (label: string, options: [string, string][], run: (value: string) => void) => (
+    <select value="" disabled={busy} onChange={e => e.target.value && run(e.target.value)} className={selectClass}>
+      <option value="">{label}</option>
+      {options.map(([value, text]) => <option key={value} value={value}>{text}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-3rem)] max-w-4xl bg-slate-900 text-white rounded-[2rem] shadow-2xl p-4 space-y-3 animate-slide-up">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs font-black uppercase tracking-widest">
+          {progress ? t('bulk.progress', { done: progress.done, total: progress.total }) : t('bulk.selected', { count })}
+        </span>
+        <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest">
+          <button disabled={!!progress} onClick={onSelectAll} className="text-indigo-300 hover:text-white">{t('bulk.selectAll')}</button>
+          {count > 0 && <button disabled={!!progress} onClick={onClear} className="text-slate-400 hover:text-white">{t('bulk.clear')}</button>}
+          <button disabled={!!progress} onClick={onExit} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-400 transition-all" style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}></div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {canEdit && menu(t('bulk.status'), Object.values(CustomerStatus).map(s => [s, STATUS_LABELS[s]]), status => onRun({ kind: 'status', status: status as CustomerStatus }))}
+        {canEdit && schema.tags.length > 0 && menu(t('bulk.addTag'), schema.tags.map(tag => [tag.id, tag.name]), id => onRun({ kind: 'tags', add: [id], remove: [] }))}
+        {canEdit && schema.tags.length > 0 && menu(t('bulk.removeTag'), schema.tags.map(tag => [tag.id, tag.name]), id => onRun({ kind: 'tags', add: [], remove: [id] }))}
+        {canEdit && members.length > 1 && menu(t('common.responsible'), members.map(m => [m.user_id, m.name]), userId => onRun({ kind: 'responsible', userId }))}
+        {canMessage && (
+          <button disabled={busy} onClick={onMessage} className="px-4 py-2.5 rounded-2xl bg-emerald-500/80 hover:bg-emerald-500 text-[10px] font-black uppercase tracking-widest disabled:opacity-40">{t('common.message')}</button>
+        )}
+        {canExport && (
+          <button disabled={busy} onClick={onExport} className="px-4 py-2.5 rounded-2xl bg-white/10 hover:bg-white/20 text-[10px] font-black uppercase tracking-widest disabled:opacity-40">{t('common.export')}</button>
+        )}
+        {canDelete && (
+          <button disabled={busy} onClick={() => onRun({ kind: 'delete' })} className="px-4 py-2.5 rounded-2xl bg-red-500/80 hover:bg-red-500 text-[10px] font-black uppercase tracking-widest disabled:opacity-40">{t('common.delete')}</button>
+        )}
+      </div>
+    </div>
+  );
+};
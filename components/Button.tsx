@@ -0,0 +1,32 @@
+
+import React from 'react';
+
+interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  variant?: 'primary' | 'secondary' | 'outline' | 'danger';
+  fullWidth?: boolean;
+}
+
+export const Button: React.FC<ButtonProps> = ({ 
+  children, 
+  variant = 'primary', 
+  fullWidth = false, 
+  className = '', 
+  ...props 
+}) => {
+  const baseStyles = "px-4 py-2 rounded-lg font-medium transition-all active:scale-95 flex items-center justify-center gap-2";
+  const variants = {
+    primary: "bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm",
+    secondary: "bg-slate-200 text-slate-800 hover:bg-slate-300",
+    outline: "border-2 border-slate-200 text-slate-600 hover:bg-slate-50",
+    danger: "bg-red-500 text-white hover:bg-red-600 shadow-sm"
+  };
+
+  return (
+    <button 
+      className={`${baseStyles} ${variants[variant]} ${fullWidth ? 'w-full' : ''} ${className}`}
+      {...props}
+    >
+      {children}
+    </button>
+  );
+};
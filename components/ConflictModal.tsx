@@ -0,0 +1,86 @@
+
+import React, { useMemo, useState } from 'react';
+import { CompanySchema, Customer, CustomerConflict, Membership } from '../types';
+import { changedKeys, ConflictSide, describeConflict, resolveConflict } from '../services/conflicts';
+import { Button } from './Button';
+import { formatDateTime, t } from '../lib/i18n';
+
+interface ConflictModalProps {
+  conflict: CustomerConflict;
+  remaining: number;
+  schema: CompanySchema;
+  members: Membership[];
+  busy: boolean;
+  onResolve: (conflict: CustomerConflict, resolved: Customer) => void;
+  onClose: () => void;
+}
+
+export const ConflictModal: React.FC<ConflictModalProps> = ({ conflict, remaining, schema, members, busy, onResolve, onClose }) => {
+  // Só os campos alterados dos dois lados; os demais são combinados sem perguntar
+  const fields = useMemo(() => describeConflict(conflict, schema, members), [conflict, schema, members]);
+  const merged = changedKeys(conflict.mine, conflict.theirs).length - fields.length;
+  // Por padrão cada campo em conflito fica com a versão do usuário, que foi a última intenção dele
+  const [choices, setChoices] = useState<Record<string, ConflictSide>>(() => Object.fromEntries(fields.map(f => [f.key, 'mine'])));
+
+  const chooseAll = (side: ConflictSide) => setChoices(Object.fromEntries(fields.map(f => [f.key, side])));
+
+  const option = (key: string, side: ConflictSide, value: string) => (
+    <button
+      type="button"
+      onClick={() => setChoices(prev => ({ ...prev, [key]: side }))}
+      className={`flex-1 min-w-0 text-left p-4 rounded-2xl border-2 transition-all ${choices[key] === side ? 'border-indigo-500 bg-indigo-50' : 'border-slate-50 bg-slate-50 hover:border-slate-200'}`}
+    >
+      <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{t(side === 'mine' ? 'conflict.mine' : 'conflict.theirs')}</p>
+      <p className="text-sm font-bold text-slate-700 break-words mt-1">{value}</p>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">{t('conflict.title', { name: conflict.theirs.name })}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">
+              {t('conflict.changedElsewhere')}{conflict.theirs.updated_at ? t('conflict.changedAt', { date: formatDateTime(conflict.theirs.updated_at) }) : ''}
+              {remaining > 1 ? t('conflict.remaining', { count: remaining }) : ''}
+            </p>
+          </div>
+          <button onClick={onClose} title={t('conflict.later')} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-6 safe-bottom custom-scroll">
+          <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest">
+            <button type="button" onClick={() => chooseAll('mine')} className="text-indigo-600 hover:underline">{t('conflict.keepMine')}</button>
+            <button type="button" onClick={() => chooseAll('theirs')} className="text-slate-400 hover:underline">{t('conflict.keepTheirs')}</button>
+          </div>
+
+          {merged > 0 && (
+            <p className="text-xs text-slate-500 font-bold">
+              {t('conflict.merged', { count: merged })}
+            </p>
+          )}
+
+          {fields.map(field => (
+            <div key={field.key} className="space-y-2">
+              <p className="text-[11px] font-black text-slate-500 uppercase tracking-widest">{field.label}</p>
+              <div className="flex gap-3">
+                {option(field.key, 'mine', field.mine)}
+                {option(field.key, 'theirs', field.theirs)}
+              </div>
+            </div>
+          ))}
+
+          <Button
+            fullWidth
+            disabled={busy}
+            onClick={() => onResolve(conflict, resolveConflict(conflict, choices))}
+            className="py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest"
+          >
+            {t('conflict.apply')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+
+import React, { useState } from 'react';
+import { CompanySchema, Customer, FieldErrors, Tag } from '../types';
+import { TagChip } from './TagChip';
+import { FieldError } from './FieldError';
+import { t } from '../lib/i18n';
+
+interface CustomFieldInputsProps {
+  schema: CompanySchema;
+  customer: Customer | null;
+  errors?: FieldErrors;
+}
+
+const inputClass = "w-full px-7 py-5 rounded-3xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/30 font-bold text-slate-800 placeholder:text-slate-300";
+
+const TagToggle: React.FC<{ tag: Tag; defaultChecked: boolean }> = ({ tag, defaultChecked }) => {
+  const [checked, setChecked] = useState(defaultChecked);
+  return (
+    <label className="cursor-pointer">
+      <input type="checkbox" name="tags" value={tag.id} checked={checked} onChange={e => setChecked(e.target.checked)} className="sr-only" />
+      <TagChip tag={tag} active={checked} />
+    </label>
+  );
+};
+
+// Campos definidos pela empresa, lidos no envio do formulário por readCustomInputs (inputs cf_<chave>) e "tags"
+export const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ schema, customer, errors = {} as FieldErrors }) => {
+  if (schema.fields.length === 0 && schema.tags.length === 0) return null;
+  const values = customer?.custom_fields || {};
+
+  return (
+    <>
+      {schema.tags.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('field.tags')}</label>
+          <div className="flex flex-wrap gap-2">
+            {schema.tags.map(tag => <TagToggle key={tag.id} tag={tag} defaultChecked={!!customer?.tags?.includes(tag.id)} />)}
+          </div>
+          <FieldError message={errors.tags} />
+        </div>
+      )}
+
+      {schema.fields.length > 0 && (
+        <div className="grid grid-cols-2 gap-6">
+          {schema.fields.map(field => {
+            const name = `cf_${field.key}`;
+            const value = values[field.key];
+            return (
+              <div key={field.id} className={`space-y-2 ${field.type === 'text' ? 'col-span-2' : ''}`}>
+                <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{field.label}{field.required && field.type !== 'boolean' && ' *'}</label>
+                {field.type === 'select' ? (
+                  <select name={name} required={field.required} defaultValue={(value as string) ?? ''} className={`${inputClass} cursor-pointer appearance-none`}>
+                    <option value="">—</option>
+                    {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                  </select>
+                ) : field.type === 'boolean' ? (
+                  <label className="flex items-center gap-3 px-7 py-5 cursor-pointer">
+                    <input type="checkbox" name={name} defaultChecked={value === true} className="w-5 h-5 rounded-lg text-indigo-600" />
+                    <span className="text-sm font-bold text-slate-600">{t('filters.yes')}</span>
+                  </label>
+                ) : (
+                  <input
+                    name={name}
+                    type={field.type === 'date' ? 'date' : 'text'}
+                    inputMode={field.type === 'number' ? 'decimal' : undefined}
+                    required={field.required}
+                    defaultValue={value === null || value === undefined ? '' : String(value)}
+                    className={inputClass}
+                  />
+                )}
+                <FieldError message={errors[`cf:${field.key}`]} />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,142 @@
+
+import React, { useState } from 'react';
+import { CompanySchema, CustomFieldDefinition, CustomFieldType } from '../types';
+import { Button } from './Button';
+import { TagChip } from './TagChip';
+import { customFieldService, CUSTOM_FIELD_TYPE_LABELS, TAG_COLORS } from '../services/customFields';
+import { errorMessage } from '../services/errors';
+import { t } from '../lib/i18n';
+
+interface CustomFieldsModalProps {
+  empresaId: string;
+  schema: CompanySchema;
+  onClose: () => void;
+  onSchemaChanged: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+const EMPTY_FIELD = { label: '', type: 'text' as CustomFieldType, options: '', required: false, show_on_card: false };
+
+export const CustomFieldsModal: React.FC<CustomFieldsModalProps> = ({ empresaId, schema, onClose, onSchemaChanged, onNotify }) => {
+  const [field, setField] = useState(EMPTY_FIELD);
+  const [tag, setTag] = useState({ name: '', color: TAG_COLORS[0] });
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onSchemaChanged();
+      onNotify(success);
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('schema.saveFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddField = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await customFieldService.saveField({
+        empresa_id: empresaId,
+        label: field.label.trim(),
+        type: field.type,
+        options: field.type === 'select' ? field.options.split(',').map(o => o.trim()).filter(Boolean) : [],
+        required: field.required,
+        show_on_card: field.show_on_card,
+        position: schema.fields.length,
+      });
+      setField(EMPTY_FIELD);
+    }, t('schema.fieldCreated', { label: field.label }));
+  };
+
+  const toggleFlag = (definition: CustomFieldDefinition, flag: 'required' | 'show_on_card') =>
+    run(() => customFieldService.saveField({ ...definition, [flag]: !definition[flag] }), t('schema.fieldUpdated'));
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await customFieldService.saveTag({ empresa_id: empresaId, name: tag.name, color: tag.color });
+      setTag({ ...tag, name: '' });
+    }, t('schema.tagCreated', { name: tag.name }));
+  };
+
+  const fieldClass = "px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">{t('settings.schema')}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('schema.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-10 safe-bottom">
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('schema.customFields')}</h3>
+            {schema.fields.map(definition => (
+              <div key={definition.id} className="flex justify-between items-center gap-4 p-4 rounded-2xl border border-slate-100">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-700 text-sm truncate">{definition.label}</p>
+                  <p className="text-[11px] text-slate-400 font-bold truncate">
+                    {CUSTOM_FIELD_TYPE_LABELS[definition.type]}{definition.type === 'select' && `: ${definition.options.join(', ')}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button disabled={busy} onClick={() => toggleFlag(definition, 'required')} className={`text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest ${definition.required ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 bg-slate-50'}`}>{t('schema.required')}</button>
+                  <button disabled={busy} onClick={() => toggleFlag(definition, 'show_on_card')} className={`text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest ${definition.show_on_card ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 bg-slate-50'}`}>{t('schema.onCard')}</button>
+                  <button disabled={busy} onClick={() => window.confirm(t('schema.removeFieldConfirm', { label: definition.label })) && run(() => customFieldService.removeField(definition), t('schema.fieldRemoved'))} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-red-500 bg-red-50 hover:bg-red-100">{t('common.remove')}</button>
+                </div>
+              </div>
+            ))}
+
+            <form onSubmit={handleAddField} className="space-y-3 p-4 rounded-2xl border border-dashed border-slate-200">
+              <div className="flex gap-3">
+                <input required value={field.label} onChange={e => setField({ ...field, label: e.target.value })} placeholder={t('schema.fieldPlaceholder')} className={`${fieldClass} flex-1 min-w-0`} />
+                <select value={field.type} onChange={e => setField({ ...field, type: e.target.value as CustomFieldType })} className={fieldClass}>
+                  {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>)}
+                </select>
+              </div>
+              {field.type === 'select' && (
+                <input required value={field.options} onChange={e => setField({ ...field, options: e.target.value })} placeholder={t('schema.optionsPlaceholder')} className={`${fieldClass} w-full`} />
+              )}
+              <div className="flex items-center gap-5">
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={field.required} onChange={e => setField({ ...field, required: e.target.checked })} className="w-4 h-4 rounded text-indigo-600" /> {t('schema.required')}
+                </label>
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={field.show_on_card} onChange={e => setField({ ...field, show_on_card: e.target.checked })} className="w-4 h-4 rounded text-indigo-600" /> {t('schema.showOnCard')}
+                </label>
+                <Button type="submit" disabled={busy} className="ml-auto px-5 rounded-2xl font-black text-[10px] uppercase tracking-widest">{t('common.add')}</Button>
+              </div>
+            </form>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('field.tags')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {schema.tags.map(existing => (
+                <button key={existing.id} disabled={busy} title={t('schema.removeTag')} onClick={() => window.confirm(t('schema.removeTagConfirm', { name: existing.name })) && run(() => customFieldService.removeTag(existing), t('schema.tagRemoved'))}>
+                  <TagChip tag={existing} />
+                </button>
+              ))}
+            </div>
+            <form onSubmit={handleAddTag} className="flex items-center gap-3">
+              <input required value={tag.name} onChange={e => setTag({ ...tag, name: e.target.value })} placeholder={t('schema.tagPlaceholder')} className={`${fieldClass} flex-1 min-w-0`} />
+              <div className="flex gap-1.5">
+                {TAG_COLORS.map(color => (
+                  <button key={color} type="button" onClick={() => setTag({ ...tag, color })} className={`w-6 h-6 rounded-full border-2 ${tag.color === color ? 'border-slate-700' : 'border-white'}`} style={{ backgroundColor: color }} />
+                ))}
+              </div>
+              <Button type="submit" disabled={busy} className="px-5 rounded-2xl font-black text-[10px] uppercase tracking-widest">{t('common.create')}</Button>
+            </form>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+
+import React, { useRef, useState } from 'react';
+import { Company, CompanySchema, Customer, CustomerStatus, DuplicateMatch, FieldErrors, UserProfile } from '../types';
+import { customerService, syncService } from '../services/sync';
+import { auditService } from '../services/audit';
+import { errorMessage, isAppError, isConflictError } from '../services/errors';
+import { formText, validateCustomer } from '../services/validation';
+import { fetchDuplicateCandidates } from '../services/duplicates';
+import { readCustomInputs } from '../services/customFields';
+import { STATUS_LABELS } from '../services/filters';
+import { maskPhoneInput } from '../lib/phone';
+import { goBack, navigate } from '../lib/router';
+import { Button } from './Button';
+import { FieldError } from './FieldError';
+import { CustomFieldInputs } from './CustomFieldInputs';
+import { DuplicateWarning } from './DuplicateWarning';
+import { localDateISO, t } from '../lib/i18n';
+
+interface CustomerFormPageProps {
+  customer: Customer | null; // null: novo cadastro
+  company: Company;
+  profile: UserProfile;
+  schema: CompanySchema;
+  onSaved: (customer: Customer) => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+// /clientes/novo e /clientes/:id/editar
+export const CustomerFormPage: React.FC<CustomerFormPageProps> = ({ customer, company, profile, schema, onSaved, onNotify }) => {
+  const [formDuplicates, setFormDuplicates] = useState<DuplicateMatch[]>([]);
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  const [loading, setLoading] = useState(false);
+  const duplicateTimer = useRef<ReturnType<typeof setTimeout>>();
+  // Versão em que a edição começou; atualizações recebidas depois não mudam a base da gravação
+  const [base] = useState(customer);
+
+  const close = () => {
+    clearTimeout(duplicateTimer.current);
+    goBack(customer ? `/clientes/${customer.id}` : '/clientes');
+  };
+
+  // Avisa sobre possíveis duplicados enquanto o formulário é preenchido
+  const checkDuplicates = (form: HTMLFormElement) => {
+    clearTimeout(duplicateTimer.current);
+    const formData = new FormData(form);
+    duplicateTimer.current = setTimeout(async () => {
+      try {
+        setFormDuplicates(await fetchDuplicateCandidates(company.id, {
+          id: customer?.id,
+          name: formText(formData, 'name'),
+          phone: formText(formData, 'phone'),
+          email: formText(formData, 'email'),
+        }));
+      } catch (err) {
+        console.error("Erro ao verificar duplicados:", err);
+      }
+    }, 400);
+  };
+
+  const handleSaveCustomer = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.currentTarget);
+    const { data, errors } = validateCustomer({
+      name: formText(formData, 'name'),
+      phone: formText(formData, 'phone'),
+      email: formText(formData, 'email'),
+      status: formText(formData, 'status'),
+      registration_date: formText(formData, 'registration_date'),
+      // Na edição as anotações ficam na linha do tempo; o campo só existe no cadastro novo
+      observations: formData.has('observations') ? formText(formData, 'observations') : undefined,
+      tags: formData.getAll('tags').filter((value): value is string => typeof value === 'string'),
+      custom: readCustomInputs(formData, schema.fields),
+    }, schema);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return onNotify(t('form.fixErrors'), 'error');
+
+    setLoading(true);
+    try {
+      const payload: Partial<Customer> = {
+        ...data,
+        id: customer?.id,
+        empresa_id: company.id,
+        observations: data.observations ?? customer?.observations ?? '',
+        custom_fields: { ...customer?.custom_fields, ...data.custom_fields },
+        created_by: customer?.created_by || profile.id,
+        // Na edição o campo não vai: um cliente aberto de outra aba e enviado à lixeira não volta sem querer
+        ...(customer ? {} : { is_deleted: false }),
+        // Se o servidor tiver outra versão, as alterações dos dois lados são combinadas a partir da base
+        updated_at: base?.updated_at
+      };
+
+      const saved = await customerService.save(payload, base || undefined);
+      auditService.recordSave(profile, customer, saved);
+      onSaved(saved);
+      // Cadastro novo troca o formulário pela página do cliente; a edição volta para onde estava
+      if (customer) close();
+      else navigate(`/clientes/${saved.id}`, { replace: true });
+      onNotify(t(syncService.getStatus().pending > 0 ? 'form.savedOffline' : 'form.saved'));
+    } catch (err) {
+      if (isConflictError(err)) {
+        close();
+        return onNotify(t('form.conflict'), 'error');
+      }
+      if (isAppError(err, 'validation')) setFormErrors(err.fields || {});
+      onNotify(errorMessage(err, t('form.saveFailed')), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="px-6 py-10 max-w-2xl mx-auto">
+      <div className="bg-white rounded-[3.5rem] border border-slate-100 shadow-sm overflow-hidden animate-fade-in">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight">
+              {t(customer ? 'form.editTitle' : 'form.newTitle')}
+            </h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('form.isolation')}</p>
+          </div>
+          <button onClick={close} title={t('common.cancel')} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <form onSubmit={handleSaveCustomer} noValidate onChange={e => checkDuplicates(e.currentTarget)} className="px-10 py-10 space-y-8">
+           <div className="space-y-2">
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('form.name')}</label>
+              <input name="name" required defaultValue={customer?.name} className="w-full px-7 py-5 rounded-3xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/30 font-bold text-slate-800 placeholder:text-slate-300" placeholder={t('form.namePlaceholder')} />
+              <FieldError message={formErrors.name} />
+           </div>
+
+           <div className="grid grid-cols-2 gap-6">
+             <div className="space-y-2">
+                <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('form.phone')}</label>
+                <input name="phone" required type="tel" defaultValue={customer?.phone} onChange={e => { e.target.value = maskPhoneInput(e.target.value); }} className="w-full px-7 py-5 rounded-3xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/30 font-bold text-slate-800 placeholder:text-slate-300" placeholder={t('form.phonePlaceholder')} />
+                <FieldError message={formErrors.phone} />
+             </div>
+             <div className="space-y-2">
+                <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('form.startDate')}</label>
+                <input type="date" name="registration_date" required defaultValue={customer?.registration_date || localDateISO()} className="w-full px-7 py-5 rounded-3xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/30 font-bold text-slate-800" />
+                <FieldError message={formErrors.registration_date} />
+             </div>
+           </div>
+
+           <div className="space-y-2">
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('form.email')}</label>
+              <input name="email" type="email" defaultValue={customer?.email} className="w-full px-7 py-5 rounded-3xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/30 font-bold text-slate-800 placeholder:text-slate-300" placeholder={t('form.emailPlaceholder')} />
+              <FieldError message={formErrors.email} />
+           </div>
+
+           <div className="space-y-2">
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('form.status')}</label>
+              <select name="status" defaultValue={customer?.status || CustomerStatus.ACTIVE} className="w-full px-7 py-5 rounded-3xl border-2 border-slate-50 bg-slate-50 outline-none font-black text-slate-700 cursor-pointer appearance-none transition-all focus:border-indigo-500">
+                {[CustomerStatus.ACTIVE, CustomerStatus.PENDING, CustomerStatus.INACTIVE].map(status => (
+                  <option key={status} value={status}>{t('form.statusOption', { status: STATUS_LABELS[status].toUpperCase() })}</option>
+                ))}
+              </select>
+           </div>
+
+           {!customer && (
+           <div className="space-y-2">
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('form.firstNote')}</label>
+              <textarea name="observations" rows={4} className="w-full px-7 py-5 rounded-3xl border-2 border-slate-50 outline-none bg-slate-50/30 resize-none font-medium text-sm text-slate-600 placeholder:text-slate-300" placeholder={t('form.notePlaceholder')} />
+           </div>
+           )}
+
+           <CustomFieldInputs schema={schema} customer={customer} errors={formErrors} />
+
+           <DuplicateWarning matches={formDuplicates} />
+
+           <div className="pt-6">
+             <Button type="submit" fullWidth className="py-6 text-lg shadow-[0_20px_40px_-10px_rgba(79,70,229,0.3)] font-black uppercase tracking-widest" disabled={loading}>
+               {loading ? (
+                 <div className="flex items-center gap-3">
+                    <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-white"></div>
+                    <span>{t('common.processing')}</span>
+                 </div>
+               ) : t(customer ? 'form.submitEdit' : 'form.submitNew')}
+             </Button>
+           </div>
+        </form>
+      </div>
+    </main>
+  );
+};
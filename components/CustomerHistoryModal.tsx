@@ -0,0 +1,45 @@
+
+import React, { useEffect, useState } from 'react';
+import { AuditEvent, Customer } from '../types';
+import { auditService } from '../services/audit';
+import { AuditTimeline } from './AuditTimeline';
+import { t } from '../lib/i18n';
+
+interface CustomerHistoryModalProps {
+  customer: Customer;
+  onClose: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+export const CustomerHistoryModal: React.FC<CustomerHistoryModalProps> = ({ customer, onClose, onNotify }) => {
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+
+  useEffect(() => {
+    auditService.fetchForCustomer(customer.id, customer.empresa_id)
+      .then(setEvents)
+      .catch(() => {
+        setEvents([]);
+        onNotify(t('history.loadFailed'), 'error');
+      });
+  }, [customer.id]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">{t('history.title', { name: customer.name })}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('history.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 safe-bottom">
+          {events === null
+            ? <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-indigo-600 mx-auto"></div>
+            : <AuditTimeline events={events} />}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+
+import React, { useState } from 'react';
+import { Company, CompanySchema, Customer, CustomerStatus, Membership, UserProfile } from '../types';
+import { can } from '../services/team';
+import { trashService } from '../services/trash';
+import { errorMessage } from '../services/errors';
+import { STATUS_LABELS } from '../services/filters';
+import { lastContactLabel } from '../services/interactions';
+import { tagsOf, formatCustomValue } from '../services/customFields';
+import { buildExport, downloadBlob, exportFileName } from '../services/exporter';
+import { auditService } from '../services/audit';
+import { goBack } from '../lib/router';
+import { Link } from './Link';
+import { PhoneActions } from './PhoneActions';
+import { TagChip } from './TagChip';
+import { CustomerTimeline } from './CustomerTimeline';
+import { CustomerHistoryModal } from './CustomerHistoryModal';
+import { PrivacyModal } from './PrivacyModal';
+import { MessageComposerModal } from './MessageComposerModal';
+import { BackIcon, DownloadIcon, EditIcon, HistoryIcon, MessageIcon, ShieldIcon, TrashIcon, RestoreIcon } from './Icons';
+import { formatDate, t } from '../lib/i18n';
+
+interface CustomerPageProps {
+  customer: Customer | null | undefined; // undefined: carregando; null: não encontrado
+  company: Company;
+  membership: Membership | null;
+  profile: UserProfile;
+  members: Membership[];
+  schema: CompanySchema;
+  onChanged: (customer: Customer) => void;
+  onRefresh: () => void;
+  onTasksChanged: () => void;
+  onNotify: (message: string, type?: 'success' | 'error', action?: { label: string; onClick: () => void }) => void;
+}
+
+const STATUS_STYLES: Record<CustomerStatus, string> = {
+  [CustomerStatus.ACTIVE]: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  [CustomerStatus.PENDING]: 'bg-amber-50 text-amber-600 border-amber-100',
+  [CustomerStatus.INACTIVE]: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+// /clientes/:id: dados completos, ações e linha do tempo do cliente
+export const CustomerPage: React.FC<CustomerPageProps> = ({ customer, company, membership, profile, members, schema, onChanged, onRefresh, onTasksChanged, onNotify }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [showMessage, setShowMessage] = useState(false);
+  // Recarrega a linha do tempo depois de mensagens registradas pelo compositor
+  const [timelineVersion, setTimelineVersion] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  // Lixeira e restauração gravam o cliente; a página e a lista recebem a versão salva
+  const run = async (action: () => Promise<Customer>, failure: string): Promise<Customer | null> => {
+    setBusy(true);
+    try {
+      const saved = await action();
+      onChanged(saved);
+      return saved;
+    } catch (err) {
+      onNotify(errorMessage(err, failure), 'error');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (target: Customer) => {
+    const trashed = await run(() => trashService.moveToTrash(target, profile), t('customer.deleteFailed'));
+    if (!trashed) return;
+    goBack('/clientes');
+    onNotify(t('customer.trashed'), 'success', { label: t('common.undo'), onClick: () => handleRestore(trashed) });
+  };
+
+  const handleRestore = async (target: Customer) => {
+    if (await run(() => trashService.restore(target, profile), t('customer.restoreFailed'))) onNotify(t('customer.restored'));
+  };
+
+  // Contato para salvar na agenda do celular
+  const handleVCard = (target: Customer) => {
+    downloadBlob(buildExport([target], { format: 'vcf', fields: [] }, schema), exportFileName('vcf', 'contato'));
+    auditService.record(profile, { empresa_id: target.empresa_id, customer_id: target.id, action: 'export', summary: 'vCard 3.0 • 1 cliente(s)' });
+  };
+
+  const back = (
+    <button onClick={() => goBack('/clientes')} className="flex items-center gap-2 text-[11px] font-black uppercase tracking-[0.2em] text-slate-400 hover:text-indigo-600 transition-colors">
+      <BackIcon /> {t('common.customers')}
+    </button>
+  );
+
+  if (customer === undefined) return (
+    <main className="px-6 py-10 space-y-8 max-w-4xl mx-auto">
+      {back}
+      <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-indigo-600 mx-auto"></div>
+    </main>
+  );
+
+  if (customer === null) return (
+    <main className="px-6 py-10 space-y-8 max-w-4xl mx-auto">
+      {back}
+      <div className="text-center py-24 bg-white rounded-[3rem] border-2 border-dashed border-slate-100">
+        <p className="text-slate-400 font-bold text-sm tracking-tight">{t('customer.notFound')}</p>
+      </div>
+    </main>
+  );
+
+  const memberName = members.find(m => m.user_id === customer.created_by)?.name;
+  const customValues = schema.fields
+    .map(field => ({ field, value: formatCustomValue(field, customer.custom_fields?.[field.key]) }))
+    .filter(({ value }) => value);
+
+  return (
+    <main className="px-6 py-10 space-y-8 max-w-4xl mx-auto">
+      {back}
+
+      {customer.is_deleted && (
+        <div className="bg-red-50 text-red-500 p-6 rounded-[2.5rem] flex items-center justify-between gap-4">
+          <p className="text-xs font-bold">{customer.deleted_at ? t('customer.inTrashSince', { date: formatDate(customer.deleted_at) }) : t('customer.inTrash')}</p>
+          {can(membership, 'customers.delete') && (
+            <button disabled={busy} onClick={() => handleRestore(customer)} className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-white text-[10px] font-black uppercase tracking-widest hover:bg-red-500 hover:text-white transition-colors">
+              <RestoreIcon /> {t('common.restore')}
+            </button>
+          )}
+        </div>
+      )}
+
+      <section className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm space-y-6 animate-fade-in">
+        <div className="flex justify-between items-start gap-4">
+          <div className="min-w-0">
+            <h2 className="text-3xl font-black text-slate-900 tracking-tight break-words">{customer.name}</h2>
+            <div className="flex items-center gap-2.5 text-slate-500 text-sm font-bold mt-3">
+              <span>{customer.phone}</span>
+              <PhoneActions customer={customer} onNotify={onNotify} />
+            </div>
+            {customer.email && <a href={`mailto:${customer.email}`} className="block text-sm font-bold text-indigo-500 hover:underline mt-2">{customer.email}</a>}
+          </div>
+          <div className={`shrink-0 text-[9px] font-black px-4 py-2 rounded-2xl uppercase tracking-widest shadow-sm border ${STATUS_STYLES[customer.status]}`}>
+            {STATUS_LABELS[customer.status]}
+          </div>
+        </div>
+
+        {tagsOf(customer, schema).length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tagsOf(customer, schema).map(tag => <TagChip key={tag.id} tag={tag} small />)}
+          </div>
+        )}
+
+        <dl className="grid grid-cols-2 sm:grid-cols-3 gap-5">
+          {[
+            [t('customer.since'), formatDate(customer.registration_date)],
+            [t('customer.contact'), lastContactLabel(customer)],
+            ...(memberName ? [[t('common.responsible'), memberName]] : []),
+            ...customValues.map(({ field, value }) => [field.label, value]),
+          ].map(([label, value]) => (
+            <div key={label} className="min-w-0">
+              <dt className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{label}</dt>
+              <dd className="text-sm font-bold text-slate-700 mt-1 break-words">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="flex flex-wrap gap-2.5 pt-6 border-t border-slate-50">
+          <button onClick={() => setShowHistory(true)} className="flex items-center gap-2 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-500 bg-slate-50 rounded-2xl hover:bg-slate-700 hover:text-white transition-all">
+            <HistoryIcon /> {t('common.history')}
+          </button>
+          {can(membership, 'messages.send') && !customer.is_deleted && !customer.anonymized_at && (
+          <button onClick={() => setShowMessage(true)} className="flex items-center gap-2 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-emerald-600 bg-emerald-50 rounded-2xl hover:bg-emerald-500 hover:text-white transition-all">
+            <MessageIcon /> {t('common.message')}
+          </button>
+          )}
+          {can(membership, 'customers.export') && !customer.anonymized_at && (
+          <button onClick={() => handleVCard(customer)} className="flex items-center gap-2 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-500 bg-slate-50 rounded-2xl hover:bg-slate-700 hover:text-white transition-all">
+            <DownloadIcon /> {t('customer.contact')}
+          </button>
+          )}
+          {can(membership, 'lgpd.manage') && (
+          <button onClick={() => setShowPrivacy(true)} className="flex items-center gap-2 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-500 bg-slate-50 rounded-2xl hover:bg-slate-700 hover:text-white transition-all">
+            <ShieldIcon /> {t('customer.privacy')}
+          </button>
+          )}
+          {can(membership, 'customers.edit') && !customer.is_deleted && (
+          <Link to={`/clientes/${customer.id}/editar`} className="flex items-center gap-2 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-indigo-500 bg-indigo-50 rounded-2xl hover:bg-indigo-600 hover:text-white transition-all">
+            <EditIcon /> {t('common.edit')}
+          </Link>
+          )}
+          {can(membership, 'customers.delete') && !customer.is_deleted && (
+          <button disabled={busy} onClick={() => handleDelete(customer)} className="flex items-center gap-2 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-red-400 bg-red-50 rounded-2xl hover:bg-red-500 hover:text-white transition-all">
+            <TrashIcon /> {t('common.delete')}
+          </button>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm">
+        <CustomerTimeline
+          key={`${customer.id}:${timelineVersion}`}
+          customer={customer}
+          members={members}
+          membership={membership}
+          profile={profile}
+          onChanged={onChanged}
+          onTasksChanged={onTasksChanged}
+          onNotify={onNotify}
+        />
+      </section>
+
+      {showHistory && (
+        <CustomerHistoryModal customer={customer} onClose={() => setShowHistory(false)} onNotify={onNotify} />
+      )}
+
+      {showMessage && (
+        <MessageComposerModal
+          customers={[customer]}
+          company={company}
+          profile={profile}
+          schema={schema}
+          onSent={saved => { onChanged(saved); setTimelineVersion(v => v + 1); }}
+          onClose={() => setShowMessage(false)}
+          onNotify={onNotify}
+        />
+      )}
+
+      {showPrivacy && (
+        <PrivacyModal
+          customer={customer}
+          profile={profile}
+          onClose={() => setShowPrivacy(false)}
+          onChanged={() => { setShowPrivacy(false); onRefresh(); }}
+          onNotify={onNotify}
+        />
+      )}
+    </main>
+  );
+};
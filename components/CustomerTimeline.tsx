@@ -0,0 +1,241 @@
+
+import React, { useEffect, useState } from 'react';
+import { Customer, CustomerStatus, Interaction, InteractionType, Membership, Task, UserProfile } from '../types';
+import { interactionService, INTERACTION_TYPE_LABELS } from '../services/interactions';
+import { taskService } from '../services/tasks';
+import { can } from '../services/team';
+import { Button } from './Button';
+import { TaskItem } from './TaskItem';
+import { errorMessage } from '../services/errors';
+import { formatDateTime, t } from '../lib/i18n';
+
+interface CustomerTimelineProps {
+  customer: Customer;
+  members: Membership[];
+  membership: Membership | null;
+  profile: UserProfile;
+  onChanged: (customer: Customer) => void;
+  onTasksChanged: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+const TYPE_STYLES: Record<InteractionType, string> = {
+  note: 'bg-slate-100 text-slate-500',
+  call: 'bg-indigo-50 text-indigo-600',
+  whatsapp: 'bg-emerald-50 text-emerald-600',
+  email: 'bg-sky-50 text-sky-600',
+  visit: 'bg-amber-50 text-amber-600',
+  purchase: 'bg-pink-50 text-pink-600',
+};
+
+// <input type="datetime-local"> trabalha no horário local, sem fuso
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const EMPTY_DRAFT = () => ({ type: 'call' as InteractionType, content: '', occurred_at: toLocalInput(new Date().toISOString()) });
+
+const EMPTY_TASK = () => ({ title: '', due_date: toLocalInput(new Date().toISOString()).slice(0, 10), due_time: '09:00', assignee_id: '' });
+
+// Tarefas e linha do tempo de interações da página do cliente
+export const CustomerTimeline: React.FC<CustomerTimelineProps> = ({ customer, members, membership, profile, onChanged, onTasksChanged, onNotify }) => {
+  const [entries, setEntries] = useState<Interaction[] | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<Interaction | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [taskDraft, setTaskDraft] = useState(EMPTY_TASK);
+  const [busy, setBusy] = useState(false);
+
+  const update = (saved: Customer) => {
+    if (saved !== customer) onChanged(saved);
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        let current = customer;
+        // Só quem pode editar migra as observações antigas: abrir a página não grava nada para os demais
+        if ((customer.observations || '').trim() && can(membership, 'customers.edit')) {
+          const author = members.find(m => m.user_id === customer.created_by)?.name || t('timeline.previousRecord');
+          try {
+            current = await interactionService.migrateObservations(customer, customer.created_by, author, profile);
+            update(current);
+          } catch (err) {
+            onNotify(errorMessage(err, t('timeline.migrateFailed')), 'error');
+          }
+        }
+        const [timeline, customerTasks] = await Promise.all([
+          interactionService.fetchForCustomer(current.id, current.empresa_id),
+          taskService.fetchForCustomer(current.id, current.empresa_id)
+        ]);
+        setEntries(timeline);
+        setTasks(customerTasks);
+      } catch {
+        setEntries([]);
+        onNotify(t('timeline.loadFailed'), 'error');
+      }
+    })();
+  }, [customer.id]);
+
+  const afterChange = async (next: Interaction[]) => {
+    setEntries(next);
+    update(await interactionService.syncLastContact(customer, next));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const saved = await interactionService.save({
+        empresa_id: customer.empresa_id,
+        customer_id: customer.id,
+        type: draft.type,
+        content: draft.content,
+        occurred_at: new Date(draft.occurred_at).toISOString()
+      }, profile, editing);
+      const next = [saved, ...(entries || []).filter(entry => entry.id !== saved.id)]
+        .sort((a, b) => b.occurred_at.localeCompare(a.occurred_at));
+      setEditing(null);
+      setDraft(EMPTY_DRAFT());
+      await afterChange(next);
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('timeline.saveFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (entry: Interaction) => {
+    if (!window.confirm(t('timeline.removeConfirm'))) return;
+    setBusy(true);
+    try {
+      await interactionService.remove(entry, profile);
+      await afterChange((entries || []).filter(e => e.id !== entry.id));
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('timeline.removeFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Operações de tarefa recarregam a lista do cliente e avisam o painel (agenda e selos dos cartões)
+  const runTask = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setTasks(await taskService.fetchForCustomer(customer.id, customer.empresa_id));
+      onTasksChanged();
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('timeline.taskFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddTask = (e: React.FormEvent) => {
+    e.preventDefault();
+    runTask(async () => {
+      await taskService.save({
+        empresa_id: customer.empresa_id,
+        customer_id: customer.id,
+        title: taskDraft.title,
+        due_at: new Date(`${taskDraft.due_date}T${taskDraft.due_time || '09:00'}`).toISOString(),
+        assignee_id: taskDraft.assignee_id || null
+      }, profile);
+      setTaskDraft(EMPTY_TASK());
+    });
+  };
+
+  const handleComplete = (task: Task, status: CustomerStatus | null) =>
+    runTask(async () => {
+      const saved = await taskService.complete(task, profile, customer, status);
+      if (saved) update(saved);
+    });
+
+  const startEdit = (entry: Interaction) => {
+    setEditing(entry);
+    setDraft({ type: entry.type, content: entry.content, occurred_at: toLocalInput(entry.occurred_at) });
+  };
+
+  const fieldClass = "px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-3">
+        <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('timeline.tasks')}</h3>
+        {tasks.map(task => (
+          <TaskItem
+            key={task.id}
+            task={task}
+            members={members}
+            busy={busy}
+            onComplete={handleComplete}
+            onReopen={task => runTask(() => taskService.reopen(task))}
+            onRemove={task => runTask(() => taskService.remove(task))}
+          />
+        ))}
+        <form onSubmit={handleAddTask} className="flex flex-wrap items-center gap-3">
+          <input required value={taskDraft.title} onChange={e => setTaskDraft({ ...taskDraft, title: e.target.value })} placeholder={t('timeline.taskPlaceholder')} className={`${fieldClass} flex-1 min-w-[12rem]`} />
+          <input type="date" required value={taskDraft.due_date} onChange={e => setTaskDraft({ ...taskDraft, due_date: e.target.value })} className={fieldClass} />
+          <input type="time" value={taskDraft.due_time} onChange={e => setTaskDraft({ ...taskDraft, due_time: e.target.value })} className={fieldClass} />
+          {members.length > 1 && (
+            <select value={taskDraft.assignee_id} onChange={e => setTaskDraft({ ...taskDraft, assignee_id: e.target.value })} className={fieldClass}>
+              <option value="">{t('timeline.assignSelf')}</option>
+              {members.filter(m => m.user_id !== profile.id).map(m => <option key={m.user_id} value={m.user_id}>{m.name}</option>)}
+            </select>
+          )}
+          <Button type="submit" disabled={busy} className="px-5 rounded-2xl font-black text-[10px] uppercase tracking-widest">{t('timeline.schedule')}</Button>
+        </form>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('timeline.title')}</h3>
+        <form onSubmit={handleSubmit} className="space-y-3 p-5 rounded-3xl border border-slate-100">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(INTERACTION_TYPE_LABELS) as InteractionType[]).map(type => (
+              <button key={type} type="button" onClick={() => setDraft({ ...draft, type })} className={`px-4 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-colors ${draft.type === type ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 border-slate-100'}`}>
+                {INTERACTION_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+          <textarea required rows={3} value={draft.content} onChange={e => setDraft({ ...draft, content: e.target.value })} placeholder={t('timeline.contentPlaceholder')} className={`${fieldClass} w-full resize-none font-medium text-sm`} />
+          <div className="flex items-center gap-3">
+            <input type="datetime-local" required value={draft.occurred_at} onChange={e => setDraft({ ...draft, occurred_at: e.target.value })} className={fieldClass} />
+            {editing && (
+              <button type="button" onClick={() => { setEditing(null); setDraft(EMPTY_DRAFT()); }} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">{t('common.cancel')}</button>
+            )}
+            <Button type="submit" disabled={busy} className="ml-auto px-5 rounded-2xl font-black text-[10px] uppercase tracking-widest">
+              {editing ? t('common.save') : t('timeline.submit')}
+            </Button>
+          </div>
+        </form>
+
+        {entries === null ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-indigo-600 mx-auto"></div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-sm text-slate-400 font-bold">{t('timeline.empty')}</p>
+        ) : (
+          <ol className="space-y-4 border-l-2 border-slate-100 ml-2">
+            {entries.map(entry => (
+              <li key={entry.id} className="pl-6 relative">
+                <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-white border-2 border-indigo-300"></span>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={`text-[9px] font-black px-3 py-1 rounded-xl uppercase tracking-widest ${TYPE_STYLES[entry.type]}`}>{INTERACTION_TYPE_LABELS[entry.type]}</span>
+                  <span className="text-[11px] text-slate-400 font-bold">{formatDateTime(entry.occurred_at)} • {entry.author_name}{entry.updated_at && t('timeline.edited')}</span>
+                  {entry.author_id === profile.id && (
+                    <span className="ml-auto flex gap-3">
+                      <button disabled={busy} onClick={() => startEdit(entry)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600">{t('common.edit')}</button>
+                      <button disabled={busy} onClick={() => handleRemove(entry)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">{t('common.delete')}</button>
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-600 mt-2 whitespace-pre-line">{entry.content}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+    </div>
+  );
+};
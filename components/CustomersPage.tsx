@@ -0,0 +1,558 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppStats, AuthState, BulkAction, BulkResult, Company, CompanySchema, Customer, CustomerChangeEvent, CustomerFilters, CustomerStatus, Membership, SavedView, Task } from '../types';
+import { can, teamService } from '../services/team';
+import { trashService, retentionDaysOf } from '../services/trash';
+import { applyFilters, savedViewService, STATUS_LABELS } from '../services/filters';
+import { errorMessage } from '../services/errors';
+import { tagsOf, formatCustomValue } from '../services/customFields';
+import { lastContactLabel } from '../services/interactions';
+import { runBulk, undoBulk, summarizeBulk } from '../services/bulk';
+import { taskService, isOverdue } from '../services/tasks';
+import { navigate } from '../lib/router';
+import { Button } from './Button';
+import { Link } from './Link';
+import { FilterBar } from './FilterBar';
+import { VirtualList } from './VirtualList';
+import { PhoneActions } from './PhoneActions';
+import { TagChip } from './TagChip';
+import { AgendaView } from './AgendaView';
+import { ReportsView } from './ReportsView';
+import { AuditLogView } from './AuditLogView';
+import { DuplicatesView } from './DuplicatesView';
+import { TrashView } from './TrashView';
+import { BulkActionBar } from './BulkActionBar';
+import { ImportModal } from './ImportModal';
+import { ExportModal } from './ExportModal';
+import { CustomerHistoryModal } from './CustomerHistoryModal';
+import { PrivacyModal } from './PrivacyModal';
+import { MessageComposerModal } from './MessageComposerModal';
+import { PlusIcon, SearchIcon, PhoneIcon, EditIcon, TrashIcon, DownloadIcon, UploadIcon, ShieldIcon, HistoryIcon } from './Icons';
+import { formatDate, MessageKey, t } from '../lib/i18n';
+
+export type CustomersView = 'clientes' | 'agenda' | 'relatorios' | 'duplicados' | 'lixeira' | 'auditoria';
+
+interface CustomersPageProps {
+  auth: AuthState;
+  customers: Customer[];
+  allCustomers: Customer[] | null;
+  stats: AppStats;
+  filters: CustomerFilters;
+  savedViews: SavedView[];
+  members: Membership[];
+  schema: CompanySchema;
+  tasks: Task[];
+  view: CustomersView;
+  busy: boolean;
+  loadingMore: boolean;
+  onViewChange: (view: CustomersView) => void;
+  onFiltersChange: (filters: CustomerFilters) => void;
+  onSavedViewsChange: (views: SavedView[]) => void;
+  onLoadMore: () => void;
+  onReload: () => Promise<void>;
+  onLoadAll: () => Promise<Customer[] | null>;
+  onCustomerChange: (event: CustomerChangeEvent) => void;
+  onTasksChanged: () => Promise<void>;
+  onCompanyChanged: (company: Company) => void;
+  onNotify: (message: string, type?: 'success' | 'error', action?: { label: string; onClick: () => void }) => void;
+}
+
+// Altura fixa de cada cartão (incluindo o espaçamento) exigida pela lista virtualizada
+const CARD_HEIGHT = 284;
+
+// Complemento do resumo de cada ação em massa ("12 cliente(s) com status alterado.")
+const BULK_VERBS: Record<BulkAction['kind'], MessageKey> = {
+  status: 'bulk.verb.status',
+  tags: 'bulk.verb.tags',
+  responsible: 'bulk.verb.responsible',
+  delete: 'bulk.verb.delete',
+};
+
+// /clientes: totais, filtros, lista de cartões e as abas de agenda, relatórios, duplicados, lixeira e auditoria
+export const CustomersPage: React.FC<CustomersPageProps> = ({
+  auth, customers, allCustomers, stats, filters, savedViews, members, schema, tasks, view, busy, loadingMore,
+  onViewChange, onFiltersChange, onSavedViewsChange, onLoadMore, onReload, onLoadAll, onCustomerChange, onTasksChanged, onCompanyChanged, onNotify
+}) => {
+  const [loading, setLoading] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [privacyCustomer, setPrivacyCustomer] = useState<Customer | null>(null);
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+  // Destinatários do compositor de mensagens (a seleção no momento da abertura)
+  const [messageCustomers, setMessageCustomers] = useState<Customer[] | null>(null);
+  const [deletedCustomers, setDeletedCustomers] = useState<Customer[]>([]);
+  // Modo de seleção: os clientes marcados ficam guardados mesmo fora da página carregada
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Map<string, Customer>>(new Map());
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportSelection, setExportSelection] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (view === 'lixeira') loadTrash();
+  }, [view]);
+
+  // Tarefas em aberto por cliente, para os selos dos cartões
+  const taskBadges = useMemo(() => {
+    const badges = new Map<string, { count: number; overdue: boolean }>();
+    for (const task of tasks) {
+      const badge = badges.get(task.customer_id) || { count: 0, overdue: false };
+      badges.set(task.customer_id, { count: badge.count + 1, overdue: badge.overdue || isOverdue(task) });
+    }
+    return badges;
+  }, [tasks]);
+
+  const cardFields = useMemo(() => schema.fields.filter(f => f.show_on_card), [schema]);
+
+  const memberName = (userId: string) => members.find(m => m.user_id === userId)?.name;
+
+  const loadTrash = async () => {
+    if (!auth.company) return;
+    try {
+      setDeletedCustomers(await trashService.fetchAll(auth.company.id));
+    } catch (err) {
+      onNotify(t('trash.loadFailed'), 'error');
+    }
+  };
+
+  const handleCompleteTask = async (task: Task, status: CustomerStatus | null) => {
+    if (!auth.profile) return;
+    setLoading(true);
+    try {
+      const saved = await taskService.complete(task, auth.profile, task.customer || null, status);
+      if (saved) onCustomerChange({ type: 'upsert', customer: saved });
+      await onTasksChanged();
+      onNotify(saved ? t('tasks.completedAs', { name: saved.name, status: STATUS_LABELS[saved.status] }) : t('tasks.completed'));
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('tasks.completeFailed')), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveTask = async (task: Task) => {
+    setLoading(true);
+    try {
+      await taskService.remove(task);
+      await onTasksChanged();
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('tasks.removeFailed')), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (!auth.profile) return;
+
+    setLoading(true);
+    try {
+      const trashed = await trashService.moveToTrash(customer, auth.profile);
+      onCustomerChange({ type: 'upsert', customer: trashed });
+      onNotify(t('customer.trashed'), 'success', { label: t('common.undo'), onClick: () => handleRestore(trashed) });
+    } catch (err) {
+      onNotify(t('customer.deleteFailed'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (customer: Customer) => {
+    if (!auth.profile) return;
+    setLoading(true);
+    try {
+      await trashService.restore(customer, auth.profile);
+      setDeletedCustomers(prev => prev.filter(c => c.id !== customer.id));
+      await onReload();
+      onNotify(t('customer.restored'));
+    } catch (err) {
+      onNotify(t('customer.restoreFailed'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePurge = async (customer: Customer) => {
+    if (!auth.profile) return;
+    if (!window.confirm(t('trash.purgeConfirm'))) return;
+
+    setLoading(true);
+    try {
+      await trashService.purge(customer, auth.profile);
+      setDeletedCustomers(prev => prev.filter(c => c.id !== customer.id));
+      onNotify(t('customer.purged'));
+    } catch (err) {
+      onNotify(t('customer.deleteFailed'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    if (!auth.company) return;
+    setLoading(true);
+    try {
+      onCompanyChanged(await teamService.updateCompany(auth.company.id, { trash_retention_days: days }));
+      onNotify(t('trash.retentionChanged', { days }));
+    } catch (err) {
+      onNotify(t('trash.retentionFailed'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveView = async (name: string) => {
+    if (!auth.company || !auth.profile) return;
+    try {
+      const saved = await savedViewService.save({ empresa_id: auth.company.id, user_id: auth.profile.id, name, filters });
+      onSavedViewsChange([...savedViews, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      onNotify(t('views.saved', { name }));
+    } catch (err) {
+      onNotify(t('views.saveFailed'), 'error');
+    }
+  };
+
+  const handleDeleteView = async (savedView: SavedView) => {
+    try {
+      await savedViewService.remove(savedView);
+      onSavedViewsChange(savedViews.filter(v => v.id !== savedView.id));
+    } catch (err) {
+      onNotify(t('views.deleteFailed'), 'error');
+    }
+  };
+
+  const openExport = async (selection: string[] = []) => {
+    const all = await onLoadAll();
+    if (!all) return;
+    if (all.length === 0) return onNotify(t('export.empty'), 'error');
+    setExportSelection(selection);
+    setShowExport(true);
+  };
+
+  const openImport = async () => {
+    if (await onLoadAll()) setShowImport(true);
+  };
+
+  const toggleSelected = (customer: Customer) => {
+    const next = new Map(selected);
+    if (next.has(customer.id)) next.delete(customer.id); else next.set(customer.id, customer);
+    setSelected(next);
+  };
+
+  const exitSelection = () => {
+    setSelecting(false);
+    setSelected(new Map());
+  };
+
+  // "Todos do filtro" vai além das páginas carregadas: busca a base e aplica os mesmos filtros localmente
+  const selectAllFiltered = async () => {
+    const all = await onLoadAll();
+    if (all) setSelected(new Map(applyFilters(all, filters).map(c => [c.id, c])));
+  };
+
+  const handleBulk = async (action: BulkAction) => {
+    if (!auth.profile || selected.size === 0) return;
+    if (action.kind === 'delete' && !window.confirm(t('bulk.deleteConfirm', { count: selected.size }))) return;
+
+    setBulkProgress({ done: 0, total: selected.size });
+    try {
+      const result = await runBulk([...selected.values()], action, auth.profile, (done, total) => setBulkProgress({ done, total }));
+      exitSelection();
+      await onReload();
+      onNotify(
+        summarizeBulk(result, t(BULK_VERBS[action.kind])),
+        result.failed.length > 0 ? 'error' : 'success',
+        result.changed.length > 0 ? { label: t('common.undo'), onClick: () => handleUndoBulk(result) } : undefined
+      );
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleUndoBulk = async (result: BulkResult) => {
+    if (!auth.profile) return;
+    setBulkProgress({ done: 0, total: result.changed.length });
+    try {
+      const undone = await undoBulk(result, auth.profile, (done, total) => setBulkProgress({ done, total }));
+      await onReload();
+      if (view === 'lixeira') loadTrash();
+      onNotify(summarizeBulk(undone, t('bulk.verb.restored')), undone.failed.length > 0 ? 'error' : 'success');
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <main className="px-6 py-10 space-y-10 max-w-4xl mx-auto">
+        <div className="grid grid-cols-3 gap-5">
+          {([
+            [stats.active, t('customers.statActive')],
+            [stats.pending, t('customers.statPending')],
+            [stats.inactive, t('customers.statInactive')],
+          ] as const).map(([value, label]) => (
+          <div key={label} className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-sm flex flex-col items-center hover:shadow-md transition-shadow cursor-default">
+            <span className="text-slate-900 font-black text-4xl tracking-tighter">{value}</span>
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mt-2">{label}</p>
+          </div>
+          ))}
+        </div>
+
+        <div className="space-y-5">
+          <FilterBar
+            filters={filters}
+            members={members}
+            schema={schema}
+            savedViews={savedViews}
+            onChange={onFiltersChange}
+            onSaveView={handleSaveView}
+            onDeleteView={handleDeleteView}
+          />
+        
+          <div className="grid grid-cols-2 gap-5">
+            {can(auth.membership, 'customers.import') && (
+            <Button variant="outline" onClick={openImport} className="w-full py-5 border-2 border-slate-100 rounded-3xl font-black text-[10px] uppercase tracking-widest text-slate-500 bg-white hover:bg-slate-50 transition-colors">
+              <UploadIcon /> {t('customers.import')}
+            </Button>
+            )}
+            {can(auth.membership, 'customers.export') && (
+            <Button variant="outline" onClick={() => openExport()} className="w-full py-5 border-2 border-slate-100 rounded-3xl font-black text-[10px] uppercase tracking-widest text-slate-500 bg-white hover:bg-slate-50 transition-colors">
+              <DownloadIcon /> {t('customers.export')}
+            </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-5">
+          <div className="flex justify-between items-center px-4">
+            <div className="flex gap-4">
+              {([
+                ['clientes', t('customers.tabResults'), true],
+                ['agenda', `${t('tasks.agenda')}${tasks.some(isOverdue) ? ' •' : ''}`, true],
+                ['relatorios', t('customers.tabReports'), can(auth.membership, 'reports.view')],
+                ['duplicados', t('customers.tabDuplicates'), can(auth.membership, 'customers.edit') && can(auth.membership, 'customers.delete')],
+                ['lixeira', t('customers.tabTrash'), can(auth.membership, 'customers.delete')],
+                ['auditoria', t('customers.tabAudit'), can(auth.membership, 'audit.view')],
+              ] as const).filter(([, , allowed]) => allowed).map(([v, label]) => (
+                <button key={v} onClick={() => onViewChange(v)} className={`text-[11px] font-black uppercase tracking-[0.2em] transition-colors ${view === v ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-4">
+              {(loading || busy) && <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-indigo-600"></div>}
+              {view === 'clientes' && !selecting && (can(auth.membership, 'customers.edit') || can(auth.membership, 'customers.delete') || can(auth.membership, 'messages.send')) && (
+                <button onClick={() => setSelecting(true)} className="text-[11px] font-black uppercase tracking-[0.2em] text-slate-400 hover:text-indigo-600 transition-colors">{t('customers.select')}</button>
+              )}
+            </div>
+          </div>
+        
+          {view === 'agenda' && auth.profile ? (
+            <AgendaView
+              tasks={tasks}
+              members={members}
+              userId={auth.profile.id}
+              busy={loading || busy}
+              onComplete={handleCompleteTask}
+              onRemove={handleRemoveTask}
+              onOpenCustomer={task => navigate(`/clientes/${task.customer_id}`)}
+            />
+          ) : view === 'relatorios' && auth.company ? (
+            <ReportsView empresaId={auth.company.id} members={members} onNotify={onNotify} />
+          ) : view === 'auditoria' && auth.company ? (
+            <AuditLogView empresaId={auth.company.id} members={members} customers={customers} onNotify={onNotify} />
+          ) : view === 'duplicados' && auth.company && auth.profile ? (
+            <DuplicatesView empresaId={auth.company.id} members={members} profile={auth.profile} onMerged={onReload} onNotify={onNotify} />
+          ) : view === 'lixeira' ? (
+            <TrashView
+              customers={deletedCustomers}
+              retentionDays={retentionDaysOf(auth.company)}
+              busy={loading || busy}
+              onRestore={handleRestore}
+              onPurge={handlePurge}
+              onRetentionChange={handleRetentionChange}
+            />
+          ) : customers.length > 0 ? (
+            <>
+            <VirtualList<Customer>
+              items={customers}
+              itemHeight={CARD_HEIGHT}
+              getKey={customer => customer.id}
+              onEndReached={onLoadMore}
+              renderItem={(customer) => (
+                <div className="pb-5 h-full">
+                <div className="h-full flex flex-col justify-between bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm hover:shadow-xl hover:scale-[1.01] transition-all group relative overflow-hidden">
+                  <div className="flex justify-between items-start relative z-10">
+                    <div className="flex-1 min-w-0 pr-6">
+                      <div className="flex items-center gap-3">
+                      {selecting && (
+                        <input type="checkbox" checked={selected.has(customer.id)} onChange={() => toggleSelected(customer)} className="w-5 h-5 shrink-0 rounded-lg accent-indigo-600 cursor-pointer" />
+                      )}
+                      <Link to={`/clientes/${customer.id}`} className="text-slate-900 font-black text-xl truncate leading-none group-hover:text-indigo-600 transition-colors">{customer.name}</Link>
+                      </div>
+                      <div className="flex items-center gap-2.5 text-slate-400 text-sm font-bold mt-3">
+                        <div className="bg-slate-50 p-1.5 rounded-lg"><PhoneIcon /></div> <span className="truncate">{customer.phone}</span>
+                        <PhoneActions customer={customer} onNotify={onNotify} />
+                      </div>
+                      {members.length > 1 && memberName(customer.created_by) && (
+                        <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-2">{t('customers.responsibleShort', { name: memberName(customer.created_by) || '' })}</p>
+                      )}
+                      <div className="flex items-center gap-1.5 mt-2 overflow-hidden whitespace-nowrap">
+                        {taskBadges.get(customer.id) && (
+                          <Link to={`/clientes/${customer.id}`} className={`shrink-0 px-2.5 py-0.5 rounded-2xl text-[9px] font-black uppercase tracking-widest ${taskBadges.get(customer.id)!.overdue ? 'bg-red-50 text-red-500' : 'bg-amber-50 text-amber-600'}`}>
+                            {t(taskBadges.get(customer.id)!.overdue ? 'customers.taskBadgeOverdue' : 'customers.taskBadge', { count: taskBadges.get(customer.id)!.count })}
+                          </Link>
+                        )}
+                        {tagsOf(customer, schema).map(tag => <TagChip key={tag.id} tag={tag} small />)}
+                        {cardFields.map(field => {
+                          const value = formatCustomValue(field, customer.custom_fields?.[field.key]);
+                          return value && <span key={field.id} className="shrink-0 text-[10px] text-slate-400 font-bold truncate"><b className="text-slate-500">{field.label}:</b> {value}</span>;
+                        })}
+                      </div>
+                    </div>
+                    <div className={`text-[9px] font-black px-4 py-2 rounded-2xl uppercase tracking-widest shadow-sm border border-white/50 ${
+                      customer.status === CustomerStatus.ACTIVE ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : 
+                      customer.status === CustomerStatus.PENDING ? 'bg-amber-50 text-amber-600 border-amber-100' :
+                      'bg-slate-100 text-slate-500 border-slate-200'
+                    }`}>
+                      {STATUS_LABELS[customer.status]}
+                    </div>
+                  </div>
+                
+                  <div className="flex items-center justify-between pt-5 border-t border-slate-50 relative z-10">
+                    <Link to={`/clientes/${customer.id}`} className="text-left text-[10px] text-slate-400 font-black uppercase tracking-tighter hover:text-indigo-600 transition-colors">
+                      {t('customers.since', { date: formatDate(customer.registration_date) })}
+                      <span className="block mt-1 text-indigo-400">{lastContactLabel(customer)}</span>
+                    </Link>
+                    <div className="flex gap-2.5">
+                      <button onClick={() => setHistoryCustomer(customer)} title={t('common.history')} className="p-3.5 text-slate-400 bg-slate-50 rounded-2xl hover:bg-slate-700 hover:text-white transition-all active:scale-90 shadow-sm">
+                        <HistoryIcon />
+                      </button>
+                      {can(auth.membership, 'lgpd.manage') && (
+                      <button onClick={() => setPrivacyCustomer(customer)} title={t('customers.privacy')} className="p-3.5 text-slate-400 bg-slate-50 rounded-2xl hover:bg-slate-700 hover:text-white transition-all active:scale-90 shadow-sm">
+                        <ShieldIcon />
+                      </button>
+                      )}
+                      {can(auth.membership, 'customers.edit') && (
+                      <Link to={`/clientes/${customer.id}/editar`} title={t('common.edit')} className="p-3.5 text-indigo-500 bg-indigo-50 rounded-2xl hover:bg-indigo-600 hover:text-white transition-all active:scale-90 shadow-sm">
+                        <EditIcon />
+                      </Link>
+                      )}
+                      {can(auth.membership, 'customers.delete') && (
+                      <button onClick={() => handleDelete(customer)} className="p-3.5 text-red-400 bg-red-50 rounded-2xl hover:bg-red-500 hover:text-white transition-all active:scale-90 shadow-sm">
+                        <TrashIcon />
+                      </button>
+                      )}
+                    </div>
+                  </div>
+                
+                  {/* Detalhe estético lateral */}
+                  <div className={`absolute left-0 top-0 bottom-0 w-2 ${
+                    customer.status === CustomerStatus.ACTIVE ? 'bg-emerald-500/20' : 
+                    customer.status === CustomerStatus.PENDING ? 'bg-amber-500/20' :
+                    'bg-slate-500/10'
+                  }`}></div>
+                </div>
+                </div>
+              )}
+            />
+            {loadingMore && <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-indigo-600 mx-auto"></div>}
+            </>
+          ) : (
+            <div className="text-center py-24 bg-white rounded-[3rem] border-2 border-dashed border-slate-100 flex flex-col items-center">
+              <div className="w-16 h-16 bg-slate-50 rounded-full flex items-center justify-center text-slate-300 mb-4">
+                <SearchIcon />
+              </div>
+              <p className="text-slate-400 font-bold text-sm tracking-tight">{t('customers.empty')}</p>
+              {can(auth.membership, 'customers.create') && <Button onClick={() => navigate('/clientes/novo')} variant="outline" className="mt-6 mx-auto px-8 border-indigo-100 text-indigo-500 rounded-2xl font-black text-xs uppercase tracking-widest">{t('customers.addFirst')}</Button>}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {can(auth.membership, 'customers.create') && !showImport && !showExport && !privacyCustomer && !historyCustomer && !selecting && (
+        <button 
+          onClick={() => navigate('/clientes/novo')} 
+          className="fixed bottom-10 right-8 w-20 h-20 bg-indigo-600 text-white rounded-[2rem] shadow-[0_20px_40px_-10px_rgba(79,70,229,0.4)] flex items-center justify-center z-50 transition-all hover:scale-110 active:scale-90 hover:rotate-6"
+        >
+          <PlusIcon />
+        </button>
+      )}
+
+      {selecting && view === 'clientes' && (
+        <BulkActionBar
+          count={selected.size}
+          members={members}
+          schema={schema}
+          canEdit={can(auth.membership, 'customers.edit')}
+          canDelete={can(auth.membership, 'customers.delete')}
+          canExport={can(auth.membership, 'customers.export')}
+          canMessage={can(auth.membership, 'messages.send')}
+          progress={bulkProgress}
+          onSelectAll={selectAllFiltered}
+          onClear={() => setSelected(new Map())}
+          onRun={handleBulk}
+          onExport={() => openExport([...selected.keys()])}
+          onMessage={() => setMessageCustomers([...selected.values()])}
+          onExit={exitSelection}
+        />
+      )}
+
+      {showImport && allCustomers && auth.profile && auth.company && (
+        <ImportModal
+          customers={allCustomers}
+          empresaId={auth.company.id}
+          profile={auth.profile}
+          schema={schema}
+          onClose={() => setShowImport(false)}
+          onImported={(message, type) => {
+            setShowImport(false);
+            onReload();
+            onNotify(message, type);
+          }}
+        />
+      )}
+
+      {showExport && allCustomers && auth.profile && auth.company && (
+        <ExportModal
+          customers={allCustomers}
+          filteredCustomers={applyFilters(allCustomers, filters)}
+          initialSelection={exportSelection}
+          empresaId={auth.company.id}
+          profile={auth.profile}
+          schema={schema}
+          onClose={() => setShowExport(false)}
+          onExported={(message, type) => {
+            if (type === 'success') setShowExport(false);
+            onNotify(message, type);
+          }}
+        />
+      )}
+
+      {messageCustomers && auth.profile && auth.company && (
+        <MessageComposerModal
+          customers={messageCustomers}
+          company={auth.company}
+          profile={auth.profile}
+          schema={schema}
+          onSent={saved => onCustomerChange({ type: 'upsert', customer: saved })}
+          onClose={() => setMessageCustomers(null)}
+          onNotify={onNotify}
+        />
+      )}
+
+      {historyCustomer && (
+        <CustomerHistoryModal customer={historyCustomer} onClose={() => setHistoryCustomer(null)} onNotify={onNotify} />
+      )}
+
+      {privacyCustomer && auth.profile && (
+        <PrivacyModal
+          customer={privacyCustomer}
+          profile={auth.profile}
+          onClose={() => setPrivacyCustomer(null)}
+          onChanged={() => { setPrivacyCustomer(null); onReload(); }}
+          onNotify={onNotify}
+        />
+      )}
+    </>
+  );
+};
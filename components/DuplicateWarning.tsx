@@ -0,0 +1,26 @@
+
+import React from 'react';
+import { DuplicateMatch } from '../types';
+import { DUPLICATE_REASON_LABELS } from '../services/duplicates';
+import { t } from '../lib/i18n';
+
+interface DuplicateWarningProps {
+  matches: DuplicateMatch[];
+}
+
+export const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ matches }) => {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-100 rounded-3xl px-6 py-5 space-y-2 animate-fade-in">
+      <p className="text-[11px] font-black text-amber-600 uppercase tracking-widest">{t('duplicates.possible')}</p>
+      {matches.slice(0, 3).map(({ customer, reasons }) => (
+        <p key={customer.id} className="text-xs text-amber-700 font-bold">
+          {customer.name} <span className="font-medium">• {customer.phone}</span>
+          <span className="block text-[10px] font-black uppercase tracking-widest text-amber-500">{reasons.map(r => DUPLICATE_REASON_LABELS[r]).join(' • ')}</span>
+        </p>
+      ))}
+      {matches.length > 3 && <p className="text-[10px] text-amber-500 font-black">{t('duplicates.more', { count: matches.length - 3 })}</p>}
+    </div>
+  );
+};
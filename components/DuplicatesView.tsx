@@ -0,0 +1,87 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Customer, Membership, UserProfile } from '../types';
+import { customerService } from '../services/sync';
+import { groupDuplicates, matchReasons, DUPLICATE_REASON_LABELS } from '../services/duplicates';
+import { MergeModal } from './MergeModal';
+import { t } from '../lib/i18n';
+
+interface DuplicatesViewProps {
+  empresaId: string;
+  members: Membership[];
+  profile: UserProfile;
+  onMerged: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+export const DuplicatesView: React.FC<DuplicatesViewProps> = ({ empresaId, members, profile, onMerged, onNotify }) => {
+  const [customers, setCustomers] = useState<Customer[] | null>(null);
+  const [merging, setMerging] = useState<Customer[] | null>(null);
+
+  const load = () => {
+    setCustomers(null);
+    customerService.fetchAll(empresaId)
+      .then(setCustomers)
+      .catch(() => {
+        setCustomers([]);
+        onNotify(t('duplicates.loadFailed'), 'error');
+      });
+  };
+
+  useEffect(load, [empresaId]);
+
+  const groups = useMemo(() => customers ? groupDuplicates(customers) : [], [customers]);
+
+  if (customers === null) {
+    return <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-indigo-600 mx-auto"></div>;
+  }
+
+  return (
+    <div className="space-y-5">
+      <p className="text-[11px] text-slate-400 font-black uppercase tracking-widest px-4">
+        {t('duplicates.groups', { count: groups.length })}
+      </p>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-24 bg-white rounded-[3rem] border-2 border-dashed border-slate-100">
+          <p className="text-slate-400 font-bold text-sm tracking-tight">{t('duplicates.empty')}</p>
+        </div>
+      ) : groups.map(group => (
+        <div key={group[0].id} className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-3">
+          {group.map((customer, index) => (
+            <div key={customer.id} className="flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <p className="font-black text-slate-800 truncate">{customer.name}</p>
+                <p className="text-xs text-slate-400 font-bold truncate">{customer.phone}{customer.email && ` • ${customer.email}`}</p>
+              </div>
+              {index > 0 && (
+                <span className="text-[9px] font-black uppercase tracking-widest text-amber-500 shrink-0 text-right">
+                  {matchReasons(group[0], customer).map(r => DUPLICATE_REASON_LABELS[r]).join(' • ') || t('duplicates.linked')}
+                </span>
+              )}
+            </div>
+          ))}
+          <button onClick={() => setMerging(group)} className="w-full py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors">
+            {t('duplicates.merge', { count: group.length })}
+          </button>
+        </div>
+      ))}
+
+      {merging && (
+        <MergeModal
+          records={merging}
+          members={members}
+          profile={profile}
+          onClose={() => setMerging(null)}
+          onNotify={onNotify}
+          onMerged={merged => {
+            setMerging(null);
+            onNotify(t('duplicates.merged', { name: merged.name }));
+            load();
+            onMerged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+
+import React, { useState } from 'react';
+import { CompanySchema, Customer, ExportField, ExportFormat, ExportScope, UserProfile } from '../types';
+import { Button } from './Button';
+import { DEFAULT_EXPORT_FIELDS, exportCustomers, exportFieldsFor, exportTargets } from '../services/exporter';
+import { auditService } from '../services/audit';
+import { errorMessage } from '../services/errors';
+import { t, translatedLabels } from '../lib/i18n';
+
+interface ExportModalProps {
+  customers: Customer[];
+  filteredCustomers: Customer[];
+  initialSelection?: string[];
+  empresaId: string;
+  schema: CompanySchema;
+  profile: UserProfile;
+  onClose: () => void;
+  onExported: (message: string, type: 'success' | 'error') => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = translatedLabels({
+  csv: 'export.formatCsv',
+  json: 'export.formatJson',
+  xlsx: 'export.formatXlsx',
+  vcf: 'export.formatVcard',
+});
+
+export const ExportModal: React.FC<ExportModalProps> = ({ customers, filteredCustomers, initialSelection = [], empresaId, schema, profile, onClose, onExported }) => {
+  const [scope, setScope] = useState<ExportScope>(initialSelection.length ? 'selected' : 'filtered');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [delimiter, setDelimiter] = useState<',' | ';'>(';');
+  const [vcardVersion, setVcardVersion] = useState<'3.0' | '4.0'>('3.0');
+  const [fields, setFields] = useState<ExportField[]>(DEFAULT_EXPORT_FIELDS);
+  const exportFields = exportFieldsFor(schema);
+  const [selected, setSelected] = useState<Set<string>>(new Set(initialSelection));
+
+  const targets = exportTargets(scope, customers, filteredCustomers, selected);
+
+  const toggleField = (field: ExportField) => {
+    // Mantém a ordem canônica das colunas, independente da ordem dos cliques
+    const next = fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field];
+    setFields(exportFields.map(f => f.field).filter(f => next.includes(f)));
+  };
+
+  const toggleCustomer = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelected(next);
+  };
+
+  const handleExport = () => {
+    try {
+      exportCustomers(targets, { format, fields, delimiter, vcardVersion }, schema);
+      auditService.record(profile, {
+        empresa_id: empresaId,
+        action: 'export',
+        summary: format === 'vcf'
+          ? `vCard ${vcardVersion} • ${targets.length} cliente(s)`
+          : `${FORMAT_LABELS[format]} • ${targets.length} cliente(s) • campos: ${fields.join(', ')}`
+      });
+      onExported(t('export.done', { format: FORMAT_LABELS[format], count: targets.length }), 'success');
+    } catch (err: any) {
+      onExported(errorMessage(err, t('export.failed')), 'error');
+    }
+  };
+
+  const scopes: { value: ExportScope; label: string; count: number }[] = [
+    { value: 'filtered', label: t('export.scopeFiltered'), count: filteredCustomers.length },
+    { value: 'selected', label: t('export.scopeSelected'), count: selected.size },
+    { value: 'all', label: t('export.scopeAll'), count: customers.length },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight">{t('export.title')}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('export.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-8 safe-bottom">
+          <div className="space-y-2">
+            <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('export.what')}</label>
+            <div className="grid grid-cols-3 gap-3">
+              {scopes.map(s => (
+                <button key={s.value} type="button" onClick={() => setScope(s.value)} className={`p-4 rounded-2xl border-2 text-left transition-colors ${scope === s.value ? 'border-indigo-500 bg-indigo-50/50' : 'border-slate-50 bg-slate-50/30'}`}>
+                  <span className="text-slate-900 font-black text-xl">{s.count}</span>
+                  <p className="text-[9px] text-slate-400 font-black uppercase tracking-widest mt-1">{s.label}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {scope === 'selected' && (
+            <div className="max-h-56 overflow-y-auto space-y-1 border border-slate-100 rounded-2xl p-3">
+              {customers.map(c => (
+                <label key={c.id} className="flex items-center gap-3 px-2 py-2 rounded-xl hover:bg-slate-50 cursor-pointer">
+                  <input type="checkbox" checked={selected.has(c.id)} onChange={() => toggleCustomer(c.id)} className="w-4 h-4 rounded text-indigo-600" />
+                  <span className="font-bold text-sm text-slate-700 truncate">{c.name}</span>
+                  <span className="text-xs text-slate-400 ml-auto">{c.phone}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('export.format')}</label>
+              <select value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className="w-full px-5 py-4 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-slate-700 focus:border-indigo-500">
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+              </select>
+            </div>
+            {format === 'csv' && (
+              <div className="space-y-2">
+                <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('export.delimiter')}</label>
+                <select value={delimiter} onChange={e => setDelimiter(e.target.value as ',' | ';')} className="w-full px-5 py-4 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-slate-700 focus:border-indigo-500">
+                  <option value=";">{t('export.semicolon')}</option>
+                  <option value=",">{t('export.comma')}</option>
+                </select>
+              </div>
+            )}
+            {format === 'vcf' && (
+              <div className="space-y-2">
+                <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('export.version')}</label>
+                <select value={vcardVersion} onChange={e => setVcardVersion(e.target.value as '3.0' | '4.0')} className="w-full px-5 py-4 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-slate-700 focus:border-indigo-500">
+                  <option value="3.0">{t('export.vcardCompatible')}</option>
+                  <option value="4.0">4.0</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {format === 'vcf' ? (
+            <p className="text-xs text-slate-400 font-bold">{t('export.vcardHint')}</p>
+          ) : (
+          <div className="space-y-2">
+            <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('export.fields')}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {exportFields.map(({ field, label }) => (
+                <label key={field} className="flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-slate-50 cursor-pointer">
+                  <input type="checkbox" checked={fields.includes(field)} onChange={() => toggleField(field)} className="w-4 h-4 rounded text-indigo-600" />
+                  <span className="text-sm font-bold text-slate-600">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          )}
+
+          <Button fullWidth onClick={handleExport} disabled={targets.length === 0 || (format !== 'vcf' && fields.length === 0)} className="py-5 font-black uppercase tracking-widest">
+            {t('export.submit', { count: targets.length })}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+
+import React from 'react';
+
+// Mensagem de validação exibida logo abaixo do campo
+export const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-[11px] font-bold text-red-500 ml-1">{message}</p> : null;
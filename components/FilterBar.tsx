@@ -0,0 +1,152 @@
+
+import React, { useState } from 'react';
+import { CompanySchema, CustomerFilters, CustomerStatus, DatePeriod, Membership, SavedView, SortField } from '../types';
+import { DEFAULT_FILTERS, SORT_LABELS, PERIOD_LABELS, STATUS_LABELS, countActiveFilters } from '../services/filters';
+import { t } from '../lib/i18n';
+import { SearchIcon } from './Icons';
+import { TagChip } from './TagChip';
+
+interface FilterBarProps {
+  filters: CustomerFilters;
+  members: Membership[];
+  schema: CompanySchema;
+  savedViews: SavedView[];
+  onChange: (filters: CustomerFilters) => void;
+  onSaveView: (name: string) => void;
+  onDeleteView: (view: SavedView) => void;
+}
+
+export const FilterBar: React.FC<FilterBarProps> = ({ filters, members, schema, savedViews, onChange, onSaveView, onDeleteView }) => {
+  const [open, setOpen] = useState(countActiveFilters(filters) > 0);
+  const active = countActiveFilters(filters);
+  const set = (patch: Partial<CustomerFilters>) => onChange({ ...filters, ...patch });
+  const currentView = savedViews.find(v => JSON.stringify(v.filters) === JSON.stringify(filters));
+
+  const toggleStatus = (status: CustomerStatus) =>
+    set({ statuses: filters.statuses.includes(status) ? filters.statuses.filter(s => s !== status) : [...filters.statuses, status] });
+
+  const toggleTag = (id: string) =>
+    set({ tags: filters.tags.includes(id) ? filters.tags.filter(tag => tag !== id) : [...filters.tags, id] });
+
+  const setCustom = (key: string, value: string) => {
+    const { [key]: _, ...custom } = filters.custom;
+    set({ custom: value ? { ...custom, [key]: value } : custom });
+  };
+
+  // Texto livre já entra na busca; lista e sim/não viram filtros de valor exato
+  const filterableFields = schema.fields.filter(f => f.type === 'select' || f.type === 'boolean');
+
+  const handleSaveView = () => {
+    const name = window.prompt(t('filters.viewPrompt'))?.trim();
+    if (name) onSaveView(name);
+  };
+
+  const fieldClass = "px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-3">
+      <div className="relative group">
+        <div className="absolute inset-y-0 left-0 pl-6 flex items-center pointer-events-none text-slate-300 group-focus-within:text-indigo-500 transition-colors">
+          <SearchIcon />
+        </div>
+        <input
+          type="text"
+          className="block w-full pl-16 pr-32 py-5 border-2 border-slate-50 rounded-3xl bg-white text-base font-medium focus:border-indigo-500 outline-none transition-all shadow-sm group-hover:shadow-md"
+          placeholder={t('filters.searchPlaceholder')}
+          value={filters.search}
+          onChange={e => set({ search: e.target.value })}
+        />
+        <button type="button" onClick={() => setOpen(!open)} className={`absolute right-3 top-1/2 -translate-y-1/2 px-4 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-colors ${active || open ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+          {t('filters.toggle')}{active > 0 && ` (${active})`}
+        </button>
+      </div>
+
+      {(savedViews.length > 0 || open) && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {savedViews.map(view => (
+            <span key={view.id} className={`flex items-center gap-1 shrink-0 pl-4 pr-2 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest border ${currentView?.id === view.id ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-100 text-slate-500'}`}>
+              <button type="button" onClick={() => onChange(view.filters)}>{view.name}</button>
+              <button type="button" onClick={() => window.confirm(t('filters.deleteViewConfirm', { name: view.name })) && onDeleteView(view)} className="px-1.5 text-slate-300 hover:text-red-500">✕</button>
+            </span>
+          ))}
+          {open && !currentView && (
+            <button type="button" onClick={handleSaveView} className="shrink-0 px-4 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-dashed border-indigo-200 text-indigo-500 hover:bg-indigo-50">
+              {t('filters.saveView')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {open && (
+        <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-4 animate-fade-in">
+          <div className="flex flex-wrap gap-2">
+            {Object.values(CustomerStatus).map(status => (
+              <button key={status} type="button" onClick={() => toggleStatus(status)} className={`px-4 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-colors ${filters.statuses.includes(status) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 border-slate-100'}`}>
+                {STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+
+          {schema.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {schema.tags.map(tag => (
+                <button key={tag.id} type="button" onClick={() => toggleTag(tag.id)}>
+                  <TagChip tag={tag} active={filters.tags.includes(tag.id)} />
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <select value={filters.period || (filters.from || filters.to ? 'custom' : '')} onChange={e => {
+              const value = e.target.value;
+              set(value === 'custom' ? { period: null } : { period: (value || null) as DatePeriod | null, from: null, to: null });
+            }} className={fieldClass}>
+              <option value="">{t('filters.anyDate')}</option>
+              {(Object.keys(PERIOD_LABELS) as DatePeriod[]).map(p => <option key={p} value={p}>{PERIOD_LABELS[p]}</option>)}
+              <option value="custom">{t('filters.customRange')}</option>
+            </select>
+            <select value={filters.email || ''} onChange={e => set({ email: (e.target.value || null) as CustomerFilters['email'] })} className={fieldClass}>
+              <option value="">{t('filters.anyEmail')}</option>
+              <option value="with">{t('filters.withEmail')}</option>
+              <option value="without">{t('filters.withoutEmail')}</option>
+            </select>
+            {!filters.period && (
+              <>
+                <input type="date" title={t('filters.from')} value={filters.from || ''} onChange={e => set({ from: e.target.value || null })} className={fieldClass} />
+                <input type="date" title={t('filters.to')} value={filters.to || ''} onChange={e => set({ to: e.target.value || null })} className={fieldClass} />
+              </>
+            )}
+            {members.length > 1 && (
+              <select value={filters.responsible || ''} onChange={e => set({ responsible: e.target.value || null })} className={`${fieldClass} col-span-2`}>
+                <option value="">{t('filters.allResponsible')}</option>
+                {members.map(m => <option key={m.user_id} value={m.user_id}>{t('filters.responsible', { name: m.name })}</option>)}
+              </select>
+            )}
+            {filterableFields.map(field => (
+              <select key={field.id} value={filters.custom[field.key] || ''} onChange={e => setCustom(field.key, e.target.value)} className={fieldClass}>
+                <option value="">{t('filters.fieldAny', { field: field.label })}</option>
+                {(field.type === 'boolean' ? ['true', 'false'] : field.options).map(option => (
+                  <option key={option} value={option}>{field.label}: {field.type === 'boolean' ? t(option === 'true' ? 'filters.yes' : 'filters.no') : option}</option>
+                ))}
+              </select>
+            ))}
+            <select value={filters.sort} onChange={e => set({ sort: e.target.value as SortField })} className={fieldClass}>
+              {(Object.keys(SORT_LABELS) as SortField[]).map(s => <option key={s} value={s}>{t('filters.sortBy', { label: SORT_LABELS[s] })}</option>)}
+            </select>
+            <select value={filters.direction} onChange={e => set({ direction: e.target.value as 'asc' | 'desc' })} className={fieldClass}>
+              <option value="asc">{filters.sort === 'name' ? 'A → Z' : t('filters.oldestFirst')}</option>
+              <option value="desc">{filters.sort === 'name' ? 'Z → A' : t('filters.newestFirst')}</option>
+            </select>
+          </div>
+
+          {active > 0 && (
+            <button type="button" onClick={() => onChange({ ...DEFAULT_FILTERS, search: filters.search })} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">
+              {t('filters.clear')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+
+import React, { useMemo, useState } from 'react';
+import { CompanySchema, Customer, ImportAction, ImportRow, UserProfile } from '../types';
+import { Button } from './Button';
+import {
+  importFieldsFor, ColumnMapping, ImportSheet,
+  readImportFile, guessMapping, buildImportPreview, commitImport
+} from '../services/importer';
+import { errorMessage } from '../services/errors';
+import { t, translatedLabels } from '../lib/i18n';
+
+interface ImportModalProps {
+  customers: Customer[];
+  empresaId: string;
+  schema: CompanySchema;
+  profile: UserProfile;
+  onClose: () => void;
+  onImported: (message: string, type: 'success' | 'error') => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = translatedLabels({
+  create: 'import.actionCreate',
+  update: 'import.actionUpdate',
+  skip: 'import.actionSkip',
+});
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  update: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  skip: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+export const ImportModal: React.FC<ImportModalProps> = ({ customers, empresaId, schema, profile, onClose, onImported }) => {
+  const [step, setStep] = useState<'upload' | 'mapping' | 'preview'>('upload');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [duplicateAction, setDuplicateAction] = useState<ImportAction>('update');
+  const [overrides, setOverrides] = useState<Record<number, ImportAction>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo<ImportRow[]>(() => {
+    if (!sheet || step !== 'preview') return [];
+    return buildImportPreview(sheet, mapping, customers, duplicateAction, schema)
+      .map(row => row.match && row.errors.length === 0 && overrides[row.line] ? { ...row, action: overrides[row.line] } : row);
+  }, [sheet, mapping, customers, duplicateAction, overrides, step, schema]);
+
+  const summary = useMemo(() => ({
+    create: preview.filter(r => r.action === 'create').length,
+    update: preview.filter(r => r.action === 'update').length,
+    skip: preview.filter(r => r.action === 'skip').length,
+    invalid: preview.filter(r => r.errors.length > 0).length,
+  }), [preview]);
+
+  const fields = importFieldsFor(schema);
+  const missingRequired = fields.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      const parsed = await readImportFile(file);
+      setSheet(parsed);
+      setMapping(guessMapping(parsed.headers, schema));
+      setOverrides({});
+      setStep('mapping');
+    } catch (err: any) {
+      setError(errorMessage(err, t('import.readFailed')));
+    }
+  };
+
+  const handleCommit = async () => {
+    setProgress({ done: 0, total: summary.create + summary.update });
+    try {
+      const result = await commitImport(preview, { empresaId, actor: profile }, (done, total) => setProgress({ done, total }));
+      const counts = { created: result.created, updated: result.updated };
+      const message = result.failed.length
+        ? t('import.doneWithFailures', { ...counts, failed: result.failed.length, lines: result.failed.map(r => r.line).join(', ') })
+        : t('import.done', counts);
+      onImported(message, result.failed.length ? 'error' : 'success');
+    } catch (err) {
+      onImported(t('import.failed'), 'error');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-3xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight">{t('import.title')}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">
+              {t(step === 'upload' ? 'import.stepUpload' : step === 'mapping' ? 'import.stepMapping' : 'import.stepPreview')}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={!!progress} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-8 safe-bottom">
+          {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 py-16 border-2 border-dashed border-slate-200 rounded-[2.5rem] cursor-pointer hover:border-indigo-300 transition-colors">
+              <span className="text-slate-500 font-bold text-sm">{t('import.selectFile')}</span>
+              <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{t('import.headerHint')}</span>
+              <input type="file" accept=".csv,.txt,.xlsx,.xls,.vcf" className="hidden" onChange={handleFile} />
+            </label>
+          )}
+
+          {step === 'mapping' && sheet && (
+            <>
+              {fields.map(({ field, label, required }) => (
+                <div key={field} className="grid grid-cols-2 gap-6 items-center">
+                  <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{label}{required && ' *'}</label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={e => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="w-full px-5 py-4 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-slate-700 focus:border-indigo-500"
+                  >
+                    <option value="">{t('import.dontImport')}</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>{header || t('import.column', { number: index + 1 })}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+              <div className="grid grid-cols-2 gap-6 items-center">
+                <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('import.existing')}</label>
+                <select value={duplicateAction} onChange={e => setDuplicateAction(e.target.value as ImportAction)} className="w-full px-5 py-4 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-slate-700 focus:border-indigo-500">
+                  <option value="update">{t('import.updateExisting')}</option>
+                  <option value="skip">{t('import.skipRow')}</option>
+                  <option value="create">{t('import.createNew')}</option>
+                </select>
+              </div>
+
+              <div className="flex gap-4">
+                <Button variant="outline" onClick={() => setStep('upload')} className="flex-1 py-4 rounded-2xl font-black text-xs uppercase tracking-widest">{t('common.back')}</Button>
+                <Button onClick={() => setStep('preview')} disabled={missingRequired.length > 0} className="flex-1 py-4 rounded-2xl font-black text-xs uppercase tracking-widest">
+                  {missingRequired.length > 0 ? t('import.mapRequired', { fields: missingRequired.map(f => f.label).join(', ') }) : t('import.preview')}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="grid grid-cols-4 gap-3 text-center">
+                {[[ACTION_LABELS.create, summary.create], [ACTION_LABELS.update, summary.update], [ACTION_LABELS.skip, summary.skip], [t('import.withErrors'), summary.invalid]].map(([label, value]) => (
+                  <div key={label} className="bg-slate-50 rounded-2xl py-4">
+                    <span className="text-slate-900 font-black text-2xl">{value}</span>
+                    <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mt-1">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                {preview.map(row => (
+                  <div key={row.line} className={`p-4 rounded-2xl border ${row.errors.length ? 'border-red-100 bg-red-50/40' : 'border-slate-100'}`}>
+                    <div className="flex justify-between items-center gap-4">
+                      <div className="min-w-0">
+                        <p className="text-[9px] text-slate-400 font-black uppercase tracking-widest">{t('import.row', { line: row.line })}</p>
+                        <p className="font-bold text-slate-800 truncate">{row.data.name || '—'} <span className="text-slate-400 font-medium">{row.data.phone}</span></p>
+                        {row.match && <p className="text-[11px] text-indigo-500 font-bold">{t('import.matches', { name: row.match.name })}</p>}
+                      </div>
+                      {row.match && row.errors.length === 0 ? (
+                        <select
+                          value={row.action}
+                          onChange={e => setOverrides({ ...overrides, [row.line]: e.target.value as ImportAction })}
+                          className={`text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest border ${ACTION_STYLES[row.action]}`}
+                        >
+                          {(['update', 'skip', 'create'] as ImportAction[]).map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+                        </select>
+                      ) : (
+                        <span className={`text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest border ${ACTION_STYLES[row.action]}`}>{ACTION_LABELS[row.action]}</span>
+                      )}
+                    </div>
+                    {row.errors.length > 0 && (
+                      <ul className="mt-2 text-[11px] text-red-500 font-bold list-disc ml-4">
+                        {row.errors.map((e, i) => <li key={i}>{e}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {progress && (
+                <div className="space-y-2">
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}></div>
+                  </div>
+                  <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest text-center">{t('import.progress', { done: progress.done, total: progress.total })}</p>
+                </div>
+              )}
+
+              <div className="flex gap-4">
+                <Button variant="outline" onClick={() => setStep('mapping')} disabled={!!progress} className="flex-1 py-4 rounded-2xl font-black text-xs uppercase tracking-widest">{t('common.back')}</Button>
+                <Button onClick={handleCommit} disabled={!!progress || summary.create + summary.update === 0} className="flex-1 py-4 rounded-2xl font-black text-xs uppercase tracking-widest">
+                  {t('import.submit', { count: summary.create + summary.update })}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
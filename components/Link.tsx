@@ -0,0 +1,26 @@
+
+import React from 'react';
+import { navigate } from '../lib/router';
+
+interface LinkProps {
+  to: string;
+  title?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Link comum (abre em nova aba com Ctrl/clique do meio); o clique simples troca a rota sem recarregar
+export const Link: React.FC<LinkProps> = ({ to, title, className, children }) => (
+  <a
+    href={to}
+    title={title}
+    className={className}
+    onClick={e => {
+      if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      navigate(to);
+    }}
+  >
+    {children}
+  </a>
+);
@@ -0,0 +1,91 @@
+
+import React, { useMemo, useState } from 'react';
+import { Customer, MergeField, Membership, UserProfile } from '../types';
+import { MERGE_FIELDS, buildMerged, mergeCustomers } from '../services/duplicates';
+import { Button } from './Button';
+import { errorMessage } from '../services/errors';
+import { formatDate, t } from '../lib/i18n';
+
+interface MergeModalProps {
+  records: Customer[];
+  members: Membership[];
+  profile: UserProfile;
+  onClose: () => void;
+  onMerged: (merged: Customer) => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+export const MergeModal: React.FC<MergeModalProps> = ({ records, members, profile, onClose, onMerged, onNotify }) => {
+  // Por padrão mantém o cadastro mais antigo e, em cada campo, o primeiro valor preenchido
+  const [primaryId, setPrimaryId] = useState(records[0].id);
+  const [choices, setChoices] = useState<Partial<Record<MergeField, string>>>(() =>
+    Object.fromEntries(MERGE_FIELDS.map(({ field }) => [field, (records.find(r => r[field]) || records[0]).id]))
+  );
+  const [busy, setBusy] = useState(false);
+
+  const merged = useMemo(() => buildMerged(records, primaryId, choices), [records, primaryId, choices]);
+
+  const display = (record: Customer, field: MergeField) =>
+    field === 'created_by' ? members.find(m => m.user_id === record.created_by)?.name || '—' : record[field] || '—';
+
+  const handleMerge = async () => {
+    if (!window.confirm(t('merge.confirm', { count: records.length }))) return;
+    setBusy(true);
+    try {
+      onMerged(await mergeCustomers(merged, records, profile));
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('merge.failed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">{t('merge.title')}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('merge.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-8 safe-bottom">
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('merge.primary')}</h3>
+            {records.map(record => (
+              <label key={record.id} className="flex items-center gap-3 p-4 rounded-2xl border border-slate-100 cursor-pointer">
+                <input type="radio" checked={primaryId === record.id} onChange={() => setPrimaryId(record.id)} className="accent-indigo-600" />
+                <span className="text-sm font-bold text-slate-700 truncate">{record.name}</span>
+                <span className="text-[11px] text-slate-400 font-bold ml-auto shrink-0">{t('merge.since', { date: formatDate(record.registration_date) })}</span>
+              </label>
+            ))}
+          </section>
+
+          {MERGE_FIELDS.map(({ field, label }) => (
+            <section key={field} className="space-y-2">
+              <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{label}</h3>
+              <div className="flex flex-wrap gap-2">
+                {records.map(record => (
+                  <button key={record.id} type="button" onClick={() => setChoices({ ...choices, [field]: record.id })} className={`px-4 py-2.5 rounded-2xl text-xs font-bold border transition-colors ${choices[field] === record.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-600 border-slate-100'}`}>
+                    {display(record, field)}
+                  </button>
+                ))}
+              </div>
+            </section>
+          ))}
+
+          <section className="space-y-2 bg-slate-50 rounded-3xl p-6">
+            <p className="text-xs text-slate-500"><b className="text-slate-600">{t('field.registrationDate')}:</b> {formatDate(merged.registration_date)} {t('merge.oldest')}</p>
+            <p className="text-xs text-slate-500 whitespace-pre-line"><b className="text-slate-600">{t('field.observations')}:</b> {merged.observations || '—'}</p>
+          </section>
+
+          <Button fullWidth disabled={busy} onClick={handleMerge} className="py-5 font-black uppercase tracking-widest">
+            {busy ? t('merge.merging') : t('duplicates.merge', { count: records.length })}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Company, CompanySchema, Customer, FieldErrors, MessageChannel, MessageTemplate, UserProfile } from '../types';
+import { messageLink, messageService, MESSAGE_CHANNEL_LABELS, recipientAddress, renderTemplate, templateService, validateMessage } from '../services/messages';
+import { errorMessage } from '../services/errors';
+import { Button } from './Button';
+import { MessageEditor } from './MessageEditor';
+import { t } from '../lib/i18n';
+
+interface MessageComposerModalProps {
+  customers: Customer[]; // Um cliente ou o segmento selecionado na lista
+  company: Company;
+  profile: UserProfile;
+  schema: CompanySchema;
+  onSent: (customer: Customer) => void;
+  onClose: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+// O navegador só abre uma conversa por clique, por isso os destinatários são atendidos em fila, um de cada vez
+export const MessageComposerModal: React.FC<MessageComposerModalProps> = ({ customers, company, profile, schema, onSent, onClose, onNotify }) => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [channel, setChannel] = useState<MessageChannel>(() =>
+    customers.some(c => recipientAddress('whatsapp', c)) || !customers.some(c => recipientAddress('email', c)) ? 'whatsapp' : 'email');
+  const [template, setTemplate] = useState<MessageTemplate | null>(null);
+  const [message, setMessage] = useState({ subject: '', body: '' });
+  const [errors, setErrors] = useState<FieldErrors>({});
+  // Fila congelada ao iniciar o envio; null enquanto a mensagem é escrita
+  const [queue, setQueue] = useState<Customer[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [result, setResult] = useState({ sent: 0, skipped: 0 });
+
+  useEffect(() => {
+    templateService.fetchAll(company.id)
+      .then(setTemplates)
+      .catch(() => onNotify(t('messages.loadFailed'), 'error'));
+  }, [company.id]);
+
+  const recipients = useMemo(() => customers.filter(c => recipientAddress(channel, c)), [customers, channel]);
+  const render = (customer: Customer) => ({
+    subject: renderTemplate(message.subject, customer, company, schema),
+    body: renderTemplate(message.body, customer, company, schema),
+  });
+
+  const chooseTemplate = (id: string) => {
+    const chosen = templates.find(item => item.id === id) || null;
+    setTemplate(chosen);
+    if (chosen) setMessage({ subject: chosen.subject || '', body: chosen.body });
+  };
+
+  const switchChannel = (next: MessageChannel) => {
+    setChannel(next);
+    if (template?.channel !== next) setTemplate(null);
+  };
+
+  const start = () => {
+    const found = validateMessage(message, schema);
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+    setQueue(recipients);
+    setPosition(0);
+  };
+
+  // O clique abre o WhatsApp/e-mail; o registro na linha do tempo segue em segundo plano
+  const markSent = (customer: Customer) => {
+    const { subject, body } = render(customer);
+    messageService.logSent(customer, { channel, subject, body, templateName: template?.name }, profile)
+      .then(onSent)
+      .catch(err => onNotify(errorMessage(err, t('messages.logFailed', { name: customer.name })), 'error'));
+    setResult(r => ({ ...r, sent: r.sent + 1 }));
+    setPosition(p => p + 1);
+  };
+
+  const skip = () => {
+    setResult(r => ({ ...r, skipped: r.skipped + 1 }));
+    setPosition(p => p + 1);
+  };
+
+  const current = queue?.[position];
+  const preview = current || recipients[0];
+  const rendered = preview ? render(preview) : null;
+  const channelTemplates = templates.filter(item => item.channel === channel);
+  const fieldClass = "w-full px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">
+              {customers.length === 1 ? t('messages.titleOne', { name: customers[0].name }) : t('messages.titleMany', { count: customers.length })}
+            </h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('messages.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-8 safe-bottom">
+          {queue === null ? (
+            <>
+              <div className="flex gap-2">
+                {(Object.keys(MESSAGE_CHANNEL_LABELS) as MessageChannel[]).map(c => (
+                  <button key={c} onClick={() => switchChannel(c)} className={`px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-colors ${channel === c ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+                    {MESSAGE_CHANNEL_LABELS[c]}
+                  </button>
+                ))}
+              </div>
+
+              {channelTemplates.length > 0 && (
+                <select value={template?.id || ''} onChange={e => chooseTemplate(e.target.value)} className={fieldClass}>
+                  <option value="">{t('messages.freeText')}</option>
+                  {channelTemplates.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                </select>
+              )}
+
+              <MessageEditor schema={schema} channel={channel} subject={message.subject} body={message.body} errors={errors} onChange={setMessage} />
+
+              <div className="space-y-2">
+                <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">
+                  {t('messages.recipients', { count: recipients.length })}
+                  {recipients.length < customers.length && t(channel === 'whatsapp' ? 'messages.leftOutPhone' : 'messages.leftOutEmail', { count: customers.length - recipients.length })}
+                </p>
+                {rendered && message.body.trim() && (
+                  <div className="p-5 rounded-2xl bg-slate-50 text-sm text-slate-600 whitespace-pre-wrap break-words">
+                    {channel === 'email' && rendered.subject && <p className="font-black text-slate-800 mb-2">{rendered.subject}</p>}
+                    {rendered.body}
+                  </div>
+                )}
+              </div>
+
+              <Button fullWidth disabled={recipients.length === 0} onClick={start} className="py-5 font-black uppercase tracking-widest">
+                {recipients.length > 1 ? t('messages.start') : t('messages.continue')}
+              </Button>
+            </>
+          ) : current && rendered ? (
+            <>
+              <div className="space-y-2">
+                <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('messages.position', { position: position + 1, total: queue.length })}</p>
+                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(position / queue.length) * 100}%` }}></div>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div>
+                  <p className="font-black text-slate-900 text-lg">{current.name}</p>
+                  <p className="text-xs text-slate-400 font-bold">{channel === 'whatsapp' ? current.phone : current.email}</p>
+                </div>
+                <div className="p-5 rounded-2xl bg-slate-50 text-sm text-slate-600 whitespace-pre-wrap break-words">
+                  {channel === 'email' && rendered.subject && <p className="font-black text-slate-800 mb-2">{rendered.subject}</p>}
+                  {rendered.body}
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <a
+                  href={messageLink(channel, recipientAddress(channel, current)!, rendered.body, rendered.subject)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={() => markSent(current)}
+                  className="flex-1 py-5 rounded-2xl bg-emerald-500 text-white text-center text-xs font-black uppercase tracking-widest hover:bg-emerald-600 transition-colors"
+                >
+                  {t('messages.open', { channel: MESSAGE_CHANNEL_LABELS[channel] })}
+                </a>
+                <button onClick={skip} className="px-6 py-5 rounded-2xl bg-slate-50 text-slate-500 text-xs font-black uppercase tracking-widest hover:bg-slate-100 transition-colors">{t('messages.skip')}</button>
+              </div>
+            </>
+          ) : (
+            <div className="text-center space-y-6 py-6">
+              <p className="text-slate-700 font-black text-lg">{t('messages.done')}</p>
+              <p className="text-xs text-slate-400 font-bold">{t('messages.summary', { sent: result.sent, skipped: result.skipped })}</p>
+              <Button onClick={onClose} className="mx-auto px-8 rounded-2xl font-black text-xs uppercase tracking-widest">{t('messages.finish')}</Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+
+import React, { useRef } from 'react';
+import { CompanySchema, FieldErrors, MessageChannel } from '../types';
+import { mergeFieldsOf } from '../services/messages';
+import { FieldError } from './FieldError';
+import { t } from '../lib/i18n';
+
+interface MessageEditorProps {
+  schema: CompanySchema;
+  channel: MessageChannel;
+  subject: string;
+  body: string;
+  errors?: FieldErrors;
+  onChange: (message: { subject: string; body: string }) => void;
+}
+
+// Texto da mensagem com os campos de mesclagem inseridos na posição do cursor
+export const MessageEditor: React.FC<MessageEditorProps> = ({ schema, channel, subject, body, errors, onChange }) => {
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const insertField = (key: string) => {
+    const token = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    onChange({ subject, body: body.slice(0, start) + token + body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const fieldClass = "w-full px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-3">
+      {channel === 'email' && (
+        <input value={subject} onChange={e => onChange({ subject: e.target.value, body })} placeholder={t('messages.subjectPlaceholder')} className={fieldClass} />
+      )}
+      <textarea ref={bodyRef} rows={6} value={body} onChange={e => onChange({ subject, body: e.target.value })} placeholder={t('messages.bodyPlaceholder')} className={`${fieldClass} resize-none font-medium text-sm`} />
+      <FieldError message={errors?.body} />
+      <div className="flex flex-wrap gap-1.5">
+        {mergeFieldsOf(schema).map(field => (
+          <button key={field.key} type="button" onClick={() => insertField(field.key)} title={t('messages.insertField', { token: `{{${field.key}}}` })} className="text-[9px] font-black px-3 py-1.5 rounded-xl uppercase tracking-widest text-indigo-500 bg-indigo-50 hover:bg-indigo-600 hover:text-white transition-colors">
+            + {field.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+
+import React, { useEffect, useState } from 'react';
+import { CompanySchema, FieldErrors, MessageChannel, MessageTemplate, UserProfile } from '../types';
+import { templateService, MESSAGE_CHANNEL_LABELS } from '../services/messages';
+import { errorMessage, isAppError } from '../services/errors';
+import { Button } from './Button';
+import { FieldError } from './FieldError';
+import { MessageEditor } from './MessageEditor';
+import { t } from '../lib/i18n';
+
+interface MessageTemplatesModalProps {
+  empresaId: string;
+  profile: UserProfile;
+  schema: CompanySchema;
+  onClose: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+const EMPTY_TEMPLATE = { id: undefined as string | undefined, name: '', channel: 'whatsapp' as MessageChannel, subject: '', body: '' };
+
+export const MessageTemplatesModal: React.FC<MessageTemplatesModalProps> = ({ empresaId, profile, schema, onClose, onNotify }) => {
+  const [templates, setTemplates] = useState<MessageTemplate[] | null>(null);
+  const [draft, setDraft] = useState(EMPTY_TEMPLATE);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [busy, setBusy] = useState(false);
+
+  const load = () =>
+    templateService.fetchAll(empresaId)
+      .then(setTemplates)
+      .catch(() => {
+        setTemplates([]);
+        onNotify(t('messages.loadFailed'), 'error');
+      });
+
+  useEffect(() => { load(); }, [empresaId]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+      onNotify(success);
+    } catch (err: any) {
+      if (isAppError(err, 'validation')) setErrors(err.fields || {});
+      onNotify(errorMessage(err, t('templates.saveFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+    run(async () => {
+      await templateService.save({ ...draft, empresa_id: empresaId }, schema, profile);
+      setDraft(EMPTY_TEMPLATE);
+    }, draft.id ? t('templates.updated') : t('templates.created', { name: draft.name }));
+  };
+
+  const edit = (template: MessageTemplate) => {
+    setErrors({});
+    setDraft({ id: template.id, name: template.name, channel: template.channel, subject: template.subject || '', body: template.body });
+  };
+
+  const fieldClass = "px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">{t('settings.templates')}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('templates.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-10 safe-bottom">
+          <section className="space-y-3">
+            {templates === null && <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-indigo-600 mx-auto"></div>}
+            {templates?.length === 0 && <p className="text-xs text-slate-400 font-bold text-center">{t('templates.empty')}</p>}
+            {templates?.map(template => (
+              <div key={template.id} className={`flex justify-between items-center gap-4 p-4 rounded-2xl border ${draft.id === template.id ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100'}`}>
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-700 text-sm truncate">{template.name}</p>
+                  <p className="text-[11px] text-slate-400 font-bold truncate">{MESSAGE_CHANNEL_LABELS[template.channel]} • {template.body}</p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button disabled={busy} onClick={() => edit(template)} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-indigo-600 bg-indigo-50 hover:bg-indigo-100">{t('common.edit')}</button>
+                  <button disabled={busy} onClick={() => window.confirm(t('templates.removeConfirm', { name: template.name })) && run(() => templateService.remove(template), t('templates.removed'))} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-red-500 bg-red-50 hover:bg-red-100">{t('common.remove')}</button>
+                </div>
+              </div>
+            ))}
+          </section>
+
+          <form onSubmit={handleSave} noValidate className="space-y-3 p-4 rounded-2xl border border-dashed border-slate-200">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{draft.id ? t('templates.edit') : t('templates.new')}</h3>
+            <div className="flex gap-3">
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder={t('templates.namePlaceholder')} className={`${fieldClass} flex-1 min-w-0`} />
+              <select value={draft.channel} onChange={e => setDraft({ ...draft, channel: e.target.value as MessageChannel })} className={fieldClass}>
+                {(Object.keys(MESSAGE_CHANNEL_LABELS) as MessageChannel[]).map(c => <option key={c} value={c}>{MESSAGE_CHANNEL_LABELS[c]}</option>)}
+              </select>
+            </div>
+            <FieldError message={errors.name} />
+            <MessageEditor
+              schema={schema}
+              channel={draft.channel}
+              subject={draft.subject}
+              body={draft.body}
+              errors={errors}
+              onChange={message => setDraft({ ...draft, ...message })}
+            />
+            <div className="flex justify-end gap-3">
+              {draft.id && (
+                <button type="button" onClick={() => setDraft(EMPTY_TEMPLATE)} className="px-5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">{t('common.cancel')}</button>
+              )}
+              <Button type="submit" disabled={busy} className="px-5 rounded-2xl font-black text-[10px] uppercase tracking-widest">{draft.id ? t('common.save') : t('common.create')}</Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+
+import React from 'react';
+import { Customer } from '../types';
+import { toE164, whatsappLink, telLink } from '../lib/phone';
+import { PhoneIcon, WhatsAppIcon, CopyIcon } from './Icons';
+import { t } from '../lib/i18n';
+
+interface PhoneActionsProps {
+  customer: Customer;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+// Registros ainda não normalizados são interpretados na hora
+export const phoneOf = (customer: Customer) => customer.phone_e164 || toE164(customer.phone);
+
+export const PhoneActions: React.FC<PhoneActionsProps> = ({ customer, onNotify }) => {
+  const phone = phoneOf(customer);
+  if (!phone) return null;
+
+  const copyPhone = async () => {
+    try {
+      await navigator.clipboard.writeText(customer.phone);
+      onNotify(t('phone.copied'));
+    } catch {
+      onNotify(t('phone.copyFailed'), 'error');
+    }
+  };
+
+  return (
+    <span className="flex gap-1.5 shrink-0">
+      <a href={whatsappLink(phone)} target="_blank" rel="noopener noreferrer" title={t('phone.whatsapp')} className="p-1.5 rounded-lg text-emerald-500 bg-emerald-50 hover:bg-emerald-500 hover:text-white transition-colors"><WhatsAppIcon /></a>
+      <a href={telLink(phone)} title={t('phone.call')} className="p-1.5 rounded-lg text-indigo-500 bg-indigo-50 hover:bg-indigo-600 hover:text-white transition-colors"><PhoneIcon /></a>
+      <button onClick={copyPhone} title={t('phone.copy')} className="p-1.5 rounded-lg text-slate-400 bg-slate-50 hover:bg-slate-700 hover:text-white transition-colors"><CopyIcon /></button>
+    </span>
+  );
+};
@@ -0,0 +1,156 @@
+
+import React, { useEffect, useState } from 'react';
+import { Customer, UserProfile, ConsentRecord, ConsentChannel, DataSubjectLog, LegalBasis } from '../types';
+import { Button } from './Button';
+import {
+  lgpdService, LEGAL_BASIS_LABELS, CONSENT_CHANNEL_LABELS, OPERATION_LABELS
+} from '../services/lgpd';
+import { errorMessage } from '../services/errors';
+import { formatDate, formatDateTime, localDateISO, t } from '../lib/i18n';
+
+interface PrivacyModalProps {
+  customer: Customer;
+  profile: UserProfile;
+  onClose: () => void;
+  onChanged: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+export const PrivacyModal: React.FC<PrivacyModalProps> = ({ customer, profile, onClose, onChanged, onNotify }) => {
+  const [consents, setConsents] = useState<ConsentRecord[]>([]);
+  const [history, setHistory] = useState<DataSubjectLog[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [form, setForm] = useState({
+    legal_basis: LegalBasis.CONSENT,
+    purpose: '',
+    channel: 'presencial' as ConsentChannel,
+    granted_at: localDateISO()
+  });
+
+  const load = async () => {
+    try {
+      const [c, h] = await Promise.all([
+        lgpdService.fetchConsents(customer.id, customer.empresa_id),
+        lgpdService.fetchHistory(customer.id, customer.empresa_id)
+      ]);
+      setConsents(c);
+      setHistory(h);
+    } catch (err) {
+      onNotify(t('privacy.loadFailed'), 'error');
+    }
+  };
+
+  useEffect(() => { load(); }, [customer.id]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+      onNotify(success);
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('privacy.requestFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await lgpdService.grantConsent(customer, { ...form, granted_at: new Date(`${form.granted_at}T12:00:00`).toISOString() }, profile);
+      setForm({ ...form, purpose: '' });
+    }, t('privacy.basisRecorded'));
+  };
+
+  const handleReport = (format: 'json' | 'html') => run(async () => {
+    const report = await lgpdService.buildReport(customer, profile);
+    if (format === 'json') lgpdService.downloadReportJSON(report);
+    else lgpdService.printReport(report);
+  }, t('privacy.reportGenerated'));
+
+  const handleAnonymize = () => {
+    if (!window.confirm(t('privacy.anonymizeConfirm'))) return;
+    run(async () => {
+      await lgpdService.anonymize(customer, profile);
+      onChanged();
+    }, t('privacy.anonymized'));
+  };
+
+  const inputClass = "w-full px-5 py-4 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">{t('privacy.title', { name: customer.name })}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('privacy.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-10 safe-bottom">
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('privacy.access')}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <Button variant="outline" disabled={busy} onClick={() => handleReport('json')} className="py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest">{t('privacy.reportJson')}</Button>
+              <Button variant="outline" disabled={busy} onClick={() => handleReport('html')} className="py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest">{t('privacy.reportPrint')}</Button>
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('lgpd.report.consents')}</h3>
+            {consents.map(c => (
+              <div key={c.id} className="flex justify-between items-center gap-4 p-4 rounded-2xl border border-slate-100">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-800 text-sm">{LEGAL_BASIS_LABELS[c.legal_basis]} • {c.purpose}</p>
+                  <p className="text-[11px] text-slate-400 font-bold">
+                    {CONSENT_CHANNEL_LABELS[c.channel]} • {formatDate(c.granted_at)}
+                    {c.revoked_at && t('privacy.revokedAt', { date: formatDate(c.revoked_at) })}
+                  </p>
+                </div>
+                {!c.revoked_at && (
+                  <button disabled={busy} onClick={() => run(() => lgpdService.revokeConsent(customer, c, profile), t('privacy.revoked'))} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-red-500 bg-red-50 hover:bg-red-100">
+                    {t('privacy.revoke')}
+                  </button>
+                )}
+              </div>
+            ))}
+
+            <form onSubmit={handleGrant} className="grid grid-cols-2 gap-3 pt-2">
+              <select value={form.legal_basis} onChange={e => setForm({ ...form, legal_basis: e.target.value as LegalBasis })} className={inputClass}>
+                {Object.values(LegalBasis).map(b => <option key={b} value={b}>{LEGAL_BASIS_LABELS[b]}</option>)}
+              </select>
+              <select value={form.channel} onChange={e => setForm({ ...form, channel: e.target.value as ConsentChannel })} className={inputClass}>
+                {(Object.keys(CONSENT_CHANNEL_LABELS) as ConsentChannel[]).map(ch => <option key={ch} value={ch}>{CONSENT_CHANNEL_LABELS[ch]}</option>)}
+              </select>
+              <input required value={form.purpose} onChange={e => setForm({ ...form, purpose: e.target.value })} placeholder={t('privacy.purposePlaceholder')} className={inputClass} />
+              <input type="date" required value={form.granted_at} onChange={e => setForm({ ...form, granted_at: e.target.value })} className={inputClass} />
+              <Button type="submit" disabled={busy} className="col-span-2 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest">{t('privacy.recordBasis')}</Button>
+            </form>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('privacy.anonymization')}</h3>
+            <p className="text-xs text-slate-500 leading-snug">{t('privacy.anonymizeHint')}</p>
+            <Button variant="danger" fullWidth disabled={busy || !!customer.anonymized_at} onClick={handleAnonymize} className="py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest">
+              {customer.anonymized_at ? t('privacy.alreadyAnonymized') : t('privacy.anonymize')}
+            </Button>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('privacy.operations')}</h3>
+            {history.length === 0 && <p className="text-xs text-slate-400 font-bold">{t('privacy.noOperations')}</p>}
+            {history.map(h => (
+              <div key={h.id} className="text-xs text-slate-500 border-l-2 border-indigo-100 pl-4 py-1">
+                <p className="font-bold text-slate-700">{OPERATION_LABELS[h.operation]}{h.details ? ` — ${h.details}` : ''}</p>
+                <p>{formatDateTime(h.performed_at)} • {h.performed_by_name}</p>
+              </div>
+            ))}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
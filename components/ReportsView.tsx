@@ -0,0 +1,192 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Customer, CustomerStatus, Membership, ReportRange, ReportTable, StatusTransition } from '../types';
+import { customerService } from '../services/sync';
+import { auditService } from '../services/audit';
+import { STATUS_LABELS } from '../services/filters';
+import {
+  REPORT_PRESET_LABELS, ReportPreset, rangeFromPreset, monthLabel, newCustomersByMonth, statusDistribution,
+  transitionsByMonth, churnByMonth, staffBreakdown, formatPercent, exportReport
+} from '../services/reports';
+import { BarChart } from './BarChart';
+import { t, useLocale } from '../lib/i18n';
+
+interface ReportsViewProps {
+  empresaId: string;
+  members: Membership[];
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+const STATUS_COLORS: Record<CustomerStatus, string> = {
+  [CustomerStatus.ACTIVE]: 'bg-emerald-500',
+  [CustomerStatus.PENDING]: 'bg-amber-400',
+  [CustomerStatus.INACTIVE]: 'bg-slate-400',
+};
+
+const ReportCard: React.FC<{ table: ReportTable; children: React.ReactNode }> = ({ table, children }) => (
+  <section className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-5">
+    <div className="flex justify-between items-center gap-4">
+      <h3 className="text-[11px] font-black text-slate-500 uppercase tracking-widest">{table.title}</h3>
+      <div className="flex gap-2">
+        {(['csv', 'xlsx'] as const).map(format => (
+          <button key={format} onClick={() => exportReport(table, format)} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-slate-500 bg-slate-50 hover:bg-slate-100">
+            {format}
+          </button>
+        ))}
+      </div>
+    </div>
+    {children}
+  </section>
+);
+
+const TableView: React.FC<{ table: ReportTable }> = ({ table }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-xs">
+      <thead>
+        <tr>{table.columns.map(c => <th key={c} className="text-left font-black text-slate-400 uppercase tracking-wider text-[9px] pb-2 pr-4">{c}</th>)}</tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row, i) => (
+          <tr key={i} className="border-t border-slate-50">
+            {row.map((cell, j) => <td key={j} className={`py-2 pr-4 ${j === 0 ? 'font-bold text-slate-700' : 'text-slate-500'}`}>{cell}</td>)}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const ReportsView: React.FC<ReportsViewProps> = ({ empresaId, members, onNotify }) => {
+  const [preset, setPreset] = useState<ReportPreset | 'custom'>('12m');
+  const [range, setRange] = useState<ReportRange>(() => rangeFromPreset('12m'));
+  const [data, setData] = useState<{ customers: Customer[]; transitions: StatusTransition[] } | null>(null);
+  const locale = useLocale();
+
+  useEffect(() => {
+    setData(null);
+    // Transições posteriores ao período também entram: servem para reconstruir o status no início de cada mês
+    Promise.all([
+      customerService.fetchAll(empresaId),
+      auditService.fetchStatusTransitions(empresaId, new Date(`${range.from}T00:00:00`).toISOString())
+    ])
+      .then(([customers, transitions]) => setData({ customers, transitions }))
+      .catch(() => {
+        setData({ customers: [], transitions: [] });
+        onNotify(t('reports.loadFailed'), 'error');
+      });
+  }, [empresaId, range.from, range.to]);
+
+  const reports = useMemo(() => {
+    if (!data) return null;
+    const { customers, transitions } = data;
+
+    const created = newCustomersByMonth(customers, range);
+    const distribution = statusDistribution(customers);
+    const moves = transitionsByMonth(transitions, range);
+    const churn = churnByMonth(customers, transitions, range);
+    const staff = staffBreakdown(customers, transitions, range, members);
+
+    return {
+      created: {
+        chart: created.map(m => ({ label: monthLabel(m.month), value: m.count })),
+        table: { title: t('reports.newByMonth'), columns: [t('reports.month'), t('reports.newCustomers')], rows: created.map(m => [monthLabel(m.month), m.count]) },
+      },
+      distribution: {
+        values: distribution,
+        table: {
+          title: t('reports.byStatus'),
+          columns: [t('field.status'), t('common.customers'), '%'],
+          rows: Object.values(CustomerStatus).map(s => [STATUS_LABELS[s], distribution[s], formatPercent(customers.length ? distribution[s] / customers.length : 0)]),
+        },
+      },
+      transitions: {
+        table: { title: t('reports.statusChanges'), columns: [t('reports.month'), ...moves.keys], rows: moves.months.map(m => [monthLabel(m.month), ...moves.keys.map(k => m.counts[k])]) },
+      },
+      churn: {
+        total: churn.total,
+        chart: churn.rows.map(m => ({ label: monthLabel(m.month), value: m.rate, display: formatPercent(m.rate) })),
+        table: {
+          title: t('reports.churn'),
+          columns: [t('reports.month'), t('reports.activeCustomers'), t('reports.becameInactive'), t('reports.churn')],
+          rows: [
+            ...churn.rows.map(m => [monthLabel(m.month), m.active, m.churned, formatPercent(m.rate)]),
+            [t('reports.period'), churn.total.active, churn.total.churned, formatPercent(churn.total.rate)],
+          ],
+        },
+      },
+      staff: {
+        table: {
+          title: t('reports.byMember'),
+          columns: [t('common.responsible'), t('reports.createdInPeriod'), t('reports.total'), t('customers.statActive'), t('customers.statPending'), t('customers.statInactive'), t('reports.churnInPeriod')],
+          rows: staff.map(s => [s.name, s.created, s.total, s.active, s.pending, s.inactive, s.churned]),
+        },
+      },
+    };
+  }, [data, range, members, locale]);
+
+  const fieldClass = "px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-xs text-slate-700 focus:border-indigo-500";
+  const total = data?.customers.length || 0;
+
+  return (
+    <div className="space-y-5">
+      <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm grid grid-cols-2 gap-3">
+        <select value={preset} onChange={e => {
+          const value = e.target.value as ReportPreset | 'custom';
+          setPreset(value);
+          if (value !== 'custom') setRange(rangeFromPreset(value));
+        }} className={`${fieldClass} col-span-2`}>
+          {(Object.keys(REPORT_PRESET_LABELS) as ReportPreset[]).map(p => <option key={p} value={p}>{REPORT_PRESET_LABELS[p]}</option>)}
+          <option value="custom">{t('filters.customRange')}</option>
+        </select>
+        {preset === 'custom' && (
+          <>
+            <input type="date" required value={range.from} max={range.to} onChange={e => e.target.value && setRange({ ...range, from: e.target.value })} className={fieldClass} title={t('audit.from')} />
+            <input type="date" required value={range.to} min={range.from} onChange={e => e.target.value && setRange({ ...range, to: e.target.value })} className={fieldClass} title={t('audit.to')} />
+          </>
+        )}
+      </div>
+
+      {!reports ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-indigo-600 mx-auto"></div>
+      ) : (
+        <>
+          <ReportCard table={reports.created.table}>
+            <BarChart data={reports.created.chart} />
+          </ReportCard>
+
+          <ReportCard table={reports.distribution.table}>
+            <div className="space-y-3">
+              {Object.values(CustomerStatus).map(status => (
+                <div key={status} className="flex items-center gap-3">
+                  <span className="w-20 text-xs font-bold text-slate-600">{STATUS_LABELS[status]}</span>
+                  <div className="flex-1 h-3 bg-slate-50 rounded-full overflow-hidden">
+                    <div className={`h-full ${STATUS_COLORS[status]}`} style={{ width: `${total ? (reports.distribution.values[status] / total) * 100 : 0}%` }}></div>
+                  </div>
+                  <span className="w-16 text-right text-xs font-black text-slate-500">{reports.distribution.values[status]}</span>
+                </div>
+              ))}
+            </div>
+          </ReportCard>
+
+          <ReportCard table={reports.transitions.table}>
+            {reports.transitions.table.columns.length > 1
+              ? <TableView table={reports.transitions.table} />
+              : <p className="text-sm text-slate-400 font-bold">{t('reports.noStatusChanges')}</p>}
+          </ReportCard>
+
+          <ReportCard table={reports.churn.table}>
+            <p className="text-sm text-slate-500">
+              <b className="text-slate-900 text-2xl font-black tracking-tighter mr-2">{formatPercent(reports.churn.total.rate)}</b>
+              {t('reports.churnSummary', { churned: reports.churn.total.churned, active: reports.churn.total.active })}
+            </p>
+            <BarChart data={reports.churn.chart} color="bg-red-400" />
+          </ReportCard>
+
+          <ReportCard table={reports.staff.table}>
+            <TableView table={reports.staff.table} />
+          </ReportCard>
+        </>
+      )}
+    </div>
+  );
+};
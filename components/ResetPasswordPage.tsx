@@ -0,0 +1,72 @@
+
+import React, { useState } from 'react';
+import { FieldErrors } from '../types';
+import { authService } from '../services/api';
+import { errorMessage, isAppError } from '../services/errors';
+import { formText, validateNewPassword } from '../services/validation';
+import { navigate } from '../lib/router';
+import { t } from '../lib/i18n';
+import { Button } from './Button';
+import { FieldError } from './FieldError';
+
+interface ResetPasswordPageProps {
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+// /redefinir-senha: aberta pelo link de recuperação, que já cria a sessão do usuário
+export const ResetPasswordPage: React.FC<ResetPasswordPageProps> = ({ onNotify }) => {
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const password = formText(formData, 'password');
+    const confirmation = formText(formData, 'confirmation');
+
+    const found = validateNewPassword(password, confirmation);
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+
+    setLoading(true);
+    try {
+      await authService.updatePassword(password, confirmation);
+      onNotify(t('reset.done'));
+      navigate('/clientes', { replace: true });
+    } catch (err) {
+      if (isAppError(err, 'validation')) setErrors(err.fields || {});
+      onNotify(errorMessage(err, t('reset.failed')), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const input = "w-full px-7 py-5 rounded-3xl border-2 border-slate-50 focus:border-indigo-500 outline-none bg-slate-50/30 font-bold text-slate-800 placeholder:text-slate-300";
+
+  return (
+    <main className="px-6 py-10 max-w-xl mx-auto">
+      <div className="bg-white rounded-[3.5rem] border border-slate-100 shadow-sm overflow-hidden animate-fade-in">
+        <div className="px-10 py-8 border-b border-slate-50">
+          <h2 className="text-2xl font-black text-slate-900 tracking-tight">{t('common.newPassword')}</h2>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('reset.subtitle')}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} noValidate className="px-10 py-10 space-y-8">
+          <div className="space-y-2">
+            <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('common.newPassword')}</label>
+            <input name="password" type="password" autoComplete="new-password" className={input} placeholder="••••••••" />
+            <FieldError message={errors.password} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('reset.confirmation')}</label>
+            <input name="confirmation" type="password" autoComplete="new-password" className={input} placeholder="••••••••" />
+            <FieldError message={errors.confirmation} />
+          </div>
+          <Button type="submit" fullWidth className="py-6 font-black uppercase tracking-widest" disabled={loading}>
+            {t(loading ? 'common.saving' : 'reset.submit')}
+          </Button>
+        </form>
+      </div>
+    </main>
+  );
+};
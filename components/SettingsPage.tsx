@@ -0,0 +1,268 @@
+
+import React, { useState } from 'react';
+import { Company, CompanySchema, FieldErrors, Membership, UserProfile } from '../types';
+import { can, teamService } from '../services/team';
+import { accountService } from '../services/account';
+import { authService } from '../services/api';
+import { retentionDaysOf, TRASH_RETENTION_OPTIONS } from '../services/trash';
+import { errorMessage, isAppError } from '../services/errors';
+import { formText } from '../services/validation';
+import { goBack } from '../lib/router';
+import { t } from '../lib/i18n';
+import { TeamModal } from './TeamModal';
+import { CustomFieldsModal } from './CustomFieldsModal';
+import { MessageTemplatesModal } from './MessageTemplatesModal';
+import { FieldError } from './FieldError';
+import { BackIcon, MessageIcon, ShieldIcon, TagIcon, TrashIcon, UserIcon, UsersIcon } from './Icons';
+
+interface SettingsPageProps {
+  company: Company;
+  membership: Membership | null;
+  profile: UserProfile;
+  members: Membership[];
+  schema: CompanySchema;
+  onMembersChanged: () => void;
+  onMembershipChanged: (company: Company, membership: Membership) => void;
+  onCustomersChanged: () => void;
+  onSchemaChanged: () => void;
+  onCompanyChanged: (company: Company) => void;
+  onProfileChanged: (profile: UserProfile) => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+// /configuracoes: perfil, acesso, equipe, campos personalizados, regras e encerramento da conta
+export const SettingsPage: React.FC<SettingsPageProps> = ({ company, membership, profile, members, schema, onMembersChanged, onMembershipChanged, onCustomersChanged, onSchemaChanged, onCompanyChanged, onProfileChanged, onNotify }) => {
+  const [showTeam, setShowTeam] = useState(false);
+  const [showSchema, setShowSchema] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [busy, setBusy] = useState(false);
+
+  // Envio dos formulários: campos inválidos ficam destacados e o formulário só é limpo se der certo
+  const submit = (action: (formData: FormData) => Promise<string>, failure: string, reset = false) =>
+    async (e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      const form = e.currentTarget;
+      setBusy(true);
+      setErrors({});
+      try {
+        onNotify(await action(new FormData(form)));
+        if (reset) form.reset();
+      } catch (err) {
+        if (isAppError(err, 'validation')) setErrors(err.fields || {});
+        onNotify(errorMessage(err, failure), 'error');
+      } finally {
+        setBusy(false);
+      }
+    };
+
+  const handleProfile = submit(async formData => {
+    onProfileChanged(await accountService.updateProfile(profile, formText(formData, 'responsibleName')));
+    onMembersChanged();
+    return t('settings.profileSaved');
+  }, t('settings.profileFailed'));
+
+  const handleCompany = submit(async formData => {
+    onCompanyChanged(await accountService.renameCompany(company, membership, profile, formText(formData, 'companyName')));
+    return t('settings.companySaved');
+  }, t('settings.companyFailed'));
+
+  const handleEmail = submit(async formData => {
+    await authService.updateEmail(formText(formData, 'email'));
+    return t('settings.emailSent');
+  }, t('settings.emailFailed'));
+
+  const handlePassword = submit(async formData => {
+    await authService.updatePassword(formText(formData, 'password'), formText(formData, 'confirmation'));
+    return t('settings.passwordSaved');
+  }, t('settings.passwordFailed'), true);
+
+  // Após a exclusão o serviço encerra a sessão e o App volta para o login
+  const handleDelete = submit(async formData => {
+    await accountService.deleteCompany(company, membership, profile, formText(formData, 'deleteConfirmation'));
+    return t('settings.accountDeleted');
+  }, t('settings.accountDeleteFailed'));
+
+  const handleRetentionChange = async (days: number) => {
+    setBusy(true);
+    try {
+      onCompanyChanged(await teamService.updateCompany(company.id, { trash_retention_days: days }));
+      onNotify(t('trash.retentionChanged', { days }));
+    } catch (err) {
+      onNotify(errorMessage(err, t('trash.retentionFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const card = "bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-sm flex items-center justify-between gap-6";
+  const action = "shrink-0 px-5 py-3 rounded-2xl bg-slate-50 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-indigo-600 hover:text-white transition-colors";
+  const formCard = "bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-6";
+  const label = "text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1";
+  const input = "w-full px-5 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50/50 outline-none font-bold text-sm text-slate-700 focus:border-indigo-500";
+  const heading = (icon: React.ReactNode, title: string, hint: string, tone = 'bg-indigo-50 text-indigo-500') => (
+    <div className="flex items-center gap-4 min-w-0">
+      <div className={`p-3 rounded-2xl ${tone}`}>{icon}</div>
+      <div className="min-w-0">
+        <h3 className="text-sm font-black text-slate-900 uppercase tracking-tight">{title}</h3>
+        <p className="text-xs text-slate-400 font-bold mt-1">{hint}</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <main className="px-6 py-10 space-y-8 max-w-4xl mx-auto">
+      <button onClick={() => goBack('/clientes')} className="flex items-center gap-2 text-[11px] font-black uppercase tracking-[0.2em] text-slate-400 hover:text-indigo-600 transition-colors">
+        <BackIcon /> {t('common.customers')}
+      </button>
+
+      <h2 className="text-3xl font-black text-slate-900 tracking-tight">{t('app.settings')}</h2>
+
+      <section className={formCard}>
+        {heading(<UserIcon />, t('settings.profile'), t('settings.profileHint'))}
+        <form onSubmit={handleProfile} noValidate className="flex items-end gap-3">
+          <div className="flex-1 space-y-1">
+            <label className={label}>{t('common.responsibleName')}</label>
+            <input name="responsibleName" defaultValue={profile.responsible_name} className={input} />
+            <FieldError message={errors.responsibleName} />
+          </div>
+          <button type="submit" disabled={busy} className={action}>{t('common.save')}</button>
+        </form>
+        {can(membership, 'team.manage') && (
+        <form onSubmit={handleCompany} noValidate className="flex items-end gap-3">
+          <div className="flex-1 space-y-1">
+            <label className={label}>{t('settings.companyName')}</label>
+            <input name="companyName" defaultValue={company.name} className={input} />
+            <FieldError message={errors.companyName} />
+          </div>
+          <button type="submit" disabled={busy} className={action}>{t('common.save')}</button>
+        </form>
+        )}
+      </section>
+
+      <section className={formCard}>
+        {heading(<ShieldIcon />, t('settings.access'), t('settings.accessHint'))}
+        <form onSubmit={handleEmail} noValidate className="flex items-end gap-3">
+          <div className="flex-1 space-y-1">
+            <label className={label}>{t('common.loginEmail')}</label>
+            <input name="email" type="email" defaultValue={profile.email} className={input} />
+            <FieldError message={errors.email} />
+          </div>
+          <button type="submit" disabled={busy} className={action}>{t('common.change')}</button>
+        </form>
+        <form onSubmit={handlePassword} noValidate className="flex items-end gap-3">
+          <div className="flex-1 grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className={label}>{t('common.newPassword')}</label>
+              <input name="password" type="password" autoComplete="new-password" className={input} placeholder="••••••••" />
+              <FieldError message={errors.password} />
+            </div>
+            <div className="space-y-1">
+              <label className={label}>{t('settings.repeatPassword')}</label>
+              <input name="confirmation" type="password" autoComplete="new-password" className={input} placeholder="••••••••" />
+              <FieldError message={errors.confirmation} />
+            </div>
+          </div>
+          <button type="submit" disabled={busy} className={action}>{t('common.change')}</button>
+        </form>
+      </section>
+
+      <section className={card}>
+        {heading(<UsersIcon />, t('settings.team'), t('settings.teamHint', { count: members.length }))}
+        <button onClick={() => setShowTeam(true)} className={action}>{t('common.open')}</button>
+      </section>
+
+      {can(membership, 'team.manage') && (
+      <section className={card}>
+        {heading(<TagIcon />, t('settings.schema'), t('settings.schemaHint', { fields: schema.fields.length, tags: schema.tags.length }))}
+        <button onClick={() => setShowSchema(true)} className={action}>{t('common.open')}</button>
+      </section>
+      )}
+
+      {can(membership, 'team.manage') && (
+      <section className={card}>
+        {heading(<MessageIcon />, t('settings.templates'), t('settings.templatesHint'))}
+        <button onClick={() => setShowTemplates(true)} className={action}>{t('common.open')}</button>
+      </section>
+      )}
+
+      {can(membership, 'customers.delete') && (
+      <section className={card}>
+        {heading(<TrashIcon />, t('settings.retention'), t('settings.retentionHint'), 'bg-red-50 text-red-400')}
+        <select
+          value={retentionDaysOf(company)}
+          disabled={busy}
+          onChange={e => handleRetentionChange(Number(e.target.value))}
+          className="shrink-0 px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-black text-xs text-slate-700 focus:border-indigo-500"
+        >
+          {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{t('common.days', { days })}</option>)}
+        </select>
+      </section>
+      )}
+
+      {membership?.role === 'owner' && company.owner_id === profile.id && (
+      <section className={`${formCard} border-red-100`}>
+        <div className="flex items-center justify-between gap-6">
+          {heading(<TrashIcon />, t('settings.deleteAccount'), t('settings.deleteAccountHint'), 'bg-red-50 text-red-400')}
+          {!confirmDelete && (
+            <button onClick={() => setConfirmDelete(true)} className={`${action} text-red-400 hover:bg-red-500`}>{t('common.delete')}</button>
+          )}
+        </div>
+        {confirmDelete && (
+        <form onSubmit={handleDelete} noValidate className="space-y-4">
+          <p className="text-xs text-red-500 font-bold bg-red-50 rounded-2xl px-5 py-4">
+            {t('settings.deleteWarning')}
+          </p>
+          <div className="space-y-1">
+            <label className={label}>{t('settings.deleteConfirmLabel', { name: company.name })}</label>
+            <input name="deleteConfirmation" autoComplete="off" className={input} />
+            <FieldError message={errors.deleteConfirmation} />
+          </div>
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setConfirmDelete(false)} className={action}>{t('common.cancel')}</button>
+            <button type="submit" disabled={busy} className="shrink-0 px-5 py-3 rounded-2xl bg-red-500 text-[10px] font-black uppercase tracking-widest text-white hover:bg-red-600 transition-colors disabled:opacity-50">
+              {t('settings.deleteForever')}
+            </button>
+          </div>
+        </form>
+        )}
+      </section>
+      )}
+
+      {showTeam && membership && (
+        <TeamModal
+          company={company}
+          membership={membership}
+          profile={profile}
+          members={members}
+          onClose={() => setShowTeam(false)}
+          onMembersChanged={onMembersChanged}
+          onMembershipChanged={onMembershipChanged}
+          onCustomersChanged={onCustomersChanged}
+          onNotify={onNotify}
+        />
+      )}
+
+      {showTemplates && (
+        <MessageTemplatesModal
+          empresaId={company.id}
+          profile={profile}
+          schema={schema}
+          onClose={() => setShowTemplates(false)}
+          onNotify={onNotify}
+        />
+      )}
+
+      {showSchema && (
+        <CustomFieldsModal
+          empresaId={company.id}
+          schema={schema}
+          onClose={() => setShowSchema(false)}
+          onSchemaChanged={onSchemaChanged}
+          onNotify={onNotify}
+        />
+      )}
+    </main>
+  );
+};
@@ -0,0 +1,66 @@
+
+import React from 'react';
+import { SyncStatus } from '../types';
+import { t } from '../lib/i18n';
+
+interface SyncIndicatorProps {
+  status: SyncStatus;
+  onRetry?: () => void;
+  onConflicts?: () => void;
+  onDismissFailed?: () => void;
+}
+
+export const SyncIndicator: React.FC<SyncIndicatorProps> = ({ status, onRetry, onConflicts, onDismissFailed }) => {
+  const pendingLabel = t(status.pending === 1 ? 'sync.pendingOne' : 'sync.pendingMany', { count: status.pending });
+
+  const { label, dot } = status.error
+    ? { label: t('sync.error'), dot: 'bg-red-500' }
+    : !status.online
+      ? { label: status.pending > 0 ? t('sync.offlinePending', { pending: pendingLabel }) : t('sync.offline'), dot: 'bg-slate-400' }
+      : status.syncing
+        ? { label: t('sync.syncing'), dot: 'bg-indigo-500 animate-pulse' }
+        : status.pending > 0
+          ? { label: pendingLabel, dot: 'bg-amber-500 animate-pulse' }
+          : { label: t('sync.synced'), dot: 'bg-emerald-500 animate-pulse' };
+
+  const retryable = !!onRetry && status.online && !status.syncing && (status.error || status.pending > 0);
+
+  // Conflitos de edição têm prioridade: precisam de uma decisão do usuário
+  if (status.conflicts.length > 0) {
+    return (
+      <button type="button" onClick={onConflicts} className="flex items-center gap-1.5 mt-0.5">
+        <div className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse"></div>
+        <p className="text-[9px] font-black uppercase tracking-widest text-amber-600">
+          {t(status.conflicts.length === 1 ? 'sync.conflictOne' : 'sync.conflictMany', { count: status.conflicts.length })}
+        </p>
+      </button>
+    );
+  }
+
+  // Alterações recusadas pelo servidor já foram desfeitas neste dispositivo; o motivo aparece ao passar o mouse
+  if (status.failed.length > 0) {
+    return (
+      <button type="button" onClick={onDismissFailed} title={status.failed.map(f => f.error).join('\n')} className="flex items-center gap-1.5 mt-0.5">
+        <div className="w-1.5 h-1.5 rounded-full bg-red-500"></div>
+        <p className="text-[9px] font-black uppercase tracking-widest text-red-500">
+          {t(status.failed.length === 1 ? 'sync.failedOne' : 'sync.failedMany', { count: status.failed.length })}
+        </p>
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      disabled={!retryable}
+      onClick={onRetry}
+      title={status.error || undefined}
+      className="flex items-center gap-1.5 mt-0.5 disabled:cursor-default"
+    >
+      <div className={`w-1.5 h-1.5 rounded-full ${dot}`}></div>
+      <p className={`text-[9px] font-black uppercase tracking-widest ${status.error ? 'text-red-500' : 'text-slate-400'}`}>
+        {label}{retryable ? ` • ${t('sync.retry')}` : ''}
+      </p>
+    </button>
+  );
+};
@@ -0,0 +1,21 @@
+
+import React from 'react';
+import { Tag } from '../types';
+
+interface TagChipProps {
+  tag: Tag;
+  active?: boolean;
+  small?: boolean;
+}
+
+// A cor vem da etiqueta (definida pela empresa), por isso o estilo é inline
+export const TagChip: React.FC<TagChipProps> = ({ tag, active = true, small = false }) => (
+  <span
+    className={`inline-block shrink-0 rounded-2xl font-black uppercase tracking-widest border-2 transition-colors ${small ? 'px-2.5 py-0.5 text-[9px]' : 'px-4 py-2 text-[10px]'}`}
+    style={active
+      ? { backgroundColor: tag.color, borderColor: tag.color, color: '#fff' }
+      : { color: tag.color, borderColor: `${tag.color}40`, backgroundColor: 'transparent' }}
+  >
+    {tag.name}
+  </span>
+);
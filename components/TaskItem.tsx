@@ -0,0 +1,52 @@
+
+import React, { useState } from 'react';
+import { CustomerStatus, Membership, Task } from '../types';
+import { isOverdue } from '../services/tasks';
+import { STATUS_LABELS } from '../services/filters';
+import { formatDateTime, t } from '../lib/i18n';
+
+interface TaskItemProps {
+  task: Task;
+  members: Membership[];
+  busy: boolean;
+  showCustomer?: boolean;
+  onComplete: (task: Task, status: CustomerStatus | null) => void;
+  onReopen?: (task: Task) => void;
+  onRemove?: (task: Task) => void;
+  onOpenCustomer?: (task: Task) => void;
+}
+
+export const TaskItem: React.FC<TaskItemProps> = ({ task, members, busy, showCustomer = false, onComplete, onReopen, onRemove, onOpenCustomer }) => {
+  const [status, setStatus] = useState<CustomerStatus | ''>('');
+  const assignee = members.find(m => m.user_id === task.assignee_id)?.name;
+  const overdue = isOverdue(task);
+
+  return (
+    <div className={`flex items-center gap-4 p-4 rounded-2xl border ${overdue ? 'border-red-100 bg-red-50/40' : 'border-slate-100'} ${task.done ? 'opacity-50' : ''}`}>
+      <div className="min-w-0 flex-1">
+        <p className={`font-bold text-slate-700 text-sm truncate ${task.done ? 'line-through' : ''}`}>{task.title}</p>
+        <p className="text-[11px] font-bold text-slate-400 truncate">
+          <span className={overdue ? 'text-red-500' : ''}>{formatDateTime(task.due_at, { dateStyle: 'short', timeStyle: 'short' })}</span>
+          {assignee && ` • ${assignee}`}
+          {showCustomer && task.customer && (
+            <> • <button onClick={() => onOpenCustomer?.(task)} className="text-indigo-500 hover:underline">{task.customer.name}</button></>
+          )}
+        </p>
+      </div>
+      {task.done ? (
+        onReopen && <button disabled={busy} onClick={() => onReopen(task)} className="shrink-0 text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-slate-500 bg-slate-50 hover:bg-slate-100">{t('tasks.reopen')}</button>
+      ) : (
+        <div className="flex gap-2 shrink-0">
+          <select value={status} onChange={e => setStatus(e.target.value as CustomerStatus | '')} title={t('tasks.statusOnComplete')} className="text-[10px] font-bold px-2 py-2 rounded-xl bg-slate-50 text-slate-500 outline-none">
+            <option value="">{t('tasks.keepStatus')}</option>
+            {Object.values(CustomerStatus).map(s => <option key={s} value={s}>→ {STATUS_LABELS[s]}</option>)}
+          </select>
+          <button disabled={busy} onClick={() => onComplete(task, status || null)} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-emerald-600 bg-emerald-50 hover:bg-emerald-100">{t('tasks.complete')}</button>
+        </div>
+      )}
+      {onRemove && (
+        <button disabled={busy} onClick={() => window.confirm(t('tasks.removeConfirm', { title: task.title })) && onRemove(task)} className="shrink-0 text-slate-300 hover:text-red-500 px-1">✕</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+
+import React, { useEffect, useState } from 'react';
+import { Company, Customer, Invitation, Membership, MemberRole, UserProfile } from '../types';
+import { Button } from './Button';
+import { teamService, can, invitationLink, ROLE_LABELS } from '../services/team';
+import { migratePhones } from '../services/phones';
+import { errorMessage } from '../services/errors';
+import { formatDate, t } from '../lib/i18n';
+
+interface TeamModalProps {
+  company: Company;
+  membership: Membership;
+  profile: UserProfile;
+  members: Membership[];
+  onClose: () => void;
+  onMembersChanged: () => void;
+  onMembershipChanged: (company: Company, membership: Membership) => void;
+  onCustomersChanged: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+const ASSIGNABLE_ROLES: MemberRole[] = ['manager', 'attendant', 'readonly'];
+
+export const TeamModal: React.FC<TeamModalProps> = ({ company, membership, profile, members, onClose, onMembersChanged, onMembershipChanged, onCustomersChanged, onNotify }) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [invite, setInvite] = useState({ email: '', role: 'attendant' as MemberRole });
+  const [busy, setBusy] = useState(false);
+  const [migration, setMigration] = useState<{ done: number; total: number } | null>(null);
+  const manage = can(membership, 'team.manage');
+
+  const loadInvitations = async () => {
+    if (!manage) return;
+    try {
+      setInvitations(await teamService.fetchInvitations(company.id));
+    } catch (err) {
+      onNotify(t('team.loadInvitesFailed'), 'error');
+    }
+  };
+
+  useEffect(() => { loadInvitations(); }, [company.id]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onNotify(success);
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('team.updateFailed')), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await teamService.invite(company.id, invite.email, invite.role, profile);
+      setInvite({ ...invite, email: '' });
+      await loadInvitations();
+    }, t('team.inviteSent', { email: invite.email }));
+  };
+
+  const handleTransfer = (target: Membership) => {
+    if (!window.confirm(t('team.transferConfirm', { company: company.name, name: target.name, role: ROLE_LABELS.manager }))) return;
+    run(async () => {
+      const updated = await teamService.transferOwnership(company, membership, profile, target);
+      onMembershipChanged(updated.company, updated.membership);
+      onMembersChanged();
+    }, t('team.transferred', { name: target.name }));
+  };
+
+  const copyLink = async (invitation: Invitation) => {
+    try {
+      await navigator.clipboard.writeText(invitationLink(invitation));
+      onNotify(t('team.linkCopied'));
+    } catch {
+      onNotify(t('team.copyFailed'), 'error');
+    }
+  };
+
+  const handleMigratePhones = async () => {
+    if (!window.confirm(t('team.migrateConfirm'))) return;
+    setBusy(true);
+    try {
+      const result = await migratePhones(company.id, profile, (done, total) => setMigration({ done, total }));
+      onCustomersChanged();
+      const names = (customers: Customer[]) => `${customers.slice(0, 3).map(c => c.name).join(', ')}${customers.length > 3 ? '...' : ''}`;
+      onNotify([
+        t('team.migrated', { count: result.updated }),
+        result.invalid.length > 0 && t('team.migrateInvalid', { count: result.invalid.length, names: names(result.invalid) }),
+        result.failed.length > 0 && t('team.migrateFailedSaves', { count: result.failed.length, names: names(result.failed.map(f => f.customer)), error: result.failed[0].error }),
+      ].filter(Boolean).join(' '), result.invalid.length > 0 || result.failed.length > 0 ? 'error' : 'success');
+    } catch (err: any) {
+      onNotify(errorMessage(err, t('team.migrateFailed')), 'error');
+    } finally {
+      setBusy(false);
+      setMigration(null);
+    }
+  };
+
+  const selectClass = "px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-black text-xs text-slate-700 focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/70 backdrop-blur-md flex items-end sm:items-center justify-center p-0 sm:p-6 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-t-[3rem] sm:rounded-[3.5rem] shadow-2xl overflow-hidden animate-slide-up flex flex-col max-h-[94vh]">
+        <div className="px-10 py-8 flex justify-between items-center border-b border-slate-50 bg-white sticky top-0 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight truncate">{t('team.title', { company: company.name })}</h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-1">{t('team.yourRole', { role: ROLE_LABELS[membership.role] })}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-slate-50 text-slate-400 rounded-2xl hover:bg-red-50 hover:text-red-500 transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-10 py-10 space-y-10 safe-bottom">
+          <section className="space-y-3">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('team.members')}</h3>
+            {members.map(m => (
+              <div key={m.id} className="flex justify-between items-center gap-4 p-4 rounded-2xl border border-slate-100">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-800 text-sm truncate">{m.name}{m.user_id === profile.id && t('team.you')}</p>
+                  <p className="text-[11px] text-slate-400 font-bold truncate">{m.email}</p>
+                </div>
+                {manage && m.role !== 'owner' && m.user_id !== profile.id ? (
+                  <div className="flex gap-2">
+                    <select disabled={busy} value={m.role} onChange={e => run(async () => { await teamService.updateRole(m, e.target.value as MemberRole); onMembersChanged(); }, t('team.roleUpdated'))} className={selectClass}>
+                      {ASSIGNABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                    {membership.role === 'owner' && (
+                      <button disabled={busy} onClick={() => handleTransfer(m)} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-indigo-500 bg-indigo-50 hover:bg-indigo-100">
+                        {t('team.makeOwner')}
+                      </button>
+                    )}
+                    <button disabled={busy} onClick={() => {
+                      if (!window.confirm(t('team.removeConfirm', { name: m.name }))) return;
+                      run(async () => { await teamService.removeMember(m); onMembersChanged(); }, t('team.memberRemoved'));
+                    }} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-red-500 bg-red-50 hover:bg-red-100">
+                      {t('common.remove')}
+                    </button>
+                  </div>
+                ) : (
+                  <span className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest bg-slate-100 text-slate-500">{ROLE_LABELS[m.role]}</span>
+                )}
+              </div>
+            ))}
+          </section>
+
+          {manage && (
+            <section className="space-y-3">
+              <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('team.inviteByEmail')}</h3>
+              <form onSubmit={handleInvite} className="flex gap-3">
+                <input type="email" required value={invite.email} onChange={e => setInvite({ ...invite, email: e.target.value })} placeholder={t('team.invitePlaceholder')} className="flex-1 min-w-0 px-5 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-bold text-slate-700 focus:border-indigo-500" />
+                <select value={invite.role} onChange={e => setInvite({ ...invite, role: e.target.value as MemberRole })} className={selectClass}>
+                  {ASSIGNABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <Button type="submit" disabled={busy} className="px-5 rounded-2xl font-black text-[10px] uppercase tracking-widest">{t('team.invite')}</Button>
+              </form>
+
+              {invitations.map(inv => (
+                <div key={inv.id} className="flex justify-between items-center gap-4 p-4 rounded-2xl border border-dashed border-slate-200">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-700 text-sm truncate">{inv.email}</p>
+                    <p className="text-[11px] text-slate-400 font-bold">{t('team.expires', { role: ROLE_LABELS[inv.role], date: formatDate(inv.expires_at) })}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => copyLink(inv)} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-indigo-500 bg-indigo-50 hover:bg-indigo-100">{t('team.copyLink')}</button>
+                    <button disabled={busy} onClick={() => run(async () => { await teamService.revokeInvitation(inv); await loadInvitations(); }, t('team.inviteRevoked'))} className="text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-red-500 bg-red-50 hover:bg-red-100">{t('common.cancel')}</button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {manage && (
+            <section className="space-y-3">
+              <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1">{t('team.maintenance')}</h3>
+              <div className="flex justify-between items-center gap-4 p-4 rounded-2xl bg-slate-50">
+                <p className="text-xs text-slate-500 font-bold">{t('team.migrateHint')}</p>
+                <button disabled={busy} onClick={handleMigratePhones} className="shrink-0 text-[9px] font-black px-3 py-2 rounded-xl uppercase tracking-widest text-indigo-500 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50">
+                  {migration ? `${migration.done}/${migration.total}` : t('team.migrate')}
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
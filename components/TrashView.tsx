@@ -0,0 +1,64 @@
+
+import React from 'react';
+import { Customer } from '../types';
+import { trashService, TRASH_RETENTION_OPTIONS } from '../services/trash';
+import { TrashIcon, RestoreIcon } from './Icons';
+import { formatDate, t } from '../lib/i18n';
+
+interface TrashViewProps {
+  customers: Customer[];
+  retentionDays: number;
+  busy: boolean;
+  onRestore: (customer: Customer) => void;
+  onPurge: (customer: Customer) => void;
+  onRetentionChange: (days: number) => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ customers, retentionDays, busy, onRestore, onPurge, onRetentionChange }) => (
+  <div className="space-y-5">
+    <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm flex items-center justify-between gap-4">
+      <p className="text-xs text-slate-500 leading-snug">
+        {t('trash.hint')}
+      </p>
+      <select
+        value={retentionDays}
+        disabled={busy}
+        onChange={e => onRetentionChange(Number(e.target.value))}
+        className="px-4 py-3 rounded-2xl border-2 border-slate-50 bg-slate-50 outline-none font-black text-xs text-slate-700 focus:border-indigo-500"
+      >
+        {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{t('common.days', { days })}</option>)}
+      </select>
+    </div>
+
+    {customers.length > 0 ? (
+      <div className="grid gap-5">
+        {customers.map(customer => {
+          const daysLeft = trashService.daysLeft(customer, retentionDays);
+          return (
+            <div key={customer.id} className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm flex items-center justify-between gap-4 animate-fade-in">
+              <div className="min-w-0">
+                <h4 className="text-slate-900 font-black text-lg truncate leading-none">{customer.name}</h4>
+                <p className="text-[10px] text-slate-400 font-black uppercase tracking-tighter mt-2">
+                  {customer.deleted_at && t('trash.deletedAt', { date: formatDate(customer.deleted_at) })}
+                  {daysLeft === 0 ? t('trash.purgePending') : t('trash.daysLeft', { days: daysLeft })}
+                </p>
+              </div>
+              <div className="flex gap-2.5">
+                <button disabled={busy} onClick={() => onRestore(customer)} title={t('common.restore')} className="p-3.5 text-emerald-500 bg-emerald-50 rounded-2xl hover:bg-emerald-500 hover:text-white transition-all active:scale-90 shadow-sm">
+                  <RestoreIcon />
+                </button>
+                <button disabled={busy} onClick={() => onPurge(customer)} title={t('trash.purge')} className="p-3.5 text-red-400 bg-red-50 rounded-2xl hover:bg-red-500 hover:text-white transition-all active:scale-90 shadow-sm">
+                  <TrashIcon />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    ) : (
+      <div className="text-center py-24 bg-white rounded-[3rem] border-2 border-dashed border-slate-100">
+        <p className="text-slate-400 font-bold text-sm tracking-tight">{t('trash.empty')}</p>
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,48 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemHeight: number;
+  overscan?: number;
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  onEndReached?: () => void;
+}
+
+// Renderiza apenas as linhas visíveis na janela (rolagem da própria página), com altura fixa por item
+export const VirtualList = <T,>({ items, itemHeight, overscan = 6, getKey, renderItem, onEndReached }: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  useEffect(() => {
+    const update = () => {
+      const top = containerRef.current?.getBoundingClientRect().top ?? 0;
+      const start = Math.max(0, Math.floor(-top / itemHeight) - overscan);
+      const end = Math.min(items.length, Math.ceil((window.innerHeight - top) / itemHeight) + overscan);
+      setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [items.length, itemHeight, overscan]);
+
+  useEffect(() => {
+    if (onEndReached && items.length > 0 && range.end >= items.length - overscan) onEndReached();
+  }, [range.end, items.length]);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: items.length * itemHeight }}>
+      {items.slice(range.start, range.end).map((item, i) => (
+        <div key={getKey(item)} className="absolute inset-x-0" style={{ top: (range.start + i) * itemHeight, height: itemHeight }}>
+          {renderItem(item)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCSV, stringifyCSV } from './csv';
+
+describe('stringifyCSV', () => {
+  it('põe entre aspas campos com delimitador, aspas ou quebra de linha', () => {
+    expect(stringifyCSV([['Silva, Ana', 'diz "oi"', 'linha1\nlinha2', 'simples']]))
+      .toBe('"Silva, Ana","diz ""oi""","linha1\nlinha2",simples');
+  });
+
+  it('usa ";" sem aspear vírgulas quando esse é o delimitador', () => {
+    expect(stringifyCSV([['Nome', 'Obs'], ['Ana', 'a, b; c']], ';'))
+      .toBe('Nome;Obs\r\nAna;"a, b; c"');
+  });
+
+  it('escreve null e undefined como célula vazia', () => {
+    expect(stringifyCSV([[null, undefined, 0]])).toBe(',,0');
+  });
+});
+
+describe('parseCSV', () => {
+  it('lê de volta o que stringifyCSV escreve', () => {
+    const rows = [['Nome', 'Obs'], ['Maria; "Mari"', 'primeira\r\nsegunda'], ['José', '']];
+    expect(parseCSV(stringifyCSV(rows, ';'), ';')).toEqual(rows);
+    expect(parseCSV(stringifyCSV(rows))).toEqual(rows);
+  });
+
+  it('ignora o BOM do Excel e linhas vazias', () => {
+    expect(parseCSV('\uFEFFnome,telefone\r\nAna,119\r\n\r\n')).toEqual([['nome', 'telefone'], ['Ana', '119']]);
+  });
+
+  it('detecta ";" e tabulação pela primeira linha', () => {
+    expect(detectDelimiter('nome;telefone;email\nAna, Bia;1;x')).toBe(';');
+    expect(detectDelimiter('nome\ttelefone')).toBe('\t');
+    expect(detectDelimiter('nome,telefone')).toBe(',');
+  });
+});
@@ -0,0 +1,62 @@
+
+// Leitura de CSV conforme a RFC 4180: campos entre aspas podem conter delimitador, aspas ("") e quebras de linha
+export const parseCSV = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Descarta linhas totalmente vazias (comuns no final de planilhas exportadas)
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Excel em português usa ";" como separador; escolhe o que aparece mais na primeira linha
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+};
+
+// Escrita de CSV conforme a RFC 4180: campos com delimitador, aspas ou quebras de linha vão entre aspas
+export const stringifyCSV = (rows: unknown[][], delimiter = ','): string => {
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join(delimiter)).join('\r\n');
+};
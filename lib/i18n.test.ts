@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { formatDate, formatDateTime, t } from './i18n';
+
+describe('formatDate', () => {
+  it('lê "AAAA-MM-DD" como data local, sem voltar um dia', () => {
+    expect(formatDate('2024-03-05')).toBe('05/03/2024');
+  });
+
+  it('mostra um traço para datas ausentes ou inválidas em vez de lançar', () => {
+    expect(formatDate(null)).toBe('—');
+    expect(formatDate(undefined)).toBe('—');
+    expect(formatDate('')).toBe('—');
+    expect(formatDate('2024-13-45')).toBe('—');
+    expect(formatDateTime('não é data')).toBe('—');
+  });
+});
+
+describe('t', () => {
+  it('substitui os parâmetros da mensagem', () => {
+    expect(t('contact.days', { days: 3 })).toBe('Último contato há 3 dias');
+  });
+});
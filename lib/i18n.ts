@@ -0,0 +1,98 @@
+import { useSyncExternalStore } from 'react';
+import { MessageKey, PT_BR } from './locales/pt-BR';
+import { EN } from './locales/en';
+import { ES } from './locales/es';
+
+// Textos da interface por idioma; o idioma escolhido fica salvo no navegador
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español',
+};
+
+const LOCALE_KEY = 'gestor_clientes_locale';
+const LOCALE_EVENT = 'app:locale';
+
+export type { MessageKey };
+
+const CATALOG: Record<Locale, Record<MessageKey, string>> = { 'pt-BR': PT_BR, en: EN, es: ES };
+
+const isLocale = (value: string | null): value is Locale => !!value && Object.hasOwn(CATALOG, value);
+
+// Sem escolha salva, segue o idioma do navegador ("es-AR" -> "es"); o padrão é português
+const detectLocale = (): Locale => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(LOCALE_KEY) : null;
+  if (isLocale(saved)) return saved;
+  const languages = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  for (const language of languages) {
+    if (isLocale(language)) return language;
+    const base = language.split('-')[0];
+    if (base === 'pt') return 'pt-BR';
+    if (isLocale(base)) return base;
+  }
+  return 'pt-BR';
+};
+
+let current: Locale = detectLocale();
+if (typeof document !== 'undefined') document.documentElement.lang = current;
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale) => {
+  current = locale;
+  localStorage.setItem(LOCALE_KEY, locale);
+  document.documentElement.lang = locale;
+  window.dispatchEvent(new Event(LOCALE_EVENT));
+};
+
+const subscribe = (callback: () => void) => {
+  window.addEventListener(LOCALE_EVENT, callback);
+  return () => window.removeEventListener(LOCALE_EVENT, callback);
+};
+
+// Re-renderiza o componente quando o idioma muda
+export const useLocale = (): Locale => useSyncExternalStore(subscribe, getLocale);
+
+// t('trash.purged', { count: 3 }) -> "3 cliente(s) removido(s)..."
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+  (CATALOG[current][key] ?? PT_BR[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match);
+
+// Rótulos fixos (status, ordenação...) lidos na hora do acesso, para acompanharem o idioma atual
+export const translatedLabels = <K extends string>(keys: Record<K, MessageKey>): Record<K, string> =>
+  Object.defineProperties({} as Record<K, string>, Object.fromEntries(
+    (Object.keys(keys) as K[]).map(k => [k, { enumerable: true, get: () => t(keys[k]) }])
+  ));
+
+// Listas de campos ({ field, label }) com o rótulo traduzido na hora do acesso
+export const translatedList = <T extends { label: string }>(items: (Omit<T, 'label'> & { label: MessageKey })[]): T[] =>
+  items.map(({ label, ...item }) => Object.defineProperty(item, 'label', { enumerable: true, get: () => t(label) }) as unknown as T);
+
+// "2024-03-05" é uma data sem horário: new Date() a leria como meia-noite UTC, o dia anterior no Brasil.
+// Vazio ou inválido (cadastros antigos sem data) dá null
+const toDate = (value: string | Date | null | undefined): Date | null => {
+  if (!value) return null;
+  const dateOnly = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  if (!dateOnly) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const [year, month, day] = dateOnly.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  // "2024-02-31" viraria 2 de março
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const NO_DATE = '—';
+
+// Data de hoje no fuso do usuário ("2024-03-05"); toISOString() daria o dia seguinte depois das 21h no Brasil
+export const localDateISO = (date: Date = new Date()): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+
+export const formatDate = (value: string | Date | null | undefined, options?: Intl.DateTimeFormatOptions): string =>
+  toDate(value)?.toLocaleDateString(current, options) ?? NO_DATE;
+
+export const formatDateTime = (value: string | Date | null | undefined, options?: Intl.DateTimeFormatOptions): string =>
+  toDate(value)?.toLocaleString(current, options) ?? NO_DATE;
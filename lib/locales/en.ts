@@ -0,0 +1,656 @@
+import type { MessageKey } from './pt-BR';
+
+export const EN: Record<MessageKey, string> = {
+  'app.loading': 'Authenticating session...',
+  'app.defaultCompany': 'My Company',
+  'app.settings': 'Settings',
+  'app.logout': 'Sign out',
+  'app.language': 'Language',
+  'app.logoutFailed': 'Could not sign out. Reload the page.',
+  'invite.acceptFailed': 'Could not accept the invitation.',
+
+  'common.processing': 'Processing...',
+  'common.saving': 'Saving...',
+  'common.save': 'Save',
+  'common.change': 'Change',
+  'common.open': 'Open',
+  'common.cancel': 'Cancel',
+  'common.undo': 'Undo',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.restore': 'Restore',
+  'common.history': 'History',
+  'common.message': 'Message',
+  'common.export': 'Export',
+  'common.customers': 'Customers',
+  'common.responsible': 'Owner',
+  'common.responsibleName': 'Your Name',
+  'common.loginEmail': 'Login E-mail',
+  'common.newPassword': 'New Password',
+  'common.remove': 'Remove',
+  'common.add': 'Add',
+  'common.create': 'Create',
+  'common.back': 'Back',
+  'common.days': '{days} days',
+
+  'status.active': 'Active',
+  'status.pending': 'Pending',
+  'status.inactive': 'Inactive',
+  'sort.name': 'Name',
+  'sort.registrationDate': 'Start date',
+  'sort.createdAt': 'Registration date',
+  'period.thisMonth': 'This month',
+  'period.last30Days': 'Last 30 days',
+  'period.thisYear': 'This year',
+  'contact.none': 'No contact recorded',
+  'contact.today': 'Last contact today',
+  'contact.yesterday': 'Last contact yesterday',
+  'contact.days': 'Last contact {days} days ago',
+
+  'auth.loginTitle': 'Welcome',
+  'auth.signupTitle': 'Get Started',
+  'auth.tagline': 'Customer Manager Pro • Cloud Sync',
+  'auth.invited': 'You were invited to a team. Create your access with the e-mail that received the invitation.',
+  'auth.companyName': 'Your Company Name',
+  'auth.companyPlaceholder': "E.g. Mary's Salon",
+  'auth.responsiblePlaceholder': 'Your name',
+  'auth.emailPlaceholder': 'you@email.com',
+  'auth.password': 'Secure Password',
+  'auth.forgotPassword': 'Forgot my password',
+  'auth.terms': 'I agree to the secure storage of data under the {law} and the terms of use.',
+  'auth.submitLogin': 'Open Dashboard',
+  'auth.submitSignup': 'Create My Account',
+  'auth.magicLink': 'Sign in with an e-mail link',
+  'auth.unconfirmed': 'Confirm your registration through the link sent to {email}.',
+  'auth.resend': 'Resend e-mail',
+  'auth.toSignup': "Don't have an account? Register your company",
+  'auth.toLogin': 'Already have an account? Sign in',
+  'auth.backToLogin': 'Back to sign in',
+  'auth.footer': 'Bank-Grade Data Protection',
+  'auth.resent': 'Confirmation e-mail sent again.',
+  'auth.resendFailed': 'Could not resend the e-mail.',
+  'auth.sendFailed': 'Could not send the e-mail.',
+  'auth.signedUp': 'Registration complete! If e-mail confirmation is enabled, check your inbox.',
+  'auth.welcomeBack': 'Welcome back!',
+  'auth.failed': 'Authentication failed.',
+  'auth.recover.title': 'Recover Password',
+  'auth.recover.hint': "We'll send you a link to create a new password.",
+  'auth.recover.submit': 'Send Recovery Link',
+  'auth.recover.sent': 'If an account exists for this e-mail, the password reset link will arrive shortly.',
+  'auth.magic.title': 'Sign in without a Password',
+  'auth.magic.hint': "We'll send you a link that opens the dashboard directly, no password needed.",
+  'auth.magic.submit': 'Send Sign-in Link',
+  'auth.magic.sent': 'Sign-in link sent. Open the e-mail on this device to sign in.',
+
+  'reset.subtitle': 'Access recovery',
+  'reset.confirmation': 'Repeat the New Password',
+  'reset.submit': 'Save New Password',
+  'reset.done': 'Password reset successfully.',
+  'reset.failed': 'Could not reset the password.',
+
+  'customers.loadFailed': 'Failed to load the customer list.',
+  'customers.loadMoreFailed': 'Failed to load more customers.',
+  'customers.statActive': 'Active',
+  'customers.statPending': 'Pending',
+  'customers.statInactive': 'Inactive',
+  'customers.import': 'Import CSV / XLSX / vCard',
+  'customers.export': 'Export (Portability)',
+  'customers.tabResults': 'Results',
+  'customers.tabReports': 'Reports',
+  'customers.tabDuplicates': 'Duplicates',
+  'customers.tabTrash': 'Trash',
+  'customers.tabAudit': 'Audit',
+  'customers.select': 'Select',
+  'customers.responsibleShort': 'Owner: {name}',
+  'customers.taskBadge': '{count} task(s)',
+  'customers.taskBadgeOverdue': '{count} task(s) • overdue',
+  'customers.since': 'Since: {date}',
+  'customers.privacy': 'Privacy (LGPD)',
+  'customers.empty': 'No records found.',
+  'customers.addFirst': 'Add First Customer',
+
+  'customer.loadFailed': 'Failed to load customer.',
+  'customer.notFound': 'Customer not found. It may have been permanently deleted.',
+  'customer.inTrash': 'This customer is in the trash.',
+  'customer.inTrashSince': 'This customer has been in the trash since {date}.',
+  'customer.since': 'Since',
+  'customer.contact': 'Contact',
+  'customer.privacy': 'Privacy',
+  'customer.trashed': 'Customer moved to the trash.',
+  'customer.deleteFailed': 'Failed to delete record.',
+  'customer.restored': 'Customer restored.',
+  'customer.restoreFailed': 'Failed to restore record.',
+  'customer.purged': 'Customer permanently deleted.',
+
+  'form.editTitle': 'Edit Customer',
+  'form.newTitle': 'New Customer',
+  'form.isolation': 'Multi-company Isolation Active',
+  'form.name': "Customer's Full Name",
+  'form.namePlaceholder': 'Full name',
+  'form.phone': 'Phone / WhatsApp',
+  'form.phonePlaceholder': '(00) 00000-0000 or +1 ...',
+  'form.startDate': 'Start Date',
+  'form.email': 'Contact E-mail (Optional)',
+  'form.emailPlaceholder': 'customer@email.com',
+  'form.status': 'Current Classification',
+  'form.statusOption': 'Status: {status}',
+  'form.firstNote': 'First Note (goes to the timeline)',
+  'form.notePlaceholder': 'Important additional information about the customer...',
+  'form.submitEdit': 'Save Changes',
+  'form.submitNew': 'Confirm Registration',
+  'form.fixErrors': 'Fix the highlighted fields.',
+  'form.savedOffline': 'Saved on this device. It will sync when the connection returns.',
+  'form.saved': 'Changes saved successfully.',
+  'form.conflict': 'This customer was changed on another device while you were editing. Choose what to keep.',
+  'form.saveFailed': 'Could not save the customer. Try again.',
+
+  'filters.searchPlaceholder': 'Name, mobile, e-mail or note...',
+  'filters.toggle': 'Filters',
+  'filters.viewPrompt': 'View name (e.g. Pending this month):',
+  'filters.deleteViewConfirm': 'Delete the view "{name}"?',
+  'filters.saveView': '+ Save view',
+  'filters.anyDate': 'Any start date',
+  'filters.customRange': 'Custom range',
+  'filters.anyEmail': 'With or without e-mail',
+  'filters.withEmail': 'With e-mail',
+  'filters.withoutEmail': 'Without e-mail',
+  'filters.from': 'Start from',
+  'filters.to': 'Start until',
+  'filters.allResponsible': 'All owners',
+  'filters.responsible': 'Owner: {name}',
+  'filters.fieldAny': '{field}: any',
+  'filters.yes': 'Yes',
+  'filters.no': 'No',
+  'filters.sortBy': 'Sort: {label}',
+  'filters.oldestFirst': 'Oldest first',
+  'filters.newestFirst': 'Newest first',
+  'filters.clear': 'Clear filters',
+
+  'views.saved': 'View "{name}" saved.',
+  'views.saveFailed': 'Failed to save view.',
+  'views.deleteFailed': 'Failed to delete view.',
+  'export.empty': 'There is no data to export.',
+
+  'bulk.progress': 'Processing {done} of {total}...',
+  'bulk.selected': '{count} selected',
+  'bulk.selectAll': 'Select all in filter',
+  'bulk.clear': 'Clear',
+  'bulk.status': 'Status',
+  'bulk.addTag': '+ Tag',
+  'bulk.removeTag': '− Tag',
+  'bulk.deleteConfirm': 'Send {count} customer(s) to the trash?',
+  'bulk.verb.status': 'had their status changed',
+  'bulk.verb.tags': 'had their tags updated',
+  'bulk.verb.responsible': 'got a new owner',
+  'bulk.verb.delete': 'sent to the trash',
+  'bulk.verb.restored': 'restored',
+  'bulk.changed': '{count} customer(s) {verb}.',
+  'bulk.unchanged': '{count} were already like that.',
+  'bulk.failed': '{count} failure(s): {names} ({error})',
+
+  'sync.pendingOne': '{count} pending change',
+  'sync.pendingMany': '{count} pending changes',
+  'sync.error': 'Sync error',
+  'sync.offline': 'Offline',
+  'sync.offlinePending': 'Offline • {pending}',
+  'sync.syncing': 'Syncing...',
+  'sync.synced': 'Synced',
+  'sync.retry': 'Try again',
+  'sync.conflictOne': '{count} conflict • Resolve',
+  'sync.conflictMany': '{count} conflicts • Resolve',
+  'sync.failedOne': '{count} change rejected • Dismiss',
+  'sync.failedMany': '{count} changes rejected • Dismiss',
+
+  'trash.loadFailed': 'Failed to load the trash.',
+  'trash.purgeConfirm': "Warning: this customer's data will be permanently removed to comply with the LGPD. Confirm?",
+  'trash.purged': '{count} customer(s) removed from the trash after the retention period.',
+  'trash.retentionChanged': 'Retention period changed to {days} days.',
+  'trash.retentionFailed': 'Failed to save setting.',
+
+  'settings.profile': 'Profile and company',
+  'settings.profileHint': 'Names shown to the team and in records',
+  'settings.companyName': 'Company Name',
+  'settings.access': 'Access',
+  'settings.accessHint': 'Login e-mail and password',
+  'settings.repeatPassword': 'Repeat the Password',
+  'settings.team': 'Team',
+  'settings.teamHint': '{count} member(s) • invitations and permissions',
+  'settings.schema': 'Fields and tags',
+  'settings.schemaHint': '{fields} field(s) • {tags} tag(s)',
+  'settings.templates': 'Message templates',
+  'settings.templatesHint': 'Texts with merge fields for WhatsApp and e-mail',
+  'settings.retention': 'Trash retention',
+  'settings.retentionHint': 'Deleted customers are permanently erased after the period (LGPD).',
+  'settings.deleteAccount': 'Delete account',
+  'settings.deleteAccountHint': 'Erases customers, history, tasks, team and the company. This cannot be undone.',
+  'settings.deleteWarning': 'Export your customers first if you need to keep a copy. The other members lose access to this company.',
+  'settings.deleteConfirmLabel': 'Type "{name}" to confirm',
+  'settings.deleteForever': 'Delete permanently',
+  'settings.profileSaved': 'Profile updated.',
+  'settings.profileFailed': 'Failed to save the profile.',
+  'settings.companySaved': 'Company details updated.',
+  'settings.companyFailed': 'Failed to save the company details.',
+  'settings.emailSent': 'We sent a confirmation link to the new e-mail.',
+  'settings.emailFailed': 'Failed to change the e-mail.',
+  'settings.passwordSaved': 'Password changed successfully.',
+  'settings.passwordFailed': 'Failed to change the password.',
+  'settings.accountDeleted': 'Account and company data deleted.',
+  'settings.accountDeleteFailed': 'Failed to delete the account.',
+
+  'conflict.resolved': 'Conflict resolved.',
+  'conflict.resolveFailed': 'Failed to resolve conflict.',
+  'tasks.dueOne': 'Task overdue: {title} • {customer}',
+  'tasks.dueMany': '{count} overdue tasks',
+  'tasks.agenda': 'Agenda',
+  'tasks.notification': 'Task: {title}',
+  'tasks.completed': 'Task completed.',
+  'tasks.completedAs': 'Task completed. {name} is now {status}.',
+  'tasks.completeFailed': 'Failed to complete task.',
+  'tasks.removeFailed': 'Failed to delete task.',
+
+  'timeline.tasks': 'Tasks',
+  'timeline.taskPlaceholder': 'E.g. Call to confirm the quote',
+  'timeline.assignSelf': 'Myself',
+  'timeline.schedule': 'Schedule',
+  'timeline.title': 'Timeline',
+  'timeline.contentPlaceholder': 'What was discussed or agreed?',
+  'timeline.submit': 'Record',
+  'timeline.empty': 'No interactions recorded.',
+  'timeline.edited': ' (edited)',
+  'timeline.previousRecord': 'Previous record',
+  'timeline.loadFailed': 'Failed to load the timeline.',
+  'timeline.migrateFailed': 'Could not move the old notes to the timeline.',
+  'timeline.saveFailed': 'Failed to record interaction.',
+  'timeline.removeConfirm': 'Delete this entry from the timeline?',
+  'timeline.removeFailed': 'Failed to delete interaction.',
+  'timeline.taskFailed': 'Failed to update task.',
+
+  'field.id': 'ID',
+  'field.name': 'Name',
+  'field.firstName': 'First name',
+  'field.phone': 'Phone',
+  'field.phoneE164': 'Phone (E.164)',
+  'field.email': 'Email',
+  'field.status': 'Status',
+  'field.registrationDate': 'Start date',
+  'field.observations': 'Notes',
+  'field.createdAt': 'Created at',
+  'field.createdBy': 'Created by',
+  'field.isDeleted': 'In trash',
+  'field.tags': 'Tags',
+  'field.company': 'Company',
+  'role.owner': 'Owner',
+  'role.manager': 'Manager',
+  'role.attendant': 'Attendant',
+  'role.readonly': 'Read only',
+  'audit.action.create': 'Created',
+  'audit.action.update': 'Edited',
+  'audit.action.statusChange': 'Status change',
+  'audit.action.delete': 'Moved to trash',
+  'audit.action.restore': 'Restored',
+  'audit.action.purge': 'Permanently deleted',
+  'audit.action.anonymize': 'Anonymized',
+  'audit.action.import': 'Import',
+  'audit.action.export': 'Export',
+  'audit.action.merge': 'Duplicates merged',
+  'interaction.note': 'Note',
+  'interaction.call': 'Call',
+  'interaction.whatsapp': 'WhatsApp',
+  'interaction.email': 'Email',
+  'interaction.visit': 'Visit',
+  'interaction.purchase': 'Purchase',
+  'customField.text': 'Text',
+  'customField.number': 'Number',
+  'customField.date': 'Date',
+  'customField.select': 'Option list',
+  'customField.boolean': 'Yes / No',
+  'duplicates.reason.phone': 'Same phone',
+  'duplicates.reason.email': 'Same email',
+  'duplicates.reason.name': 'Similar name',
+  'lgpd.basis.consent': 'Data subject consent',
+  'lgpd.basis.contract': 'Performance of a contract',
+  'lgpd.basis.legalObligation': 'Compliance with a legal obligation',
+  'lgpd.basis.legitimateInterest': 'Legitimate interest',
+  'lgpd.channel.inPerson': 'In person',
+  'lgpd.channel.onlineForm': 'Online form',
+  'lgpd.operation.accessReport': 'Data report generated',
+  'lgpd.operation.anonymization': 'Data anonymized',
+  'lgpd.operation.erasure': 'Data erased',
+  'lgpd.operation.consentGranted': 'Consent recorded',
+  'lgpd.operation.consentRevoked': 'Consent revoked',
+  'reports.preset3m': 'Last 3 months',
+  'reports.preset6m': 'Last 6 months',
+  'reports.preset12m': 'Last 12 months',
+  'reports.formerMember': 'Former member',
+
+  'validation.nameRequired': 'Name is required.',
+  'validation.emailInvalid': 'Invalid email: "{email}".',
+  'validation.statusUnknown': 'Unknown status: "{status}" (use active, inactive or pending).',
+  'validation.startDateRequired': 'Enter the start date.',
+  'validation.dateInvalid': 'Invalid date: "{date}" (use DD/MM/YYYY or YYYY-MM-DD).',
+  'validation.unknownTags': 'Unknown tag(s): {tags}.',
+  'validation.phoneRequired': 'Phone is required.',
+  'validation.emailRequired': 'Enter a valid email.',
+  'validation.passwordRequired': 'Enter the password.',
+  'validation.passwordLength': 'The password must have at least {min} characters.',
+  'validation.passwordMismatch': "The passwords don't match.",
+  'validation.companyRequired': 'Enter the company name.',
+  'validation.responsibleRequired': 'Enter the name of the person in charge.',
+  'validation.termsRequired': 'You must accept the LGPD terms.',
+  'validation.checkFields': 'Check the highlighted fields.',
+  'phone.internationalInvalid': 'Invalid international phone: "{phone}".',
+  'phone.areaCodeMissing': 'Add the area code to the phone "{phone}".',
+  'phone.invalid': 'Invalid phone: "{phone}".',
+  'phone.areaCodeInvalid': 'Invalid area code: {code}.',
+  'phone.mobileInvalid': 'Invalid mobile number: "{phone}".',
+  'customField.required': '{field} is required.',
+  'customField.notNumber': '{field}: "{value}" is not a number.',
+  'customField.invalidDate': '{field}: invalid date "{value}".',
+  'customField.notOption': '{field}: "{value}" is not one of the options.',
+  'customField.yesNo': '{field}: use Yes or No.',
+  'customField.optionsRequired': 'Enter at least one option for the list.',
+  'customField.keyInvalid': 'Enter a valid name for the field.',
+  'customField.exists': 'A field named "{label}" already exists.',
+  'errors.permission': "You don't have permission for this action.",
+  'errors.permissionAsk': "You don't have permission for this action. Ask the person in charge of the company for access.",
+  'errors.conflict': 'This customer was changed on another device.',
+  'errors.deletedElsewhere': 'This customer was deleted on another device.',
+  'errors.sessionExpired': 'Your session has expired. Sign in again to continue.',
+  'errors.emailInUse': 'This email is already used by another company.',
+  'errors.weakPassword': 'The password must have at least 6 characters.',
+  'errors.invalidCredentials': 'Incorrect email or password.',
+  'errors.emailNotConfirmed': 'Your account has not been confirmed yet. Check your email.',
+  'errors.rateLimit': 'Too many attempts in a row. Wait a few minutes and try again.',
+  'errors.emailRateLimit': 'Too many emails sent to this address. Wait a few minutes and try again.',
+  'errors.signupDisabled': 'New sign-ups are disabled at the moment.',
+  'errors.otpDisabled': 'There is no account with this email. Register your company first.',
+  'errors.otpExpired': 'The link has expired or was already used. Request a new one.',
+  'errors.samePassword': 'The new password must be different from the current one.',
+  'errors.duplicate': 'A record with this data already exists.',
+  'errors.requiredFields': 'Fill in all required fields.',
+  'errors.invalidFormat': 'A value has an invalid format.',
+  'errors.invalidDate': 'Date in an invalid format.',
+  'errors.dateOutOfRange': 'Date outside the allowed range.',
+  'errors.generic': 'Something went wrong. Try again.',
+  'errors.network': 'No connection to the server. Check your internet and try again.',
+  'errors.unknown': 'Unknown error',
+  'sync.failed': 'Sync failed.',
+  'sync.alreadyResolved': 'This conflict has already been resolved.',
+  'account.ownerOnly': 'Only the owner can delete the company account.',
+  'account.confirmName': 'Type the company name exactly as shown.',
+  'account.deleteFailed': 'Could not delete the account. No data was erased; try again.',
+  'account.signupFailed': 'Could not create the account. Try again.',
+  'account.authFailed': 'Authentication failed.',
+  'account.magicLinkFailed': 'Could not send the sign-in link.',
+  'account.recoveryFailed': 'Could not send the recovery email.',
+  'account.resendFailed': 'Could not resend the confirmation email.',
+  'account.passwordFailed': 'Could not change the password.',
+  'account.emailFailed': 'Could not change the email.',
+  'account.profileLoadFailed': 'Connection error while loading the profile.',
+  'account.profileSaveFailed': 'Could not save the profile.',
+  'team.singleOwner': 'Each company has only one owner.',
+  'team.singleOwnerTransfer': 'Each company has only one owner. Use the ownership transfer.',
+  'team.transferOwnerOnly': 'Only the owner can transfer the company.',
+  'team.transferOtherMember': 'Choose another member of this company.',
+  'team.inviteExpired': 'This invitation has expired. Ask the person in charge for a new one.',
+  'team.inviteOtherEmail': 'This invitation was sent to another email.',
+  'tasks.titleRequired': 'Enter the task title.',
+  'tasks.dueInvalid': 'Enter a valid due date.',
+  'timeline.authorOnly': 'Only the person who recorded the interaction can change it.',
+  'timeline.contentRequired': 'Describe the interaction.',
+  'messages.bodyRequired': 'Write the message text.',
+  'messages.nameRequired': 'Enter the template name.',
+  'messages.nameExists': 'A template named "{name}" already exists.',
+  'export.noFields': 'Select at least one field to export.',
+  'import.noRows': 'The file has no data rows.',
+  'import.repeatedRow': 'Row repeated within the file.',
+  'import.categories': 'Categories',
+  'import.otherContacts': 'Other contacts: {contacts}',
+  'lgpd.popupBlocked': 'Allow pop-ups to print the report.',
+  'lgpd.report.title': 'Data Subject Report',
+  'lgpd.report.heading': 'Personal Data Report (LGPD, art. 18)',
+  'lgpd.report.meta': 'Controller: {company} • Generated on {date} by {name}',
+  'lgpd.report.registration': 'Registration data',
+  'lgpd.report.consents': 'Legal bases and consents',
+  'lgpd.report.legalBasis': 'Legal basis',
+  'lgpd.report.consentColumns': 'Purpose • Channel • Granted • Revoked',
+  'lgpd.report.interactions': 'Recorded interactions',
+  'lgpd.report.history': 'Operations history',
+  'lgpd.report.by': '{label} by {name}',
+  'lgpd.report.empty': 'No records.',
+  'lgpd.report.identifier': 'Identifier',
+  'lgpd.report.createdAt': 'Registered on',
+  'lgpd.report.anonymizedAt': 'Anonymized on',
+
+  'agenda.overdue': 'Overdue',
+  'agenda.today': 'Today',
+  'agenda.upcoming': 'Upcoming',
+  'agenda.mine': 'Mine',
+  'agenda.team': 'Team',
+  'agenda.enableNotifications': 'Enable notifications',
+  'agenda.empty': 'No open tasks. Create tasks on the customer page.',
+  'audit.loadFailed': 'Failed to load the audit log.',
+  'audit.allUsers': 'All users',
+  'audit.allActions': 'All actions',
+  'audit.from': 'From',
+  'audit.to': 'To',
+  'history.title': 'History • {name}',
+  'history.subtitle': 'Who changed what and when',
+  'history.loadFailed': 'Failed to load the history.',
+  'duplicates.possible': 'Possible duplicate',
+  'duplicates.more': '+{count} more',
+  'duplicates.loadFailed': 'Failed to load customers.',
+  'duplicates.groups': 'Possible duplicates: {count} group(s)',
+  'duplicates.empty': 'No duplicate records found.',
+  'duplicates.linked': 'Linked to another in the group',
+  'duplicates.merge': 'Merge {count} records',
+  'duplicates.merged': 'Records merged into "{name}".',
+
+  'schema.saveFailed': 'Failed to save settings.',
+  'schema.fieldCreated': 'Field "{label}" created.',
+  'schema.fieldUpdated': 'Field updated.',
+  'schema.fieldRemoved': 'Field removed.',
+  'schema.tagCreated': 'Tag "{name}" created.',
+  'schema.tagRemoved': 'Tag removed.',
+  'schema.subtitle': "Customize your company's records",
+  'schema.customFields': 'Custom fields',
+  'schema.required': 'Required',
+  'schema.onCard': 'On card',
+  'schema.showOnCard': 'Show on card',
+  'schema.removeFieldConfirm': 'Remove the field "{label}"? Values already filled in will no longer be shown.',
+  'schema.fieldPlaceholder': 'E.g.: Birthday, Tax ID, Preferred service',
+  'schema.optionsPlaceholder': 'Comma-separated options',
+  'schema.removeTag': 'Remove tag',
+  'schema.removeTagConfirm': 'Remove the tag "{name}"?',
+  'schema.tagPlaceholder': 'E.g.: VIP, Overdue payment',
+
+  'export.formatVcard': 'vCard (contacts)',
+  'export.done': '{format} generated with {count} customer(s).',
+  'export.failed': 'Failed to generate the file.',
+  'export.scopeFiltered': 'Search results',
+  'export.scopeSelected': 'Manual selection',
+  'export.scopeAll': 'All customers',
+  'export.title': 'Export Customers',
+  'export.subtitle': 'Data Portability',
+  'export.what': 'What to export',
+  'export.format': 'Format',
+  'export.delimiter': 'Delimiter',
+  'export.semicolon': 'Semicolon (Excel in Brazil)',
+  'export.comma': 'Comma (international standard)',
+  'export.version': 'Version',
+  'export.vcardCompatible': '3.0 (works with most phones)',
+  'export.vcardHint': 'Each customer becomes a contact with name, phone, email, notes and tags.',
+  'export.fields': 'Fields',
+  'export.submit': 'Export {count} customer(s)',
+
+  'export.formatCsv': 'CSV',
+  'export.formatJson': 'JSON',
+  'export.formatXlsx': 'Excel (XLSX)',
+
+  'import.actionCreate': 'Create',
+  'import.actionUpdate': 'Update',
+  'import.actionSkip': 'Skip',
+  'import.withErrors': 'With errors',
+  'import.readFailed': 'Could not read the file.',
+  'import.done': 'Import finished: {created} created, {updated} updated.',
+  'import.doneWithFailures': 'Import finished: {created} created, {updated} updated, {failed} failed (rows {lines}).',
+  'import.failed': 'Failed to import customers.',
+  'import.title': 'Import Customers',
+  'import.stepUpload': 'CSV, XLSX or vCard',
+  'import.stepMapping': 'Column mapping',
+  'import.stepPreview': 'Preview (nothing has been saved yet)',
+  'import.selectFile': 'Select a .csv, .xlsx, .xls or .vcf file',
+  'import.headerHint': 'In spreadsheets, the first row must contain the column titles',
+  'import.dontImport': "— Don't import —",
+  'import.column': 'Column {number}',
+  'import.existing': 'Existing customers (same phone or email)',
+  'import.updateExisting': 'Update existing record',
+  'import.skipRow': 'Skip row',
+  'import.createNew': 'Create new record',
+  'import.mapRequired': 'Map: {fields}',
+  'import.preview': 'Preview',
+  'import.row': 'Row {line}',
+  'import.matches': 'Matches: {name}',
+  'import.progress': '{done} of {total}',
+  'import.submit': 'Confirm Import ({count})',
+
+  'merge.confirm': 'Merge {count} records into one? The others will go to the trash.',
+  'merge.failed': 'Failed to merge records.',
+  'merge.title': 'Merge records',
+  'merge.subtitle': 'Choose the value of each field',
+  'merge.primary': 'Record kept (keeps the history)',
+  'merge.since': 'since {date}',
+  'merge.oldest': '(the oldest)',
+  'merge.merging': 'Merging...',
+
+  'messages.loadFailed': 'Failed to load templates.',
+  'messages.logFailed': 'The message to {name} was not recorded.',
+  'messages.titleOne': 'Message • {name}',
+  'messages.titleMany': 'Message to {count} customers',
+  'messages.subtitle': 'Each message is recorded on the timeline',
+  'messages.freeText': 'Free message',
+  'messages.recipients': '{count} recipient(s)',
+  'messages.leftOutPhone': ' • {count} without a valid phone are left out',
+  'messages.leftOutEmail': ' • {count} without an email are left out',
+  'messages.start': 'Start sending',
+  'messages.continue': 'Continue',
+  'messages.position': 'Message {position} of {total}',
+  'messages.open': 'Open {channel}',
+  'messages.skip': 'Skip',
+  'messages.done': 'Sending finished',
+  'messages.summary': '{sent} message(s) opened and recorded • {skipped} skipped',
+  'messages.finish': 'Finish',
+  'messages.subjectPlaceholder': 'Email subject',
+  'messages.bodyPlaceholder': 'Hi {{first_name}}, how are you?',
+  'messages.insertField': 'Insert {token}',
+
+  'templates.saveFailed': 'Failed to save the template.',
+  'templates.updated': 'Template updated.',
+  'templates.created': 'Template "{name}" created.',
+  'templates.removed': 'Template removed.',
+  'templates.removeConfirm': 'Remove the template "{name}"?',
+  'templates.subtitle': 'Ready-made texts for WhatsApp and email',
+  'templates.empty': 'No templates yet.',
+  'templates.edit': 'Edit template',
+  'templates.new': 'New template',
+  'templates.namePlaceholder': 'E.g.: Follow-up reminder',
+
+  'reports.loadFailed': 'Failed to load reports.',
+  'reports.newByMonth': 'New customers per month',
+  'reports.month': 'Month',
+  'reports.newCustomers': 'New customers',
+  'reports.byStatus': 'Distribution by status',
+  'reports.statusChanges': 'Status changes',
+  'reports.churn': 'Churn',
+  'reports.activeCustomers': 'Active customers',
+  'reports.becameInactive': 'Became inactive',
+  'reports.period': 'Period',
+  'reports.byMember': 'By team member',
+  'reports.createdInPeriod': 'Registered in the period',
+  'reports.total': 'Total',
+  'reports.churnInPeriod': 'Churn in the period',
+  'reports.noStatusChanges': 'No status changes in the period.',
+  'reports.churnSummary': '{churned} of {active} customers active in the period became inactive.',
+
+  'team.loadInvitesFailed': 'Failed to load invitations.',
+  'team.updateFailed': 'Failed to update the team.',
+  'team.inviteSent': 'Invitation sent to {email}.',
+  'team.transferConfirm': 'Transfer ownership of {company} to {name}? You will stay on the team as {role}.',
+  'team.transferred': '{name} is now the owner.',
+  'team.linkCopied': 'Invitation link copied.',
+  'team.copyFailed': 'Could not copy the link.',
+  'team.migrateConfirm': 'Standardize the phones of all customers (international E.164 format)?',
+  'team.migrated': '{count} phone(s) standardized.',
+  'team.migrateInvalid': '{count} not recognized: {names}',
+  'team.migrateFailedSaves': '{count} failed to save: {names} ({error})',
+  'team.migrateFailed': 'Failed to standardize phones.',
+  'team.title': 'Team • {company}',
+  'team.yourRole': 'Your role: {role}',
+  'team.members': 'Members',
+  'team.you': ' (you)',
+  'team.roleUpdated': 'Role updated.',
+  'team.makeOwner': 'Make owner',
+  'team.removeConfirm': 'Remove {name} from the team?',
+  'team.memberRemoved': 'Member removed.',
+  'team.inviteByEmail': 'Invite by email',
+  'team.invitePlaceholder': 'teammate@email.com',
+  'team.invite': 'Invite',
+  'team.expires': '{role} • expires on {date}',
+  'team.copyLink': 'Copy link',
+  'team.inviteRevoked': 'Invitation canceled.',
+  'team.maintenance': 'Database maintenance',
+  'team.migrateHint': 'Converts existing phones to the standard with area and country code.',
+  'team.migrate': 'Standardize phones',
+
+  'trash.hint': 'Deleted customers stay here and are permanently erased after the retention period (LGPD).',
+  'trash.deletedAt': 'Deleted on {date} • ',
+  'trash.purgePending': 'Permanent deletion pending',
+  'trash.daysLeft': 'Erased in {days} day(s)',
+  'trash.purge': 'Delete permanently',
+  'trash.empty': 'The trash is empty.',
+  'tasks.reopen': 'Reopen',
+  'tasks.statusOnComplete': 'Customer status on completion',
+  'tasks.keepStatus': 'Keep status',
+  'tasks.complete': 'Complete',
+  'tasks.removeConfirm': 'Delete the task "{title}"?',
+  'audit.empty': 'No events recorded.',
+  'audit.customerRemoved': 'Customer removed',
+  'conflict.title': 'Conflict • {name}',
+  'conflict.changedElsewhere': 'Changed on another device',
+  'conflict.changedAt': ' on {date}',
+  'conflict.remaining': ' • {count} conflicts',
+  'conflict.later': 'Decide later',
+  'conflict.keepMine': 'Keep all mine',
+  'conflict.keepTheirs': 'Keep all saved',
+  'conflict.merged': '{count} field(s) changed on only one side will be merged automatically.',
+  'conflict.mine': 'Your version',
+  'conflict.theirs': 'Saved version',
+  'conflict.apply': 'Apply choices',
+  'phone.copied': 'Number copied.',
+  'phone.copyFailed': 'Could not copy the number.',
+  'phone.whatsapp': 'Open WhatsApp chat',
+  'phone.call': 'Call',
+  'phone.copy': 'Copy number',
+  'privacy.loadFailed': 'Failed to load privacy records.',
+  'privacy.requestFailed': 'Failed to process the request.',
+  'privacy.basisRecorded': 'Legal basis recorded.',
+  'privacy.reportGenerated': 'Report generated.',
+  'privacy.anonymizeConfirm': 'Personal data (name, phone, email and notes) will be irreversibly erased. The record will still count in statistics. Confirm?',
+  'privacy.anonymized': 'Customer anonymized.',
+  'privacy.title': 'Privacy • {name}',
+  'privacy.subtitle': 'Data Subject Rights (LGPD)',
+  'privacy.access': 'Access and portability',
+  'privacy.reportJson': 'JSON report',
+  'privacy.reportPrint': 'Printable report',
+  'privacy.revokedAt': ' • Revoked on {date}',
+  'privacy.revoked': 'Consent revoked.',
+  'privacy.revoke': 'Revoke',
+  'privacy.purposePlaceholder': 'Purpose (e.g. sending promotions)',
+  'privacy.recordBasis': 'Record legal basis',
+  'privacy.anonymization': 'Anonymization',
+  'privacy.anonymizeHint': 'An alternative to deletion: erases name, phone, email and notes, keeping status and dates for statistics.',
+  'privacy.alreadyAnonymized': 'Record already anonymized',
+  'privacy.anonymize': 'Anonymize customer data',
+  'privacy.operations': 'Operations log',
+  'privacy.noOperations': 'No operations recorded.',
+};
@@ -0,0 +1,656 @@
+import type { MessageKey } from './pt-BR';
+
+export const ES: Record<MessageKey, string> = {
+  'app.loading': 'Autenticando sesión...',
+  'app.defaultCompany': 'Mi Empresa',
+  'app.settings': 'Configuración',
+  'app.logout': 'Salir',
+  'app.language': 'Idioma',
+  'app.logoutFailed': 'No se pudo cerrar la sesión. Recarga la página.',
+  'invite.acceptFailed': 'No se pudo aceptar la invitación.',
+
+  'common.processing': 'Procesando...',
+  'common.saving': 'Guardando...',
+  'common.save': 'Guardar',
+  'common.change': 'Cambiar',
+  'common.open': 'Abrir',
+  'common.cancel': 'Cancelar',
+  'common.undo': 'Deshacer',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.restore': 'Restaurar',
+  'common.history': 'Historial',
+  'common.message': 'Mensaje',
+  'common.export': 'Exportar',
+  'common.customers': 'Clientes',
+  'common.responsible': 'Responsable',
+  'common.responsibleName': 'Nombre del Responsable',
+  'common.loginEmail': 'Correo de Acceso',
+  'common.newPassword': 'Nueva Contraseña',
+  'common.remove': 'Quitar',
+  'common.add': 'Agregar',
+  'common.create': 'Crear',
+  'common.back': 'Volver',
+  'common.days': '{days} días',
+
+  'status.active': 'Activo',
+  'status.pending': 'Pendiente',
+  'status.inactive': 'Inactivo',
+  'sort.name': 'Nombre',
+  'sort.registrationDate': 'Fecha de inicio',
+  'sort.createdAt': 'Fecha de registro',
+  'period.thisMonth': 'Este mes',
+  'period.last30Days': 'Últimos 30 días',
+  'period.thisYear': 'Este año',
+  'contact.none': 'Sin contacto registrado',
+  'contact.today': 'Último contacto hoy',
+  'contact.yesterday': 'Último contacto ayer',
+  'contact.days': 'Último contacto hace {days} días',
+
+  'auth.loginTitle': 'Bienvenido',
+  'auth.signupTitle': 'Empieza Ahora',
+  'auth.tagline': 'Gestor de Clientes Pro • Cloud Sync',
+  'auth.invited': 'Te invitaron a un equipo. Crea tu acceso con el correo que recibió la invitación.',
+  'auth.companyName': 'Nombre de tu Empresa',
+  'auth.companyPlaceholder': 'Ej.: Salón de María',
+  'auth.responsiblePlaceholder': 'Tu nombre',
+  'auth.emailPlaceholder': 'tu@correo.com',
+  'auth.password': 'Contraseña Segura',
+  'auth.forgotPassword': 'Olvidé mi contraseña',
+  'auth.terms': 'Acepto el almacenamiento seguro de los datos conforme a la {law} y los términos de uso.',
+  'auth.submitLogin': 'Acceder al Panel',
+  'auth.submitSignup': 'Crear Mi Cuenta',
+  'auth.magicLink': 'Entrar con un enlace por correo',
+  'auth.unconfirmed': 'Confirma el registro con el enlace enviado a {email}.',
+  'auth.resend': 'Reenviar correo',
+  'auth.toSignup': '¿No tienes cuenta? Registra tu empresa',
+  'auth.toLogin': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.backToLogin': 'Volver al inicio de sesión',
+  'auth.footer': 'Protección de Datos Nivel Bancario',
+  'auth.resent': 'Correo de confirmación reenviado.',
+  'auth.resendFailed': 'No se pudo reenviar el correo.',
+  'auth.sendFailed': 'No se pudo enviar el correo.',
+  'auth.signedUp': '¡Registro completado! Si la confirmación por correo está activa, revisa tu bandeja de entrada.',
+  'auth.welcomeBack': '¡Bienvenido de nuevo!',
+  'auth.failed': 'Error al procesar la autenticación.',
+  'auth.recover.title': 'Recuperar Contraseña',
+  'auth.recover.hint': 'Te enviaremos un enlace para crear una nueva contraseña.',
+  'auth.recover.submit': 'Enviar Enlace de Recuperación',
+  'auth.recover.sent': 'Si existe una cuenta con este correo, el enlace para restablecer la contraseña llegará en instantes.',
+  'auth.magic.title': 'Entrar sin Contraseña',
+  'auth.magic.hint': 'Te enviaremos un enlace que abre el panel directamente, sin escribir la contraseña.',
+  'auth.magic.submit': 'Enviar Enlace de Acceso',
+  'auth.magic.sent': 'Enlace de acceso enviado. Abre el correo en este dispositivo para entrar.',
+
+  'reset.subtitle': 'Recuperación de acceso',
+  'reset.confirmation': 'Repite la Nueva Contraseña',
+  'reset.submit': 'Guardar Nueva Contraseña',
+  'reset.done': 'Contraseña restablecida con éxito.',
+  'reset.failed': 'No se pudo restablecer la contraseña.',
+
+  'customers.loadFailed': 'Error al cargar la lista de clientes.',
+  'customers.loadMoreFailed': 'Error al cargar más clientes.',
+  'customers.statActive': 'Activos',
+  'customers.statPending': 'Pendientes',
+  'customers.statInactive': 'Inactivos',
+  'customers.import': 'Importar CSV / XLSX / vCard',
+  'customers.export': 'Exportar (Portabilidad)',
+  'customers.tabResults': 'Resultados',
+  'customers.tabReports': 'Informes',
+  'customers.tabDuplicates': 'Duplicados',
+  'customers.tabTrash': 'Papelera',
+  'customers.tabAudit': 'Auditoría',
+  'customers.select': 'Seleccionar',
+  'customers.responsibleShort': 'Resp.: {name}',
+  'customers.taskBadge': '{count} tarea(s)',
+  'customers.taskBadgeOverdue': '{count} tarea(s) • atrasada',
+  'customers.since': 'Inicio: {date}',
+  'customers.privacy': 'Privacidad (LGPD)',
+  'customers.empty': 'No se encontraron registros.',
+  'customers.addFirst': 'Agregar el Primer Cliente',
+
+  'customer.loadFailed': 'Error al cargar el cliente.',
+  'customer.notFound': 'Cliente no encontrado. Puede haber sido eliminado definitivamente.',
+  'customer.inTrash': 'Este cliente está en la papelera.',
+  'customer.inTrashSince': 'Este cliente está en la papelera desde {date}.',
+  'customer.since': 'Inicio',
+  'customer.contact': 'Contacto',
+  'customer.privacy': 'Privacidad',
+  'customer.trashed': 'Cliente movido a la papelera.',
+  'customer.deleteFailed': 'Error al eliminar el registro.',
+  'customer.restored': 'Cliente restaurado.',
+  'customer.restoreFailed': 'Error al restaurar el registro.',
+  'customer.purged': 'Cliente eliminado permanentemente.',
+
+  'form.editTitle': 'Editar Cliente',
+  'form.newTitle': 'Nuevo Registro',
+  'form.isolation': 'Aislamiento Multiempresa Activo',
+  'form.name': 'Nombre Completo del Cliente',
+  'form.namePlaceholder': 'Nombre completo',
+  'form.phone': 'Teléfono / WhatsApp',
+  'form.phonePlaceholder': '(00) 00000-0000 o +1 ...',
+  'form.startDate': 'Fecha de Inicio',
+  'form.email': 'Correo de Contacto (Opcional)',
+  'form.emailPlaceholder': 'cliente@correo.com',
+  'form.status': 'Clasificación Actual',
+  'form.statusOption': 'Estado: {status}',
+  'form.firstNote': 'Primera Nota (va a la línea de tiempo)',
+  'form.notePlaceholder': 'Información adicional importante sobre el cliente...',
+  'form.submitEdit': 'Guardar Cambios',
+  'form.submitNew': 'Confirmar Registro',
+  'form.fixErrors': 'Corrige los campos resaltados.',
+  'form.savedOffline': 'Guardado en el dispositivo. Se sincronizará cuando vuelva la conexión.',
+  'form.saved': 'Cambios guardados con éxito.',
+  'form.conflict': 'Este cliente se modificó en otro dispositivo mientras lo editabas. Elige qué conservar.',
+  'form.saveFailed': 'No se pudo guardar el cliente. Inténtalo de nuevo.',
+
+  'filters.searchPlaceholder': 'Nombre, celular, correo o nota...',
+  'filters.toggle': 'Filtros',
+  'filters.viewPrompt': 'Nombre de la vista (ej.: Pendientes este mes):',
+  'filters.deleteViewConfirm': '¿Eliminar la vista "{name}"?',
+  'filters.saveView': '+ Guardar vista',
+  'filters.anyDate': 'Cualquier fecha de inicio',
+  'filters.customRange': 'Intervalo personalizado',
+  'filters.anyEmail': 'Con o sin correo',
+  'filters.withEmail': 'Con correo',
+  'filters.withoutEmail': 'Sin correo',
+  'filters.from': 'Inicio desde',
+  'filters.to': 'Inicio hasta',
+  'filters.allResponsible': 'Todos los responsables',
+  'filters.responsible': 'Responsable: {name}',
+  'filters.fieldAny': '{field}: cualquiera',
+  'filters.yes': 'Sí',
+  'filters.no': 'No',
+  'filters.sortBy': 'Ordenar: {label}',
+  'filters.oldestFirst': 'Más antiguos primero',
+  'filters.newestFirst': 'Más recientes primero',
+  'filters.clear': 'Limpiar filtros',
+
+  'views.saved': 'Vista "{name}" guardada.',
+  'views.saveFailed': 'Error al guardar la vista.',
+  'views.deleteFailed': 'Error al eliminar la vista.',
+  'export.empty': 'No hay datos para exportar.',
+
+  'bulk.progress': 'Procesando {done} de {total}...',
+  'bulk.selected': '{count} seleccionado(s)',
+  'bulk.selectAll': 'Seleccionar todos del filtro',
+  'bulk.clear': 'Limpiar',
+  'bulk.status': 'Estado',
+  'bulk.addTag': '+ Etiqueta',
+  'bulk.removeTag': '− Etiqueta',
+  'bulk.deleteConfirm': '¿Enviar {count} cliente(s) a la papelera?',
+  'bulk.verb.status': 'con estado cambiado',
+  'bulk.verb.tags': 'con etiquetas actualizadas',
+  'bulk.verb.responsible': 'con nuevo responsable',
+  'bulk.verb.delete': 'enviado(s) a la papelera',
+  'bulk.verb.restored': 'restaurado(s)',
+  'bulk.changed': '{count} cliente(s) {verb}.',
+  'bulk.unchanged': '{count} ya estaba(n) así.',
+  'bulk.failed': '{count} fallo(s): {names} ({error})',
+
+  'sync.pendingOne': '{count} cambio pendiente',
+  'sync.pendingMany': '{count} cambios pendientes',
+  'sync.error': 'Error de sincronización',
+  'sync.offline': 'Sin conexión',
+  'sync.offlinePending': 'Sin conexión • {pending}',
+  'sync.syncing': 'Sincronizando...',
+  'sync.synced': 'Sincronizado',
+  'sync.retry': 'Reintentar',
+  'sync.conflictOne': '{count} conflicto • Resolver',
+  'sync.conflictMany': '{count} conflictos • Resolver',
+  'sync.failedOne': '{count} cambio rechazado • Descartar',
+  'sync.failedMany': '{count} cambios rechazados • Descartar',
+
+  'trash.loadFailed': 'Error al cargar la papelera.',
+  'trash.purgeConfirm': 'Atención: los datos de este cliente se eliminarán permanentemente para cumplir con la LGPD. ¿Confirmar?',
+  'trash.purged': '{count} cliente(s) eliminado(s) de la papelera tras el plazo de retención.',
+  'trash.retentionChanged': 'Plazo de retención cambiado a {days} días.',
+  'trash.retentionFailed': 'Error al guardar la configuración.',
+
+  'settings.profile': 'Perfil y empresa',
+  'settings.profileHint': 'Nombres mostrados al equipo y en los registros',
+  'settings.companyName': 'Nombre de la Empresa',
+  'settings.access': 'Acceso',
+  'settings.accessHint': 'Correo de inicio de sesión y contraseña',
+  'settings.repeatPassword': 'Repite la Contraseña',
+  'settings.team': 'Equipo',
+  'settings.teamHint': '{count} miembro(s) • invitaciones y permisos',
+  'settings.schema': 'Campos y etiquetas',
+  'settings.schemaHint': '{fields} campo(s) • {tags} etiqueta(s)',
+  'settings.templates': 'Plantillas de mensaje',
+  'settings.templatesHint': 'Textos con campos combinados para WhatsApp y correo',
+  'settings.retention': 'Retención de la papelera',
+  'settings.retentionHint': 'Los clientes eliminados se borran definitivamente tras el plazo (LGPD).',
+  'settings.deleteAccount': 'Eliminar cuenta',
+  'settings.deleteAccountHint': 'Borra clientes, historial, tareas, equipo y la empresa. No se puede deshacer.',
+  'settings.deleteWarning': 'Exporta los clientes antes si necesitas guardar una copia. Los demás miembros pierden el acceso a esta empresa.',
+  'settings.deleteConfirmLabel': 'Escribe "{name}" para confirmar',
+  'settings.deleteForever': 'Eliminar definitivamente',
+  'settings.profileSaved': 'Perfil actualizado.',
+  'settings.profileFailed': 'Error al guardar el perfil.',
+  'settings.companySaved': 'Datos de la empresa actualizados.',
+  'settings.companyFailed': 'Error al guardar los datos de la empresa.',
+  'settings.emailSent': 'Enviamos un enlace de confirmación al nuevo correo.',
+  'settings.emailFailed': 'Error al cambiar el correo.',
+  'settings.passwordSaved': 'Contraseña cambiada con éxito.',
+  'settings.passwordFailed': 'Error al cambiar la contraseña.',
+  'settings.accountDeleted': 'Cuenta y datos de la empresa eliminados.',
+  'settings.accountDeleteFailed': 'Error al eliminar la cuenta.',
+
+  'conflict.resolved': 'Conflicto resuelto.',
+  'conflict.resolveFailed': 'Error al resolver el conflicto.',
+  'tasks.dueOne': 'Tarea vencida: {title} • {customer}',
+  'tasks.dueMany': '{count} tareas vencidas',
+  'tasks.agenda': 'Agenda',
+  'tasks.notification': 'Tarea: {title}',
+  'tasks.completed': 'Tarea completada.',
+  'tasks.completedAs': 'Tarea completada. {name} ahora está como {status}.',
+  'tasks.completeFailed': 'Error al completar la tarea.',
+  'tasks.removeFailed': 'Error al eliminar la tarea.',
+
+  'timeline.tasks': 'Tareas',
+  'timeline.taskPlaceholder': 'Ej.: Llamar para confirmar el presupuesto',
+  'timeline.assignSelf': 'Yo mismo(a)',
+  'timeline.schedule': 'Agendar',
+  'timeline.title': 'Línea de tiempo',
+  'timeline.contentPlaceholder': '¿Qué se conversó o acordó?',
+  'timeline.submit': 'Registrar',
+  'timeline.empty': 'No hay interacciones registradas.',
+  'timeline.edited': ' (editado)',
+  'timeline.previousRecord': 'Registro anterior',
+  'timeline.loadFailed': 'Error al cargar la línea de tiempo.',
+  'timeline.migrateFailed': 'No se pudieron mover las observaciones antiguas a la línea de tiempo.',
+  'timeline.saveFailed': 'Error al registrar la interacción.',
+  'timeline.removeConfirm': '¿Eliminar este registro de la línea de tiempo?',
+  'timeline.removeFailed': 'Error al eliminar la interacción.',
+  'timeline.taskFailed': 'Error al actualizar la tarea.',
+
+  'field.id': 'ID',
+  'field.name': 'Nombre',
+  'field.firstName': 'Nombre de pila',
+  'field.phone': 'Teléfono',
+  'field.phoneE164': 'Teléfono (E.164)',
+  'field.email': 'Correo electrónico',
+  'field.status': 'Estado',
+  'field.registrationDate': 'Fecha de inicio',
+  'field.observations': 'Observaciones',
+  'field.createdAt': 'Creado el',
+  'field.createdBy': 'Creado por',
+  'field.isDeleted': 'En la papelera',
+  'field.tags': 'Etiquetas',
+  'field.company': 'Empresa',
+  'role.owner': 'Propietario',
+  'role.manager': 'Gerente',
+  'role.attendant': 'Asistente',
+  'role.readonly': 'Solo lectura',
+  'audit.action.create': 'Alta',
+  'audit.action.update': 'Edición',
+  'audit.action.statusChange': 'Cambio de estado',
+  'audit.action.delete': 'Enviado a la papelera',
+  'audit.action.restore': 'Restaurado',
+  'audit.action.purge': 'Eliminación definitiva',
+  'audit.action.anonymize': 'Anonimización',
+  'audit.action.import': 'Importación',
+  'audit.action.export': 'Exportación',
+  'audit.action.merge': 'Fusión de duplicados',
+  'interaction.note': 'Nota',
+  'interaction.call': 'Llamada',
+  'interaction.whatsapp': 'WhatsApp',
+  'interaction.email': 'Correo',
+  'interaction.visit': 'Visita',
+  'interaction.purchase': 'Compra',
+  'customField.text': 'Texto',
+  'customField.number': 'Número',
+  'customField.date': 'Fecha',
+  'customField.select': 'Lista de opciones',
+  'customField.boolean': 'Sí / No',
+  'duplicates.reason.phone': 'Mismo teléfono',
+  'duplicates.reason.email': 'Mismo correo',
+  'duplicates.reason.name': 'Nombre parecido',
+  'lgpd.basis.consent': 'Consentimiento del titular',
+  'lgpd.basis.contract': 'Ejecución de contrato',
+  'lgpd.basis.legalObligation': 'Cumplimiento de obligación legal',
+  'lgpd.basis.legitimateInterest': 'Interés legítimo',
+  'lgpd.channel.inPerson': 'Presencial',
+  'lgpd.channel.onlineForm': 'Formulario en línea',
+  'lgpd.operation.accessReport': 'Informe de datos generado',
+  'lgpd.operation.anonymization': 'Datos anonimizados',
+  'lgpd.operation.erasure': 'Datos eliminados',
+  'lgpd.operation.consentGranted': 'Consentimiento registrado',
+  'lgpd.operation.consentRevoked': 'Consentimiento revocado',
+  'reports.preset3m': 'Últimos 3 meses',
+  'reports.preset6m': 'Últimos 6 meses',
+  'reports.preset12m': 'Últimos 12 meses',
+  'reports.formerMember': 'Ex miembro',
+
+  'validation.nameRequired': 'El nombre es obligatorio.',
+  'validation.emailInvalid': 'Correo electrónico no válido: "{email}".',
+  'validation.statusUnknown': 'Estado desconocido: "{status}" (use activo, inactivo o pendiente).',
+  'validation.startDateRequired': 'Indique la fecha de inicio.',
+  'validation.dateInvalid': 'Fecha no válida: "{date}" (use DD/MM/AAAA o AAAA-MM-DD).',
+  'validation.unknownTags': 'Etiqueta(s) no registrada(s): {tags}.',
+  'validation.phoneRequired': 'El teléfono es obligatorio.',
+  'validation.emailRequired': 'Indique un correo electrónico válido.',
+  'validation.passwordRequired': 'Indique la contraseña.',
+  'validation.passwordLength': 'La contraseña debe tener al menos {min} caracteres.',
+  'validation.passwordMismatch': 'Las contraseñas no coinciden.',
+  'validation.companyRequired': 'Indique el nombre de la empresa.',
+  'validation.responsibleRequired': 'Indique el nombre del responsable.',
+  'validation.termsRequired': 'Debe aceptar los términos de la LGPD.',
+  'validation.checkFields': 'Revise los campos destacados.',
+  'phone.internationalInvalid': 'Teléfono internacional no válido: "{phone}".',
+  'phone.areaCodeMissing': 'Indique el código de área del teléfono "{phone}".',
+  'phone.invalid': 'Teléfono no válido: "{phone}".',
+  'phone.areaCodeInvalid': 'Código de área no válido: {code}.',
+  'phone.mobileInvalid': 'Celular no válido: "{phone}".',
+  'customField.required': '{field} es obligatorio.',
+  'customField.notNumber': '{field}: "{value}" no es un número.',
+  'customField.invalidDate': '{field}: fecha no válida "{value}".',
+  'customField.notOption': '{field}: "{value}" no está entre las opciones.',
+  'customField.yesNo': '{field}: use Sí o No.',
+  'customField.optionsRequired': 'Indique al menos una opción para la lista.',
+  'customField.keyInvalid': 'Indique un nombre válido para el campo.',
+  'customField.exists': 'Ya existe un campo llamado "{label}".',
+  'errors.permission': 'No tiene permiso para esta acción.',
+  'errors.permissionAsk': 'No tiene permiso para esta acción. Pida acceso al responsable de la empresa.',
+  'errors.conflict': 'Este cliente fue modificado en otro dispositivo.',
+  'errors.deletedElsewhere': 'Este cliente fue eliminado en otro dispositivo.',
+  'errors.sessionExpired': 'Su sesión expiró. Inicie sesión de nuevo para continuar.',
+  'errors.emailInUse': 'Este correo ya lo utiliza otra empresa.',
+  'errors.weakPassword': 'La contraseña debe tener al menos 6 caracteres.',
+  'errors.invalidCredentials': 'Correo o contraseña incorrectos.',
+  'errors.emailNotConfirmed': 'Su cuenta aún no fue confirmada. Revise su correo.',
+  'errors.rateLimit': 'Demasiados intentos seguidos. Espere unos minutos e inténtelo de nuevo.',
+  'errors.emailRateLimit': 'Demasiados correos enviados a esta dirección. Espere unos minutos e inténtelo de nuevo.',
+  'errors.signupDisabled': 'Los nuevos registros están desactivados por el momento.',
+  'errors.otpDisabled': 'No hay cuenta con este correo. Registre su empresa primero.',
+  'errors.otpExpired': 'El enlace expiró o ya fue usado. Solicite uno nuevo.',
+  'errors.samePassword': 'La nueva contraseña debe ser distinta de la actual.',
+  'errors.duplicate': 'Ya existe un registro con estos datos.',
+  'errors.requiredFields': 'Complete todos los campos obligatorios.',
+  'errors.invalidFormat': 'Hay un valor con formato no válido.',
+  'errors.invalidDate': 'Fecha con formato no válido.',
+  'errors.dateOutOfRange': 'Fecha fuera del rango permitido.',
+  'errors.generic': 'Algo salió mal. Inténtelo de nuevo.',
+  'errors.network': 'Sin conexión con el servidor. Revise su internet e inténtelo de nuevo.',
+  'errors.unknown': 'Error desconocido',
+  'sync.failed': 'Error al sincronizar.',
+  'sync.alreadyResolved': 'Este conflicto ya fue resuelto.',
+  'account.ownerOnly': 'Solo el propietario puede eliminar la cuenta de la empresa.',
+  'account.confirmName': 'Escriba el nombre de la empresa exactamente como aparece.',
+  'account.deleteFailed': 'No se pudo eliminar la cuenta. No se borró ningún dato; inténtelo de nuevo.',
+  'account.signupFailed': 'No se pudo crear la cuenta. Inténtelo de nuevo.',
+  'account.authFailed': 'Error de autenticación.',
+  'account.magicLinkFailed': 'No se pudo enviar el enlace de acceso.',
+  'account.recoveryFailed': 'No se pudo enviar el correo de recuperación.',
+  'account.resendFailed': 'No se pudo reenviar el correo de confirmación.',
+  'account.passwordFailed': 'No se pudo cambiar la contraseña.',
+  'account.emailFailed': 'No se pudo cambiar el correo.',
+  'account.profileLoadFailed': 'Error de conexión al cargar el perfil.',
+  'account.profileSaveFailed': 'No se pudo guardar el perfil.',
+  'team.singleOwner': 'Cada empresa tiene un solo propietario.',
+  'team.singleOwnerTransfer': 'Cada empresa tiene un solo propietario. Use la transferencia de propiedad.',
+  'team.transferOwnerOnly': 'Solo el propietario puede transferir la empresa.',
+  'team.transferOtherMember': 'Elija otro miembro de esta empresa.',
+  'team.inviteExpired': 'Esta invitación expiró. Pida una nueva al responsable.',
+  'team.inviteOtherEmail': 'Esta invitación se envió a otro correo.',
+  'tasks.titleRequired': 'Indique el título de la tarea.',
+  'tasks.dueInvalid': 'Indique una fecha de vencimiento válida.',
+  'timeline.authorOnly': 'Solo quien registró la interacción puede modificarla.',
+  'timeline.contentRequired': 'Describa la interacción.',
+  'messages.bodyRequired': 'Escriba el texto del mensaje.',
+  'messages.nameRequired': 'Indique el nombre de la plantilla.',
+  'messages.nameExists': 'Ya existe una plantilla llamada "{name}".',
+  'export.noFields': 'Seleccione al menos un campo para exportar.',
+  'import.noRows': 'El archivo no tiene filas de datos.',
+  'import.repeatedRow': 'Fila repetida en el propio archivo.',
+  'import.categories': 'Categorías',
+  'import.otherContacts': 'Otros contactos: {contacts}',
+  'lgpd.popupBlocked': 'Permita ventanas emergentes para imprimir el informe.',
+  'lgpd.report.title': 'Informe de Datos del Titular',
+  'lgpd.report.heading': 'Informe de Datos Personales (LGPD, art. 18)',
+  'lgpd.report.meta': 'Responsable: {company} • Generado el {date} por {name}',
+  'lgpd.report.registration': 'Datos de registro',
+  'lgpd.report.consents': 'Bases legales y consentimientos',
+  'lgpd.report.legalBasis': 'Base legal',
+  'lgpd.report.consentColumns': 'Finalidad • Canal • Otorgado • Revocado',
+  'lgpd.report.interactions': 'Interacciones registradas',
+  'lgpd.report.history': 'Historial de operaciones',
+  'lgpd.report.by': '{label} por {name}',
+  'lgpd.report.empty': 'Ningún registro.',
+  'lgpd.report.identifier': 'Identificador',
+  'lgpd.report.createdAt': 'Registrado el',
+  'lgpd.report.anonymizedAt': 'Anonimizado el',
+
+  'agenda.overdue': 'Atrasadas',
+  'agenda.today': 'Hoy',
+  'agenda.upcoming': 'Próximas',
+  'agenda.mine': 'Mías',
+  'agenda.team': 'Del equipo',
+  'agenda.enableNotifications': 'Activar notificaciones',
+  'agenda.empty': 'No hay tareas pendientes. Cree tareas en la ficha del cliente.',
+  'audit.loadFailed': 'Error al cargar la auditoría.',
+  'audit.allUsers': 'Todos los usuarios',
+  'audit.allActions': 'Todas las acciones',
+  'audit.from': 'Desde',
+  'audit.to': 'Hasta',
+  'history.title': 'Historial • {name}',
+  'history.subtitle': 'Quién cambió qué y cuándo',
+  'history.loadFailed': 'Error al cargar el historial.',
+  'duplicates.possible': 'Posible registro duplicado',
+  'duplicates.more': '+{count} más',
+  'duplicates.loadFailed': 'Error al cargar los clientes.',
+  'duplicates.groups': 'Posibles duplicados: {count} grupo(s)',
+  'duplicates.empty': 'No se encontraron registros duplicados.',
+  'duplicates.linked': 'Vinculado a otro del grupo',
+  'duplicates.merge': 'Fusionar {count} registros',
+  'duplicates.merged': 'Registros fusionados en "{name}".',
+
+  'schema.saveFailed': 'Error al guardar la configuración.',
+  'schema.fieldCreated': 'Campo "{label}" creado.',
+  'schema.fieldUpdated': 'Campo actualizado.',
+  'schema.fieldRemoved': 'Campo eliminado.',
+  'schema.tagCreated': 'Etiqueta "{name}" creada.',
+  'schema.tagRemoved': 'Etiqueta eliminada.',
+  'schema.subtitle': 'Personalice el registro de su empresa',
+  'schema.customFields': 'Campos personalizados',
+  'schema.required': 'Obligatorio',
+  'schema.onCard': 'En la tarjeta',
+  'schema.showOnCard': 'Mostrar en la tarjeta',
+  'schema.removeFieldConfirm': '¿Quitar el campo "{label}"? Los valores ya completados dejarán de mostrarse.',
+  'schema.fieldPlaceholder': 'Ej.: Cumpleaños, DNI, Servicio preferido',
+  'schema.optionsPlaceholder': 'Opciones separadas por comas',
+  'schema.removeTag': 'Quitar etiqueta',
+  'schema.removeTagConfirm': '¿Quitar la etiqueta "{name}"?',
+  'schema.tagPlaceholder': 'Ej.: VIP, Moroso',
+
+  'export.formatVcard': 'vCard (contactos)',
+  'export.done': '{format} generado con {count} cliente(s).',
+  'export.failed': 'Error al generar el archivo.',
+  'export.scopeFiltered': 'Resultado de la búsqueda',
+  'export.scopeSelected': 'Selección manual',
+  'export.scopeAll': 'Todos los clientes',
+  'export.title': 'Exportar Clientes',
+  'export.subtitle': 'Portabilidad de Datos',
+  'export.what': 'Qué exportar',
+  'export.format': 'Formato',
+  'export.delimiter': 'Separador',
+  'export.semicolon': 'Punto y coma (Excel en Brasil)',
+  'export.comma': 'Coma (estándar internacional)',
+  'export.version': 'Versión',
+  'export.vcardCompatible': '3.0 (compatible con la mayoría de los celulares)',
+  'export.vcardHint': 'Cada cliente se convierte en un contacto con nombre, teléfono, correo, observaciones y etiquetas.',
+  'export.fields': 'Campos',
+  'export.submit': 'Exportar {count} cliente(s)',
+
+  'export.formatCsv': 'CSV',
+  'export.formatJson': 'JSON',
+  'export.formatXlsx': 'Excel (XLSX)',
+
+  'import.actionCreate': 'Crear',
+  'import.actionUpdate': 'Actualizar',
+  'import.actionSkip': 'Omitir',
+  'import.withErrors': 'Con error',
+  'import.readFailed': 'No se pudo leer el archivo.',
+  'import.done': 'Importación finalizada: {created} creados, {updated} actualizados.',
+  'import.doneWithFailures': 'Importación finalizada: {created} creados, {updated} actualizados, {failed} con error (filas {lines}).',
+  'import.failed': 'Error al importar clientes.',
+  'import.title': 'Importar Clientes',
+  'import.stepUpload': 'CSV, XLSX o vCard',
+  'import.stepMapping': 'Asignación de columnas',
+  'import.stepPreview': 'Vista previa (todavía no se guardó nada)',
+  'import.selectFile': 'Seleccione un archivo .csv, .xlsx, .xls o .vcf',
+  'import.headerHint': 'En las planillas, la primera fila debe contener los títulos de las columnas',
+  'import.dontImport': '— No importar —',
+  'import.column': 'Columna {number}',
+  'import.existing': 'Clientes ya registrados (mismo teléfono o correo)',
+  'import.updateExisting': 'Actualizar registro existente',
+  'import.skipRow': 'Omitir fila',
+  'import.createNew': 'Crear nuevo registro',
+  'import.mapRequired': 'Asigne: {fields}',
+  'import.preview': 'Vista previa',
+  'import.row': 'Fila {line}',
+  'import.matches': 'Corresponde a: {name}',
+  'import.progress': '{done} de {total}',
+  'import.submit': 'Confirmar Importación ({count})',
+
+  'merge.confirm': '¿Fusionar {count} registros en uno solo? Los demás irán a la papelera.',
+  'merge.failed': 'Error al fusionar registros.',
+  'merge.title': 'Fusionar registros',
+  'merge.subtitle': 'Elija el valor de cada campo',
+  'merge.primary': 'Registro conservado (mantiene el historial)',
+  'merge.since': 'desde {date}',
+  'merge.oldest': '(la más antigua)',
+  'merge.merging': 'Fusionando...',
+
+  'messages.loadFailed': 'Error al cargar las plantillas.',
+  'messages.logFailed': 'El mensaje para {name} no se registró.',
+  'messages.titleOne': 'Mensaje • {name}',
+  'messages.titleMany': 'Mensaje para {count} clientes',
+  'messages.subtitle': 'Cada envío queda registrado en la línea de tiempo',
+  'messages.freeText': 'Mensaje libre',
+  'messages.recipients': '{count} destinatario(s)',
+  'messages.leftOutPhone': ' • {count} sin teléfono válido quedan fuera',
+  'messages.leftOutEmail': ' • {count} sin correo quedan fuera',
+  'messages.start': 'Iniciar envío',
+  'messages.continue': 'Continuar',
+  'messages.position': 'Mensaje {position} de {total}',
+  'messages.open': 'Abrir {channel}',
+  'messages.skip': 'Omitir',
+  'messages.done': 'Envío finalizado',
+  'messages.summary': '{sent} mensaje(s) abierto(s) y registrado(s) • {skipped} omitido(s)',
+  'messages.finish': 'Finalizar',
+  'messages.subjectPlaceholder': 'Asunto del correo',
+  'messages.bodyPlaceholder': 'Hola {{first_name}}, ¿cómo está?',
+  'messages.insertField': 'Insertar {token}',
+
+  'templates.saveFailed': 'Error al guardar la plantilla.',
+  'templates.updated': 'Plantilla actualizada.',
+  'templates.created': 'Plantilla "{name}" creada.',
+  'templates.removed': 'Plantilla eliminada.',
+  'templates.removeConfirm': '¿Quitar la plantilla "{name}"?',
+  'templates.subtitle': 'Textos listos para WhatsApp y correo',
+  'templates.empty': 'No hay plantillas registradas.',
+  'templates.edit': 'Editar plantilla',
+  'templates.new': 'Nueva plantilla',
+  'templates.namePlaceholder': 'Ej.: Recordatorio de regreso',
+
+  'reports.loadFailed': 'Error al cargar los informes.',
+  'reports.newByMonth': 'Nuevos clientes por mes',
+  'reports.month': 'Mes',
+  'reports.newCustomers': 'Nuevos clientes',
+  'reports.byStatus': 'Distribución por estado',
+  'reports.statusChanges': 'Cambios de estado',
+  'reports.churn': 'Churn',
+  'reports.activeCustomers': 'Clientes activos',
+  'reports.becameInactive': 'Pasaron a inactivo',
+  'reports.period': 'Período',
+  'reports.byMember': 'Por miembro del equipo',
+  'reports.createdInPeriod': 'Registrados en el período',
+  'reports.total': 'Total',
+  'reports.churnInPeriod': 'Churn en el período',
+  'reports.noStatusChanges': 'Ningún cambio de estado en el período.',
+  'reports.churnSummary': '{churned} de {active} clientes activos en el período pasaron a inactivos.',
+
+  'team.loadInvitesFailed': 'Error al cargar las invitaciones.',
+  'team.updateFailed': 'Error al actualizar el equipo.',
+  'team.inviteSent': 'Invitación enviada a {email}.',
+  'team.transferConfirm': '¿Transferir la propiedad de {company} a {name}? Seguirá en el equipo como {role}.',
+  'team.transferred': '{name} ahora es el propietario.',
+  'team.linkCopied': 'Enlace de la invitación copiado.',
+  'team.copyFailed': 'No se pudo copiar el enlace.',
+  'team.migrateConfirm': '¿Estandarizar los teléfonos de todos los clientes (formato internacional E.164)?',
+  'team.migrated': '{count} teléfono(s) estandarizado(s).',
+  'team.migrateInvalid': '{count} no reconocido(s): {names}',
+  'team.migrateFailedSaves': '{count} error(es) al guardar: {names} ({error})',
+  'team.migrateFailed': 'Error al estandarizar los teléfonos.',
+  'team.title': 'Equipo • {company}',
+  'team.yourRole': 'Su rol: {role}',
+  'team.members': 'Miembros',
+  'team.you': ' (usted)',
+  'team.roleUpdated': 'Rol actualizado.',
+  'team.makeOwner': 'Hacer propietario',
+  'team.removeConfirm': '¿Quitar a {name} del equipo?',
+  'team.memberRemoved': 'Miembro eliminado.',
+  'team.inviteByEmail': 'Invitar por correo',
+  'team.invitePlaceholder': 'colaborador@email.com',
+  'team.invite': 'Invitar',
+  'team.expires': '{role} • vence el {date}',
+  'team.copyLink': 'Copiar enlace',
+  'team.inviteRevoked': 'Invitación cancelada.',
+  'team.maintenance': 'Mantenimiento de la base',
+  'team.migrateHint': 'Convierte los teléfonos ya registrados al estándar con código de área y de país.',
+  'team.migrate': 'Estandarizar teléfonos',
+
+  'trash.hint': 'Los clientes eliminados quedan aquí y se borran definitivamente tras el plazo de retención (LGPD).',
+  'trash.deletedAt': 'Eliminado el {date} • ',
+  'trash.purgePending': 'Eliminación definitiva pendiente',
+  'trash.daysLeft': 'Se borra en {days} día(s)',
+  'trash.purge': 'Eliminar definitivamente',
+  'trash.empty': 'La papelera está vacía.',
+  'tasks.reopen': 'Reabrir',
+  'tasks.statusOnComplete': 'Estado del cliente al completar',
+  'tasks.keepStatus': 'Mantener estado',
+  'tasks.complete': 'Completar',
+  'tasks.removeConfirm': '¿Eliminar la tarea "{title}"?',
+  'audit.empty': 'Ningún evento registrado.',
+  'audit.customerRemoved': 'Cliente eliminado',
+  'conflict.title': 'Conflicto • {name}',
+  'conflict.changedElsewhere': 'Modificado en otro dispositivo',
+  'conflict.changedAt': ' el {date}',
+  'conflict.remaining': ' • {count} conflictos',
+  'conflict.later': 'Decidir después',
+  'conflict.keepMine': 'Mantener todas las mías',
+  'conflict.keepTheirs': 'Mantener todas las guardadas',
+  'conflict.merged': '{count} campo(s) modificado(s) solo en un lado se combinarán automáticamente.',
+  'conflict.mine': 'Su versión',
+  'conflict.theirs': 'Versión guardada',
+  'conflict.apply': 'Aplicar elecciones',
+  'phone.copied': 'Número copiado.',
+  'phone.copyFailed': 'No se pudo copiar el número.',
+  'phone.whatsapp': 'Abrir chat de WhatsApp',
+  'phone.call': 'Llamar',
+  'phone.copy': 'Copiar número',
+  'privacy.loadFailed': 'Error al cargar los registros de privacidad.',
+  'privacy.requestFailed': 'Error al procesar la solicitud.',
+  'privacy.basisRecorded': 'Base legal registrada.',
+  'privacy.reportGenerated': 'Informe generado.',
+  'privacy.anonymizeConfirm': 'Los datos personales (nombre, teléfono, correo y notas) se borrarán de forma irreversible. El registro seguirá contando en las estadísticas. ¿Confirmar?',
+  'privacy.anonymized': 'Cliente anonimizado.',
+  'privacy.title': 'Privacidad • {name}',
+  'privacy.subtitle': 'Derechos del Titular (LGPD)',
+  'privacy.access': 'Acceso y portabilidad',
+  'privacy.reportJson': 'Informe JSON',
+  'privacy.reportPrint': 'Informe para imprimir',
+  'privacy.revokedAt': ' • Revocado el {date}',
+  'privacy.revoked': 'Consentimiento revocado.',
+  'privacy.revoke': 'Revocar',
+  'privacy.purposePlaceholder': 'Finalidad (ej.: envío de promociones)',
+  'privacy.recordBasis': 'Registrar base legal',
+  'privacy.anonymization': 'Anonimización',
+  'privacy.anonymizeHint': 'Alternativa a la eliminación: borra nombre, teléfono, correo y notas, manteniendo estado y fechas para las estadísticas.',
+  'privacy.alreadyAnonymized': 'Registro ya anonimizado',
+  'privacy.anonymize': 'Anonimizar datos del cliente',
+  'privacy.operations': 'Registro de operaciones',
+  'privacy.noOperations': 'Ninguna operación registrada.',
+};
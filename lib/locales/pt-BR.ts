@@ -0,0 +1,657 @@
+// Catálogo de origem: as chaves daqui definem MessageKey e os demais idiomas precisam ter todas
+export const PT_BR = {
+  'app.loading': 'Autenticando sessão...',
+  'app.defaultCompany': 'Minha Empresa',
+  'app.settings': 'Configurações',
+  'app.logout': 'Sair',
+  'app.language': 'Idioma',
+  'app.logoutFailed': 'Falha ao sair. Recarregue a página.',
+  'invite.acceptFailed': 'Não foi possível aceitar o convite.',
+
+  'common.processing': 'Processando...',
+  'common.saving': 'Salvando...',
+  'common.save': 'Salvar',
+  'common.change': 'Alterar',
+  'common.open': 'Abrir',
+  'common.cancel': 'Cancelar',
+  'common.undo': 'Desfazer',
+  'common.edit': 'Editar',
+  'common.delete': 'Excluir',
+  'common.restore': 'Restaurar',
+  'common.history': 'Histórico',
+  'common.message': 'Mensagem',
+  'common.export': 'Exportar',
+  'common.customers': 'Clientes',
+  'common.responsible': 'Responsável',
+  'common.responsibleName': 'Nome do Responsável',
+  'common.loginEmail': 'E-mail de Acesso',
+  'common.newPassword': 'Nova Senha',
+  'common.remove': 'Remover',
+  'common.add': 'Adicionar',
+  'common.create': 'Criar',
+  'common.back': 'Voltar',
+  'common.days': '{days} dias',
+
+  'status.active': 'Ativo',
+  'status.pending': 'Pendente',
+  'status.inactive': 'Inativo',
+  'sort.name': 'Nome',
+  'sort.registrationDate': 'Data de início',
+  'sort.createdAt': 'Data de cadastro',
+  'period.thisMonth': 'Este mês',
+  'period.last30Days': 'Últimos 30 dias',
+  'period.thisYear': 'Este ano',
+  'contact.none': 'Sem contato registrado',
+  'contact.today': 'Último contato hoje',
+  'contact.yesterday': 'Último contato ontem',
+  'contact.days': 'Último contato há {days} dias',
+
+  'auth.loginTitle': 'Bem-vindo',
+  'auth.signupTitle': 'Comece Agora',
+  'auth.tagline': 'Gestor de Clientes Pro • Cloud Sync',
+  'auth.invited': 'Você foi convidado para uma equipe. Crie seu acesso com o e-mail que recebeu o convite.',
+  'auth.companyName': 'Nome da sua Empresa',
+  'auth.companyPlaceholder': 'Ex: Salão da Maria',
+  'auth.responsiblePlaceholder': 'Seu nome',
+  'auth.emailPlaceholder': 'seu@email.com',
+  'auth.password': 'Senha Segura',
+  'auth.forgotPassword': 'Esqueci minha senha',
+  'auth.terms': 'Concordo com o armazenamento seguro dos dados conforme a {law} e termos de uso.',
+  'auth.submitLogin': 'Acessar Painel',
+  'auth.submitSignup': 'Criar Minha Conta',
+  'auth.magicLink': 'Entrar com link por e-mail',
+  'auth.unconfirmed': 'Confirme o cadastro pelo link enviado para {email}.',
+  'auth.resend': 'Reenviar e-mail',
+  'auth.toSignup': 'Não tem conta? Cadastrar empresa',
+  'auth.toLogin': 'Já possui conta? Fazer Login',
+  'auth.backToLogin': 'Voltar para o login',
+  'auth.footer': 'Proteção de Dados Nível Bancário',
+  'auth.resent': 'E-mail de confirmação reenviado.',
+  'auth.resendFailed': 'Não foi possível reenviar o e-mail.',
+  'auth.sendFailed': 'Não foi possível enviar o e-mail.',
+  'auth.signedUp': 'Cadastro realizado! Se o e-mail de confirmação estiver ativo, verifique sua caixa de entrada.',
+  'auth.welcomeBack': 'Bem-vindo de volta!',
+  'auth.failed': 'Erro ao processar autenticação.',
+  'auth.recover.title': 'Recuperar Senha',
+  'auth.recover.hint': 'Enviaremos um link para você criar uma nova senha.',
+  'auth.recover.submit': 'Enviar Link de Recuperação',
+  'auth.recover.sent': 'Se houver uma conta com este e-mail, o link para redefinir a senha chegará em instantes.',
+  'auth.magic.title': 'Entrar sem Senha',
+  'auth.magic.hint': 'Enviaremos um link que abre o painel direto, sem digitar a senha.',
+  'auth.magic.submit': 'Enviar Link de Acesso',
+  'auth.magic.sent': 'Link de acesso enviado. Abra o e-mail neste dispositivo para entrar.',
+
+  'reset.subtitle': 'Recuperação de acesso',
+  'reset.confirmation': 'Repita a Nova Senha',
+  'reset.submit': 'Salvar Nova Senha',
+  'reset.done': 'Senha redefinida com sucesso.',
+  'reset.failed': 'Não foi possível redefinir a senha.',
+
+  'customers.loadFailed': 'Falha ao carregar lista de clientes.',
+  'customers.loadMoreFailed': 'Falha ao carregar mais clientes.',
+  'customers.statActive': 'Ativos',
+  'customers.statPending': 'Pendentes',
+  'customers.statInactive': 'Inativos',
+  'customers.import': 'Importar CSV / XLSX / vCard',
+  'customers.export': 'Exportar (Portabilidade)',
+  'customers.tabResults': 'Resultados',
+  'customers.tabReports': 'Relatórios',
+  'customers.tabDuplicates': 'Duplicados',
+  'customers.tabTrash': 'Lixeira',
+  'customers.tabAudit': 'Auditoria',
+  'customers.select': 'Selecionar',
+  'customers.responsibleShort': 'Resp.: {name}',
+  'customers.taskBadge': '{count} tarefa(s)',
+  'customers.taskBadgeOverdue': '{count} tarefa(s) • atrasada',
+  'customers.since': 'Início: {date}',
+  'customers.privacy': 'Privacidade (LGPD)',
+  'customers.empty': 'Nenhum registro encontrado.',
+  'customers.addFirst': 'Adicionar Primeiro Cliente',
+
+  'customer.loadFailed': 'Falha ao carregar cliente.',
+  'customer.notFound': 'Cliente não encontrado. Ele pode ter sido excluído definitivamente.',
+  'customer.inTrash': 'Este cliente está na lixeira.',
+  'customer.inTrashSince': 'Este cliente está na lixeira desde {date}.',
+  'customer.since': 'Início',
+  'customer.contact': 'Contato',
+  'customer.privacy': 'Privacidade',
+  'customer.trashed': 'Cliente movido para a lixeira.',
+  'customer.deleteFailed': 'Falha ao deletar registro.',
+  'customer.restored': 'Cliente restaurado.',
+  'customer.restoreFailed': 'Falha ao restaurar registro.',
+  'customer.purged': 'Cliente excluído permanentemente.',
+
+  'form.editTitle': 'Editar Cliente',
+  'form.newTitle': 'Novo Cadastro',
+  'form.isolation': 'Isolamento Multi-empresa Ativo',
+  'form.name': 'Nome Completo do Cliente',
+  'form.namePlaceholder': 'Nome completo',
+  'form.phone': 'Telefone / WhatsApp',
+  'form.phonePlaceholder': '(00) 00000-0000 ou +1 ...',
+  'form.startDate': 'Data de Início',
+  'form.email': 'E-mail para Contato (Opcional)',
+  'form.emailPlaceholder': 'cliente@email.com',
+  'form.status': 'Classificação Atual',
+  'form.statusOption': 'Status: {status}',
+  'form.firstNote': 'Primeira Anotação (vai para a linha do tempo)',
+  'form.notePlaceholder': 'Informações adicionais importantes sobre o cliente...',
+  'form.submitEdit': 'Salvar Alterações',
+  'form.submitNew': 'Confirmar Cadastro',
+  'form.fixErrors': 'Corrija os campos destacados.',
+  'form.savedOffline': 'Salvo no dispositivo. Será sincronizado quando a conexão voltar.',
+  'form.saved': 'Alterações salvas com sucesso.',
+  'form.conflict': 'Este cliente foi alterado em outro dispositivo enquanto você editava. Escolha o que manter.',
+  'form.saveFailed': 'Não foi possível salvar o cliente. Tente novamente.',
+
+  'filters.searchPlaceholder': 'Nome, celular, e-mail ou anotação...',
+  'filters.toggle': 'Filtros',
+  'filters.viewPrompt': 'Nome da visão (ex: Pendentes este mês):',
+  'filters.deleteViewConfirm': 'Excluir a visão "{name}"?',
+  'filters.saveView': '+ Salvar visão',
+  'filters.anyDate': 'Qualquer data de início',
+  'filters.customRange': 'Intervalo personalizado',
+  'filters.anyEmail': 'Com ou sem e-mail',
+  'filters.withEmail': 'Com e-mail',
+  'filters.withoutEmail': 'Sem e-mail',
+  'filters.from': 'Início a partir de',
+  'filters.to': 'Início até',
+  'filters.allResponsible': 'Todos os responsáveis',
+  'filters.responsible': 'Responsável: {name}',
+  'filters.fieldAny': '{field}: qualquer',
+  'filters.yes': 'Sim',
+  'filters.no': 'Não',
+  'filters.sortBy': 'Ordenar: {label}',
+  'filters.oldestFirst': 'Mais antigos primeiro',
+  'filters.newestFirst': 'Mais recentes primeiro',
+  'filters.clear': 'Limpar filtros',
+
+  'views.saved': 'Visão "{name}" salva.',
+  'views.saveFailed': 'Falha ao salvar visão.',
+  'views.deleteFailed': 'Falha ao excluir visão.',
+  'export.empty': 'Não há dados para exportar.',
+
+  'bulk.progress': 'Processando {done} de {total}...',
+  'bulk.selected': '{count} selecionado(s)',
+  'bulk.selectAll': 'Selecionar todos do filtro',
+  'bulk.clear': 'Limpar',
+  'bulk.status': 'Status',
+  'bulk.addTag': '+ Etiqueta',
+  'bulk.removeTag': '− Etiqueta',
+  'bulk.deleteConfirm': 'Enviar {count} cliente(s) para a lixeira?',
+  'bulk.verb.status': 'com status alterado',
+  'bulk.verb.tags': 'com etiquetas atualizadas',
+  'bulk.verb.responsible': 'com novo responsável',
+  'bulk.verb.delete': 'enviado(s) para a lixeira',
+  'bulk.verb.restored': 'restaurado(s)',
+  'bulk.changed': '{count} cliente(s) {verb}.',
+  'bulk.unchanged': '{count} já estava(m) assim.',
+  'bulk.failed': '{count} falha(s): {names} ({error})',
+
+  'sync.pendingOne': '{count} alteração pendente',
+  'sync.pendingMany': '{count} alterações pendentes',
+  'sync.error': 'Erro de sincronização',
+  'sync.offline': 'Offline',
+  'sync.offlinePending': 'Offline • {pending}',
+  'sync.syncing': 'Sincronizando...',
+  'sync.synced': 'Sincronizado',
+  'sync.retry': 'Tentar novamente',
+  'sync.conflictOne': '{count} conflito • Resolver',
+  'sync.conflictMany': '{count} conflitos • Resolver',
+  'sync.failedOne': '{count} alteração recusada • Dispensar',
+  'sync.failedMany': '{count} alterações recusadas • Dispensar',
+
+  'trash.loadFailed': 'Falha ao carregar a lixeira.',
+  'trash.purgeConfirm': 'Atenção: Os dados deste cliente serão removidos permanentemente para atender à LGPD. Confirmar?',
+  'trash.purged': '{count} cliente(s) removido(s) da lixeira após o prazo de retenção.',
+  'trash.retentionChanged': 'Prazo de retenção alterado para {days} dias.',
+  'trash.retentionFailed': 'Falha ao salvar configuração.',
+
+  'settings.profile': 'Perfil e empresa',
+  'settings.profileHint': 'Nomes exibidos para a equipe e nos registros',
+  'settings.companyName': 'Nome da Empresa',
+  'settings.access': 'Acesso',
+  'settings.accessHint': 'E-mail de login e senha',
+  'settings.repeatPassword': 'Repita a Senha',
+  'settings.team': 'Equipe',
+  'settings.teamHint': '{count} membro(s) • convites e permissões',
+  'settings.schema': 'Campos e etiquetas',
+  'settings.schemaHint': '{fields} campo(s) • {tags} etiqueta(s)',
+  'settings.templates': 'Modelos de mensagem',
+  'settings.templatesHint': 'Textos com campos de mesclagem para WhatsApp e e-mail',
+  'settings.retention': 'Retenção da lixeira',
+  'settings.retentionHint': 'Clientes excluídos são apagados definitivamente após o prazo (LGPD).',
+  'settings.deleteAccount': 'Excluir conta',
+  'settings.deleteAccountHint': 'Apaga clientes, histórico, tarefas, equipe e a empresa. Não pode ser desfeito.',
+  'settings.deleteWarning': 'Exporte os clientes antes se precisar guardar uma cópia. Os demais membros perdem o acesso a esta empresa.',
+  'settings.deleteConfirmLabel': 'Digite "{name}" para confirmar',
+  'settings.deleteForever': 'Excluir definitivamente',
+  'settings.profileSaved': 'Perfil atualizado.',
+  'settings.profileFailed': 'Falha ao salvar o perfil.',
+  'settings.companySaved': 'Dados da empresa atualizados.',
+  'settings.companyFailed': 'Falha ao salvar os dados da empresa.',
+  'settings.emailSent': 'Enviamos um link de confirmação para o novo e-mail.',
+  'settings.emailFailed': 'Falha ao alterar o e-mail.',
+  'settings.passwordSaved': 'Senha alterada com sucesso.',
+  'settings.passwordFailed': 'Falha ao alterar a senha.',
+  'settings.accountDeleted': 'Conta e dados da empresa excluídos.',
+  'settings.accountDeleteFailed': 'Falha ao excluir a conta.',
+
+  'conflict.resolved': 'Conflito resolvido.',
+  'conflict.resolveFailed': 'Falha ao resolver conflito.',
+  'tasks.dueOne': 'Tarefa vencida: {title} • {customer}',
+  'tasks.dueMany': '{count} tarefas vencidas',
+  'tasks.agenda': 'Agenda',
+  'tasks.notification': 'Tarefa: {title}',
+  'tasks.completed': 'Tarefa concluída.',
+  'tasks.completedAs': 'Tarefa concluída. {name} agora está como {status}.',
+  'tasks.completeFailed': 'Falha ao concluir tarefa.',
+  'tasks.removeFailed': 'Falha ao excluir tarefa.',
+
+  'timeline.tasks': 'Tarefas',
+  'timeline.taskPlaceholder': 'Ex: Ligar para confirmar orçamento',
+  'timeline.assignSelf': 'Eu mesmo(a)',
+  'timeline.schedule': 'Agendar',
+  'timeline.title': 'Linha do tempo',
+  'timeline.contentPlaceholder': 'O que foi conversado ou combinado?',
+  'timeline.submit': 'Registrar',
+  'timeline.empty': 'Nenhuma interação registrada.',
+  'timeline.edited': ' (editado)',
+  'timeline.previousRecord': 'Cadastro anterior',
+  'timeline.loadFailed': 'Falha ao carregar a linha do tempo.',
+  'timeline.migrateFailed': 'Não foi possível mover as observações antigas para a linha do tempo.',
+  'timeline.saveFailed': 'Falha ao registrar interação.',
+  'timeline.removeConfirm': 'Excluir este registro da linha do tempo?',
+  'timeline.removeFailed': 'Falha ao excluir interação.',
+  'timeline.taskFailed': 'Falha ao atualizar tarefa.',
+
+  'field.id': 'ID',
+  'field.name': 'Nome',
+  'field.firstName': 'Primeiro nome',
+  'field.phone': 'Telefone',
+  'field.phoneE164': 'Telefone (E.164)',
+  'field.email': 'E-mail',
+  'field.status': 'Status',
+  'field.registrationDate': 'Data de início',
+  'field.observations': 'Observações',
+  'field.createdAt': 'Criado em',
+  'field.createdBy': 'Criado por',
+  'field.isDeleted': 'Na lixeira',
+  'field.tags': 'Etiquetas',
+  'field.company': 'Empresa',
+  'role.owner': 'Proprietário',
+  'role.manager': 'Gerente',
+  'role.attendant': 'Atendente',
+  'role.readonly': 'Somente leitura',
+  'audit.action.create': 'Cadastro',
+  'audit.action.update': 'Edição',
+  'audit.action.statusChange': 'Mudança de status',
+  'audit.action.delete': 'Enviado à lixeira',
+  'audit.action.restore': 'Restaurado',
+  'audit.action.purge': 'Exclusão definitiva',
+  'audit.action.anonymize': 'Anonimização',
+  'audit.action.import': 'Importação',
+  'audit.action.export': 'Exportação',
+  'audit.action.merge': 'Mesclagem de duplicados',
+  'interaction.note': 'Anotação',
+  'interaction.call': 'Ligação',
+  'interaction.whatsapp': 'WhatsApp',
+  'interaction.email': 'E-mail',
+  'interaction.visit': 'Visita',
+  'interaction.purchase': 'Compra',
+  'customField.text': 'Texto',
+  'customField.number': 'Número',
+  'customField.date': 'Data',
+  'customField.select': 'Lista de opções',
+  'customField.boolean': 'Sim / Não',
+  'duplicates.reason.phone': 'Mesmo telefone',
+  'duplicates.reason.email': 'Mesmo e-mail',
+  'duplicates.reason.name': 'Nome parecido',
+  'lgpd.basis.consent': 'Consentimento do titular',
+  'lgpd.basis.contract': 'Execução de contrato',
+  'lgpd.basis.legalObligation': 'Cumprimento de obrigação legal',
+  'lgpd.basis.legitimateInterest': 'Legítimo interesse',
+  'lgpd.channel.inPerson': 'Presencial',
+  'lgpd.channel.onlineForm': 'Formulário online',
+  'lgpd.operation.accessReport': 'Relatório de dados gerado',
+  'lgpd.operation.anonymization': 'Dados anonimizados',
+  'lgpd.operation.erasure': 'Dados excluídos',
+  'lgpd.operation.consentGranted': 'Consentimento registrado',
+  'lgpd.operation.consentRevoked': 'Consentimento revogado',
+  'reports.preset3m': 'Últimos 3 meses',
+  'reports.preset6m': 'Últimos 6 meses',
+  'reports.preset12m': 'Últimos 12 meses',
+  'reports.formerMember': 'Ex-membro',
+
+  'validation.nameRequired': 'Nome obrigatório.',
+  'validation.emailInvalid': 'E-mail inválido: "{email}".',
+  'validation.statusUnknown': 'Status desconhecido: "{status}" (use ativo, inativo ou pendente).',
+  'validation.startDateRequired': 'Informe a data de início.',
+  'validation.dateInvalid': 'Data inválida: "{date}" (use DD/MM/AAAA ou AAAA-MM-DD).',
+  'validation.unknownTags': 'Etiqueta(s) não cadastrada(s): {tags}.',
+  'validation.phoneRequired': 'Telefone obrigatório.',
+  'validation.emailRequired': 'Informe um e-mail válido.',
+  'validation.passwordRequired': 'Informe a senha.',
+  'validation.passwordLength': 'A senha deve ter pelo menos {min} caracteres.',
+  'validation.passwordMismatch': 'As senhas não conferem.',
+  'validation.companyRequired': 'Informe o nome da empresa.',
+  'validation.responsibleRequired': 'Informe o nome do responsável.',
+  'validation.termsRequired': 'Você precisa aceitar os termos da LGPD.',
+  'validation.checkFields': 'Verifique os campos destacados.',
+  'phone.internationalInvalid': 'Telefone internacional inválido: "{phone}".',
+  'phone.areaCodeMissing': 'Informe o DDD do telefone "{phone}".',
+  'phone.invalid': 'Telefone inválido: "{phone}".',
+  'phone.areaCodeInvalid': 'DDD inválido: {code}.',
+  'phone.mobileInvalid': 'Celular inválido: "{phone}".',
+  'customField.required': '{field} é obrigatório.',
+  'customField.notNumber': '{field}: "{value}" não é um número.',
+  'customField.invalidDate': '{field}: data inválida "{value}".',
+  'customField.notOption': '{field}: "{value}" não está entre as opções.',
+  'customField.yesNo': '{field}: use Sim ou Não.',
+  'customField.optionsRequired': 'Informe ao menos uma opção para a lista.',
+  'customField.keyInvalid': 'Informe um nome válido para o campo.',
+  'customField.exists': 'Já existe um campo chamado "{label}".',
+  'errors.permission': 'Você não tem permissão para esta ação.',
+  'errors.permissionAsk': 'Você não tem permissão para esta ação. Peça acesso ao responsável pela empresa.',
+  'errors.conflict': 'Este cliente foi alterado em outro dispositivo.',
+  'errors.deletedElsewhere': 'Este cliente foi excluído em outro dispositivo.',
+  'errors.sessionExpired': 'Sua sessão expirou. Entre novamente para continuar.',
+  'errors.emailInUse': 'Este e-mail já está sendo utilizado por outra empresa.',
+  'errors.weakPassword': 'A senha deve ter pelo menos 6 caracteres.',
+  'errors.invalidCredentials': 'E-mail ou senha incorretos.',
+  'errors.emailNotConfirmed': 'Sua conta ainda não foi confirmada. Verifique seu e-mail.',
+  'errors.rateLimit': 'Muitas tentativas seguidas. Aguarde alguns minutos e tente novamente.',
+  'errors.emailRateLimit': 'Muitos e-mails enviados para este endereço. Aguarde alguns minutos e tente novamente.',
+  'errors.signupDisabled': 'Novos cadastros estão desativados no momento.',
+  'errors.otpDisabled': 'Não há conta com este e-mail. Cadastre sua empresa primeiro.',
+  'errors.otpExpired': 'O link expirou ou já foi usado. Solicite um novo.',
+  'errors.samePassword': 'A nova senha deve ser diferente da atual.',
+  'errors.duplicate': 'Já existe um registro com esses dados.',
+  'errors.requiredFields': 'Preencha todos os campos obrigatórios.',
+  'errors.invalidFormat': 'Há um valor em formato inválido.',
+  'errors.invalidDate': 'Data em formato inválido.',
+  'errors.dateOutOfRange': 'Data fora do intervalo permitido.',
+  'errors.generic': 'Algo deu errado. Tente novamente.',
+  'errors.network': 'Sem conexão com o servidor. Verifique sua internet e tente novamente.',
+  'errors.unknown': 'Erro desconhecido',
+  'sync.failed': 'Falha ao sincronizar.',
+  'sync.alreadyResolved': 'Este conflito já foi resolvido.',
+  'account.ownerOnly': 'Somente o proprietário pode excluir a conta da empresa.',
+  'account.confirmName': 'Digite o nome da empresa exatamente como aparece.',
+  'account.deleteFailed': 'Não foi possível excluir a conta. Nenhum dado foi apagado; tente novamente.',
+  'account.signupFailed': 'Não foi possível criar a conta. Tente novamente.',
+  'account.authFailed': 'Falha na autenticação.',
+  'account.magicLinkFailed': 'Não foi possível enviar o link de acesso.',
+  'account.recoveryFailed': 'Não foi possível enviar o e-mail de recuperação.',
+  'account.resendFailed': 'Não foi possível reenviar o e-mail de confirmação.',
+  'account.passwordFailed': 'Não foi possível alterar a senha.',
+  'account.emailFailed': 'Não foi possível alterar o e-mail.',
+  'account.profileLoadFailed': 'Erro de conexão ao carregar perfil.',
+  'account.profileSaveFailed': 'Não foi possível salvar o perfil.',
+  'team.singleOwner': 'Cada empresa possui apenas um proprietário.',
+  'team.singleOwnerTransfer': 'Cada empresa possui apenas um proprietário. Use a transferência de propriedade.',
+  'team.transferOwnerOnly': 'Somente o proprietário pode transferir a empresa.',
+  'team.transferOtherMember': 'Escolha outro membro desta empresa.',
+  'team.inviteExpired': 'Este convite expirou. Peça um novo ao responsável.',
+  'team.inviteOtherEmail': 'Este convite foi enviado para outro e-mail.',
+  'tasks.titleRequired': 'Informe o título da tarefa.',
+  'tasks.dueInvalid': 'Informe uma data de vencimento válida.',
+  'timeline.authorOnly': 'Apenas quem registrou a interação pode alterá-la.',
+  'timeline.contentRequired': 'Descreva a interação.',
+  'messages.bodyRequired': 'Escreva o texto da mensagem.',
+  'messages.nameRequired': 'Informe o nome do modelo.',
+  'messages.nameExists': 'Já existe um modelo chamado "{name}".',
+  'export.noFields': 'Selecione ao menos um campo para exportar.',
+  'import.noRows': 'O arquivo não possui linhas de dados.',
+  'import.repeatedRow': 'Linha repetida no próprio arquivo.',
+  'import.categories': 'Categorias',
+  'import.otherContacts': 'Outros contatos: {contacts}',
+  'lgpd.popupBlocked': 'Permita pop-ups para imprimir o relatório.',
+  'lgpd.report.title': 'Relatório de Dados do Titular',
+  'lgpd.report.heading': 'Relatório de Dados Pessoais (LGPD, art. 18)',
+  'lgpd.report.meta': 'Controlador: {company} • Gerado em {date} por {name}',
+  'lgpd.report.registration': 'Dados cadastrais',
+  'lgpd.report.consents': 'Bases legais e consentimentos',
+  'lgpd.report.legalBasis': 'Base legal',
+  'lgpd.report.consentColumns': 'Finalidade • Canal • Concedido • Revogado',
+  'lgpd.report.interactions': 'Interações registradas',
+  'lgpd.report.history': 'Histórico de operações',
+  'lgpd.report.by': '{label} por {name}',
+  'lgpd.report.empty': 'Nenhum registro.',
+  'lgpd.report.identifier': 'Identificador',
+  'lgpd.report.createdAt': 'Cadastrado em',
+  'lgpd.report.anonymizedAt': 'Anonimizado em',
+
+  'agenda.overdue': 'Atrasadas',
+  'agenda.today': 'Hoje',
+  'agenda.upcoming': 'Próximas',
+  'agenda.mine': 'Minhas',
+  'agenda.team': 'Da equipe',
+  'agenda.enableNotifications': 'Ativar notificações',
+  'agenda.empty': 'Nenhuma tarefa em aberto. Crie tarefas na ficha do cliente.',
+  'audit.loadFailed': 'Falha ao carregar auditoria.',
+  'audit.allUsers': 'Todos os usuários',
+  'audit.allActions': 'Todas as ações',
+  'audit.from': 'De',
+  'audit.to': 'Até',
+  'history.title': 'Histórico • {name}',
+  'history.subtitle': 'Quem alterou o quê e quando',
+  'history.loadFailed': 'Falha ao carregar histórico.',
+  'duplicates.possible': 'Possível cadastro duplicado',
+  'duplicates.more': '+{count} outro(s)',
+  'duplicates.loadFailed': 'Falha ao carregar clientes.',
+  'duplicates.groups': 'Possíveis duplicados: {count} grupo(s)',
+  'duplicates.empty': 'Nenhum cadastro duplicado encontrado.',
+  'duplicates.linked': 'Ligado a outro do grupo',
+  'duplicates.merge': 'Mesclar {count} cadastros',
+  'duplicates.merged': 'Cadastros mesclados em "{name}".',
+
+  'schema.saveFailed': 'Falha ao salvar configuração.',
+  'schema.fieldCreated': 'Campo "{label}" criado.',
+  'schema.fieldUpdated': 'Campo atualizado.',
+  'schema.fieldRemoved': 'Campo removido.',
+  'schema.tagCreated': 'Etiqueta "{name}" criada.',
+  'schema.tagRemoved': 'Etiqueta removida.',
+  'schema.subtitle': 'Personalize o cadastro da sua empresa',
+  'schema.customFields': 'Campos personalizados',
+  'schema.required': 'Obrigatório',
+  'schema.onCard': 'No cartão',
+  'schema.showOnCard': 'Mostrar no cartão',
+  'schema.removeFieldConfirm': 'Remover o campo "{label}"? Os valores já preenchidos deixam de ser exibidos.',
+  'schema.fieldPlaceholder': 'Ex: Aniversário, CPF, Serviço preferido',
+  'schema.optionsPlaceholder': 'Opções separadas por vírgula',
+  'schema.removeTag': 'Remover etiqueta',
+  'schema.removeTagConfirm': 'Remover a etiqueta "{name}"?',
+  'schema.tagPlaceholder': 'Ex: VIP, Inadimplente',
+
+  'export.formatVcard': 'vCard (contatos)',
+  'export.done': '{format} gerado com {count} cliente(s).',
+  'export.failed': 'Falha ao gerar arquivo.',
+  'export.scopeFiltered': 'Resultado da pesquisa',
+  'export.scopeSelected': 'Seleção manual',
+  'export.scopeAll': 'Todos os clientes',
+  'export.title': 'Exportar Clientes',
+  'export.subtitle': 'Portabilidade de Dados',
+  'export.what': 'O que exportar',
+  'export.format': 'Formato',
+  'export.delimiter': 'Separador',
+  'export.semicolon': 'Ponto e vírgula (Excel Brasil)',
+  'export.comma': 'Vírgula (padrão internacional)',
+  'export.version': 'Versão',
+  'export.vcardCompatible': '3.0 (compatível com a maioria dos celulares)',
+  'export.vcardHint': 'Cada cliente vira um contato com nome, telefone, e-mail, observações e etiquetas.',
+  'export.fields': 'Campos',
+  'export.submit': 'Exportar {count} cliente(s)',
+
+  'export.formatCsv': 'CSV',
+  'export.formatJson': 'JSON',
+  'export.formatXlsx': 'Excel (XLSX)',
+
+  'import.actionCreate': 'Criar',
+  'import.actionUpdate': 'Atualizar',
+  'import.actionSkip': 'Ignorar',
+  'import.withErrors': 'Com erro',
+  'import.readFailed': 'Não foi possível ler o arquivo.',
+  'import.done': 'Importação concluída: {created} criados, {updated} atualizados.',
+  'import.doneWithFailures': 'Importação concluída: {created} criados, {updated} atualizados, {failed} com falha (linhas {lines}).',
+  'import.failed': 'Falha ao importar clientes.',
+  'import.title': 'Importar Clientes',
+  'import.stepUpload': 'CSV, XLSX ou vCard',
+  'import.stepMapping': 'Mapeamento de colunas',
+  'import.stepPreview': 'Pré-visualização (nada foi salvo ainda)',
+  'import.selectFile': 'Selecione um arquivo .csv, .xlsx, .xls ou .vcf',
+  'import.headerHint': 'Em planilhas, a primeira linha deve conter os títulos das colunas',
+  'import.dontImport': '— Não importar —',
+  'import.column': 'Coluna {number}',
+  'import.existing': 'Clientes já cadastrados (mesmo telefone ou e-mail)',
+  'import.updateExisting': 'Atualizar cadastro existente',
+  'import.skipRow': 'Ignorar linha',
+  'import.createNew': 'Criar novo cadastro',
+  'import.mapRequired': 'Mapeie: {fields}',
+  'import.preview': 'Pré-visualizar',
+  'import.row': 'Linha {line}',
+  'import.matches': 'Corresponde a: {name}',
+  'import.progress': '{done} de {total}',
+  'import.submit': 'Confirmar Importação ({count})',
+
+  'merge.confirm': 'Mesclar {count} cadastros em um só? Os demais irão para a lixeira.',
+  'merge.failed': 'Falha ao mesclar cadastros.',
+  'merge.title': 'Mesclar cadastros',
+  'merge.subtitle': 'Escolha o valor de cada campo',
+  'merge.primary': 'Cadastro mantido (conserva o histórico)',
+  'merge.since': 'desde {date}',
+  'merge.oldest': '(a mais antiga)',
+  'merge.merging': 'Mesclando...',
+
+  'messages.loadFailed': 'Falha ao carregar modelos.',
+  'messages.logFailed': 'Mensagem para {name} não foi registrada.',
+  'messages.titleOne': 'Mensagem • {name}',
+  'messages.titleMany': 'Mensagem para {count} clientes',
+  'messages.subtitle': 'Cada envio fica registrado na linha do tempo',
+  'messages.freeText': 'Mensagem livre',
+  'messages.recipients': '{count} destinatário(s)',
+  'messages.leftOutPhone': ' • {count} sem telefone válido ficam de fora',
+  'messages.leftOutEmail': ' • {count} sem e-mail ficam de fora',
+  'messages.start': 'Iniciar envio',
+  'messages.continue': 'Continuar',
+  'messages.position': 'Mensagem {position} de {total}',
+  'messages.open': 'Abrir {channel}',
+  'messages.skip': 'Pular',
+  'messages.done': 'Envio concluído',
+  'messages.summary': '{sent} mensagem(ns) aberta(s) e registrada(s) • {skipped} pulada(s)',
+  'messages.finish': 'Concluir',
+  'messages.subjectPlaceholder': 'Assunto do e-mail',
+  'messages.bodyPlaceholder': 'Olá {{first_name}}, tudo bem?',
+  'messages.insertField': 'Inserir {token}',
+
+  'templates.saveFailed': 'Falha ao salvar modelo.',
+  'templates.updated': 'Modelo atualizado.',
+  'templates.created': 'Modelo "{name}" criado.',
+  'templates.removed': 'Modelo removido.',
+  'templates.removeConfirm': 'Remover o modelo "{name}"?',
+  'templates.subtitle': 'Textos prontos para WhatsApp e e-mail',
+  'templates.empty': 'Nenhum modelo cadastrado.',
+  'templates.edit': 'Editar modelo',
+  'templates.new': 'Novo modelo',
+  'templates.namePlaceholder': 'Ex: Lembrete de retorno',
+
+  'reports.loadFailed': 'Falha ao carregar relatórios.',
+  'reports.newByMonth': 'Novos clientes por mês',
+  'reports.month': 'Mês',
+  'reports.newCustomers': 'Novos clientes',
+  'reports.byStatus': 'Distribuição por status',
+  'reports.statusChanges': 'Mudanças de status',
+  'reports.churn': 'Churn',
+  'reports.activeCustomers': 'Clientes ativos',
+  'reports.becameInactive': 'Passaram a inativo',
+  'reports.period': 'Período',
+  'reports.byMember': 'Por membro da equipe',
+  'reports.createdInPeriod': 'Cadastrados no período',
+  'reports.total': 'Total',
+  'reports.churnInPeriod': 'Churn no período',
+  'reports.noStatusChanges': 'Nenhuma mudança de status no período.',
+  'reports.churnSummary': '{churned} de {active} clientes ativos no período passaram a inativos.',
+
+  'team.loadInvitesFailed': 'Falha ao carregar convites.',
+  'team.updateFailed': 'Falha ao atualizar equipe.',
+  'team.inviteSent': 'Convite enviado para {email}.',
+  'team.transferConfirm': 'Transferir a propriedade de {company} para {name}? Você continuará na equipe como {role}.',
+  'team.transferred': '{name} agora é o proprietário.',
+  'team.linkCopied': 'Link do convite copiado.',
+  'team.copyFailed': 'Não foi possível copiar o link.',
+  'team.migrateConfirm': 'Padronizar os telefones de todos os clientes (formato internacional E.164)?',
+  'team.migrated': '{count} telefone(s) padronizado(s).',
+  'team.migrateInvalid': '{count} não reconhecido(s): {names}',
+  'team.migrateFailedSaves': '{count} falha(s) ao gravar: {names} ({error})',
+  'team.migrateFailed': 'Falha ao padronizar telefones.',
+  'team.title': 'Equipe • {company}',
+  'team.yourRole': 'Seu papel: {role}',
+  'team.members': 'Membros',
+  'team.you': ' (você)',
+  'team.roleUpdated': 'Papel atualizado.',
+  'team.makeOwner': 'Tornar proprietário',
+  'team.removeConfirm': 'Remover {name} da equipe?',
+  'team.memberRemoved': 'Membro removido.',
+  'team.inviteByEmail': 'Convidar por e-mail',
+  'team.invitePlaceholder': 'colaborador@email.com',
+  'team.invite': 'Convidar',
+  'team.expires': '{role} • expira em {date}',
+  'team.copyLink': 'Copiar link',
+  'team.inviteRevoked': 'Convite cancelado.',
+  'team.maintenance': 'Manutenção da base',
+  'team.migrateHint': 'Converte os telefones já cadastrados para o padrão com DDD e código do país.',
+  'team.migrate': 'Padronizar telefones',
+
+  'trash.hint': 'Clientes excluídos ficam aqui e são apagados definitivamente após o prazo de retenção (LGPD).',
+  'trash.deletedAt': 'Excluído em {date} • ',
+  'trash.purgePending': 'Exclusão definitiva pendente',
+  'trash.daysLeft': 'Apagado em {days} dia(s)',
+  'trash.purge': 'Excluir definitivamente',
+  'trash.empty': 'A lixeira está vazia.',
+  'tasks.reopen': 'Reabrir',
+  'tasks.statusOnComplete': 'Status do cliente ao concluir',
+  'tasks.keepStatus': 'Manter status',
+  'tasks.complete': 'Concluir',
+  'tasks.removeConfirm': 'Excluir a tarefa "{title}"?',
+  'audit.empty': 'Nenhum evento registrado.',
+  'audit.customerRemoved': 'Cliente removido',
+  'conflict.title': 'Conflito • {name}',
+  'conflict.changedElsewhere': 'Alterado em outro dispositivo',
+  'conflict.changedAt': ' em {date}',
+  'conflict.remaining': ' • {count} conflitos',
+  'conflict.later': 'Decidir depois',
+  'conflict.keepMine': 'Manter todas as minhas',
+  'conflict.keepTheirs': 'Manter todas as salvas',
+  'conflict.merged': '{count} campo(s) alterado(s) só em um dos lados serão combinados automaticamente.',
+  'conflict.mine': 'Sua versão',
+  'conflict.theirs': 'Versão salva',
+  'conflict.apply': 'Aplicar escolhas',
+  'phone.copied': 'Número copiado.',
+  'phone.copyFailed': 'Não foi possível copiar o número.',
+  'phone.whatsapp': 'Abrir conversa no WhatsApp',
+  'phone.call': 'Ligar',
+  'phone.copy': 'Copiar número',
+  'privacy.loadFailed': 'Falha ao carregar registros de privacidade.',
+  'privacy.requestFailed': 'Falha ao processar solicitação.',
+  'privacy.basisRecorded': 'Base legal registrada.',
+  'privacy.reportGenerated': 'Relatório gerado.',
+  'privacy.anonymizeConfirm': 'Os dados pessoais (nome, telefone, e-mail e anotações) serão apagados de forma irreversível. O registro continuará contando nas estatísticas. Confirmar?',
+  'privacy.anonymized': 'Cliente anonimizado.',
+  'privacy.title': 'Privacidade • {name}',
+  'privacy.subtitle': 'Direitos do Titular (LGPD)',
+  'privacy.access': 'Acesso e portabilidade',
+  'privacy.reportJson': 'Relatório JSON',
+  'privacy.reportPrint': 'Relatório para Impressão',
+  'privacy.revokedAt': ' • Revogado em {date}',
+  'privacy.revoked': 'Consentimento revogado.',
+  'privacy.revoke': 'Revogar',
+  'privacy.purposePlaceholder': 'Finalidade (ex: envio de promoções)',
+  'privacy.recordBasis': 'Registrar base legal',
+  'privacy.anonymization': 'Anonimização',
+  'privacy.anonymizeHint': 'Alternativa à exclusão: apaga nome, telefone, e-mail e anotações, mantendo status e datas para as estatísticas.',
+  'privacy.alreadyAnonymized': 'Registro já anonimizado',
+  'privacy.anonymize': 'Anonimizar dados do cliente',
+  'privacy.operations': 'Registro de operações',
+  'privacy.noOperations': 'Nenhuma operação registrada.',
+};
+
+export type MessageKey = keyof typeof PT_BR;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parsePhone, toE164 } from './phone';
+
+describe('parsePhone', () => {
+  it('normaliza números brasileiros com e sem código do país', () => {
+    const expected = { e164: '+5511987654321', display: '(11) 98765-4321' };
+    expect(parsePhone('(11) 98765-4321')).toEqual(expected);
+    expect(parsePhone('+55 11 98765-4321')).toEqual(expected);
+    expect(parsePhone('0055 11 98765 4321')).toEqual(expected);
+    // Prefixo de longa distância com código da operadora
+    expect(parsePhone('0 21 11 98765-4321')).toEqual(expected);
+    expect(parsePhone('(11) 3333-4444')).toEqual({ e164: '+551133334444', display: '(11) 3333-4444' });
+  });
+
+  it('acrescenta o nono dígito só em celulares antigos', () => {
+    expect(parsePhone('(11) 8765-4321').e164).toBe('+5511987654321');
+    expect(parsePhone('+55 (21) 7777-6666').e164).toBe('+5521977776666');
+    expect(parsePhone('(11) 2765-4321').e164).toBe('+551127654321');
+    expect(() => parsePhone('(11) 88765-4321')).toThrow(/Celular inválido/);
+  });
+
+  it('aceita estrangeiros dentro do limite do E.164', () => {
+    expect(parsePhone('+1 (415) 555-2671')).toEqual({ e164: '+14155552671', display: '+1 (415) 555-2671' });
+    expect(() => parsePhone('+1 555')).toThrow(/Telefone internacional inválido/);
+  });
+
+  it('recusa números sem DDD, com DDD inexistente ou vazios', () => {
+    expect(() => parsePhone('98765-4321')).toThrow(/DDD do telefone/);
+    expect(() => parsePhone('(20) 98765-4321')).toThrow(/DDD inválido: 20/);
+    expect(() => parsePhone('  ')).toThrow();
+    expect(toE164('abc')).toBeNull();
+  });
+});
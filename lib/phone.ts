@@ -0,0 +1,77 @@
+import { t } from './i18n';
+
+// Telefones: normalização para E.164 (+5511988887777) e formato de exibição ((11) 98888-7777)
+export interface ParsedPhone {
+  e164: string;
+  display: string;
+}
+
+// DDDs em uso no Brasil (plano de numeração da Anatel)
+const BR_AREA_CODES = new Set([
+  11, 12, 13, 14, 15, 16, 17, 18, 19, 21, 22, 24, 27, 28, 31, 32, 33, 34, 35, 37, 38,
+  41, 42, 43, 44, 45, 46, 47, 48, 49, 51, 53, 54, 55, 61, 62, 63, 64, 65, 66, 67, 68, 69,
+  71, 73, 74, 75, 77, 79, 81, 82, 83, 84, 85, 86, 87, 88, 89, 91, 92, 93, 94, 95, 96, 97, 98, 99,
+]);
+
+const formatBR = (national: string) => {
+  const split = national.length === 11 ? 7 : 6;
+  return `(${national.slice(0, 2)}) ${national.slice(2, split)}-${national.slice(split)}`;
+};
+
+// Lança Error com mensagem para o usuário quando o número não é válido
+export const parsePhone = (input: string): ParsedPhone => {
+  const raw = (input || '').trim();
+  let digits = raw.replace(/\D/g, '');
+  if (!digits) throw new Error(t('validation.phoneRequired'));
+
+  const international = raw.startsWith('+') || digits.startsWith('00');
+  if (digits.startsWith('00')) digits = digits.slice(2);
+
+  if (international && !digits.startsWith('55')) {
+    // Números estrangeiros: apenas o limite de tamanho do E.164 (código do país + até 15 dígitos)
+    if (digits.length < 8 || digits.length > 15) throw new Error(t('phone.internationalInvalid', { phone: raw }));
+    return { e164: `+${digits}`, display: `+${raw.replace(/^\+|^00/, '').replace(/[^\d\s()-]/g, '').trim()}` };
+  }
+
+  let national = international ? digits.slice(2) : digits;
+  // Prefixo de longa distância: 0 + código da operadora (0 21 11 98888-7777)
+  if (national.startsWith('0')) {
+    national = national.slice(1);
+    if (national.length >= 12) national = national.slice(2);
+  }
+
+  if (national.length === 8 || national.length === 9) throw new Error(t('phone.areaCodeMissing', { phone: raw }));
+  if (national.length !== 10 && national.length !== 11) throw new Error(t('phone.invalid', { phone: raw }));
+  if (!BR_AREA_CODES.has(Number(national.slice(0, 2)))) throw new Error(t('phone.areaCodeInvalid', { code: national.slice(0, 2) }));
+
+  // Celulares antigos sem o nono dígito (números iniciados por 6 a 9) ganham o 9 na frente
+  if (national.length === 10 && /[6-9]/.test(national[2])) national = `${national.slice(0, 2)}9${national.slice(2)}`;
+  if (national.length === 11 && national[2] !== '9') throw new Error(t('phone.mobileInvalid', { phone: raw }));
+
+  return { e164: `+55${national}`, display: formatBR(national) };
+};
+
+export const toE164 = (input: string | null | undefined): string | null => {
+  try {
+    return parsePhone(input || '').e164;
+  } catch {
+    return null;
+  }
+};
+
+// Máscara aplicada durante a digitação; números iniciados por + (estrangeiros) ficam livres
+export const maskPhoneInput = (value: string): string => {
+  if (value.trim().startsWith('+')) return value;
+  const digits = value.replace(/\D/g, '').slice(0, 11);
+  if (digits.length <= 2) return digits.length ? `(${digits}` : '';
+
+  const rest = digits.slice(2);
+  const split = digits.length === 11 ? 5 : 4;
+  return rest.length > split
+    ? `(${digits.slice(0, 2)}) ${rest.slice(0, split)}-${rest.slice(split)}`
+    : `(${digits.slice(0, 2)}) ${rest}`;
+};
+
+export const whatsappLink = (e164: string) => `https://wa.me/${e164.replace(/\D/g, '')}`;
+
+export const telLink = (e164: string) => `tel:${e164}`;
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { matchPath } from './router';
+
+describe('matchPath', () => {
+  it('extrai e decodifica os parâmetros', () => {
+    expect(matchPath('/clientes/:id', '/clientes/a%20b/')).toEqual({ id: 'a b' });
+    expect(matchPath('/clientes/:id', '/configuracoes')).toBeNull();
+  });
+
+  it('devolve null para escapes inválidos em vez de lançar URIError', () => {
+    expect(matchPath('/clientes/:id', '/clientes/%E0')).toBeNull();
+  });
+});
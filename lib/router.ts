@@ -0,0 +1,51 @@
+import { useSyncExternalStore } from 'react';
+
+// Rotas no navegador sobre a History API: cada tela tem endereço próprio e o botão voltar funciona
+const NAVIGATE_EVENT = 'app:navigate';
+
+// Entradas criadas pelo próprio app podem ser desfeitas com history.back()
+interface RouterState {
+  inApp: true;
+}
+
+export const navigate = (to: string, options: { replace?: boolean } = {}) => {
+  if (to === `${window.location.pathname}${window.location.search}`) return;
+  const state: RouterState = { inApp: true };
+  if (options.replace) window.history.replaceState(state, '', to);
+  else window.history.pushState(state, '', to);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+// Volta para a tela anterior do app; se a página foi aberta direto (link, recarga), vai para o destino padrão
+export const goBack = (fallback: string) => {
+  if ((window.history.state as RouterState | null)?.inApp) window.history.back();
+  else navigate(fallback, { replace: true });
+};
+
+const subscribe = (callback: () => void) => {
+  window.addEventListener('popstate', callback);
+  window.addEventListener(NAVIGATE_EVENT, callback);
+  return () => {
+    window.removeEventListener('popstate', callback);
+    window.removeEventListener(NAVIGATE_EVENT, callback);
+  };
+};
+
+export const usePathname = (): string => useSyncExternalStore(subscribe, () => window.location.pathname);
+
+// '/clientes/:id' em '/clientes/abc' devolve { id: 'abc' }; null se o caminho não corresponder ou não puder ser decodificado
+export const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+  const names: string[] = [];
+  const source = pattern.replace(/:(\w+)/g, (_, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  const match = (pathname.replace(/\/+$/, '') || '/').match(new RegExp(`^${source}$`));
+  if (!match) return null;
+  // Endereço digitado ou colado com escape inválido ("/clientes/%E0"): trata como rota inexistente
+  try {
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseVCards, stringifyVCards } from './vcard';
+
+const card = (...lines: string[]) => ['BEGIN:VCARD', ...lines, 'END:VCARD'].join('\r\n');
+
+describe('parseVCards', () => {
+  it('junta linhas dobradas, inclusive as que stringifyVCards quebra', () => {
+    const [parsed] = parseVCards(card('VERSION:3.0', 'FN:Maria', 'NOTE:Cliente desde 2019\\, prefere', '  contato por WhatsApp'));
+    expect(parsed.note).toBe('Cliente desde 2019, prefere contato por WhatsApp');
+
+    const note = 'Observação longa '.repeat(10).trim();
+    const text = stringifyVCards([{ name: 'José', phones: [], emails: [], note, categories: [] }], '3.0');
+    expect(text.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(parseVCards(text)[0].note).toBe(note);
+  });
+
+  it('lê vários TEL com seus tipos nas versões 2.1, 3.0 e 4.0', () => {
+    const [v21, v30, v40] = parseVCards([
+      card('VERSION:2.1', 'N:Silva;Ana;;;', 'TEL;CELL:11999990000', 'TEL;WORK;VOICE:1133334444'),
+      card('VERSION:3.0', 'FN:Bruno', 'item1.TEL;TYPE=CELL,VOICE:+55 11 98888-0000', 'TEL;TYPE=HOME:1122223333'),
+      card('VERSION:4.0', 'FN:Carla', 'TEL;VALUE=uri;TYPE="cell,text":tel:+5511977770000', 'TEL;VALUE=uri:tel:+551140004000'),
+    ].join('\r\n'));
+
+    expect(v21.name).toBe('Ana Silva');
+    expect(v21.phones).toEqual([{ value: '11999990000', types: ['cell'] }, { value: '1133334444', types: ['work', 'voice'] }]);
+    expect(v30.phones).toEqual([{ value: '+55 11 98888-0000', types: ['cell', 'voice'] }, { value: '1122223333', types: ['home'] }]);
+    expect(v40.phones).toEqual([{ value: '+5511977770000', types: ['cell', 'text'] }, { value: '+551140004000', types: [] }]);
+  });
+
+  it('decodifica quoted-printable em UTF-8 e no CHARSET informado', () => {
+    const [utf8, latin1] = parseVCards([
+      card('VERSION:2.1', 'FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Jo=C3=A3o Concei=C3=A7=C3=A3o', 'TEL;CELL:11999990000'),
+      card('VERSION:2.1', 'FN;CHARSET=ISO-8859-1;ENCODING=QUOTED-PRINTABLE:Ant=F4nio', 'NOTE;ENCODING=QUOTED-PRINTABLE:Primeira linha=0D=0A=', 'Segunda linha =C3=A9'),
+    ].join('\r\n'));
+
+    expect(utf8.name).toBe('João Conceição');
+    expect(utf8.phones).toEqual([{ value: '11999990000', types: ['cell'] }]);
+    expect(latin1.name).toBe('Antônio');
+    expect(latin1.note).toBe('Primeira linha\r\nSegunda linha é');
+  });
+});
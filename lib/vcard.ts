@@ -0,0 +1,148 @@
+// vCard (RFC 2426 / RFC 6350): leitura de 2.1, 3.0 e 4.0 e escrita em 3.0 ou 4.0
+export type VCardVersion = '3.0' | '4.0';
+
+export interface VCard {
+  name: string;
+  phones: { value: string; types: string[] }[];
+  emails: string[];
+  note: string;
+  categories: string[];
+  uid?: string;
+}
+
+const escapeValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const unescapeValue = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Divide por um separador não escapado (";" em N, "," em CATEGORIES)
+const splitValue = (value: string, separator: string): string[] =>
+  value.split(new RegExp(`(?<!\\\\)${separator}`)).map(unescapeValue);
+
+// Linhas com mais de 75 octetos continuam na seguinte, iniciada por espaço
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// "Maria da Silva" -> família "Silva", demais nomes "Maria da"
+const structuredName = (name: string) => {
+  const words = name.trim().split(/\s+/);
+  const family = words.length > 1 ? words.pop()! : '';
+  return `${escapeValue(family)};${escapeValue(words.join(' '))};;;`;
+};
+
+export const stringifyVCards = (cards: VCard[], version: VCardVersion): string =>
+  cards.map(card => [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    card.uid && `UID:${version === '4.0' ? `urn:uuid:${card.uid}` : card.uid}`,
+    `FN:${escapeValue(card.name)}`,
+    `N:${structuredName(card.name)}`,
+    ...card.phones.map(phone => {
+      const types = phone.types.length ? phone.types : ['cell'];
+      return version === '4.0'
+        ? `TEL;VALUE=uri;TYPE=${types.join(',')}:${phone.value.startsWith('+') ? `tel:${phone.value}` : phone.value}`
+        : `TEL;TYPE=${types.map(t => t.toUpperCase()).join(',')}:${phone.value}`;
+    }),
+    ...card.emails.map(email => version === '4.0' ? `EMAIL:${email}` : `EMAIL;TYPE=INTERNET:${email}`),
+    card.note && `NOTE:${escapeValue(card.note)}`,
+    card.categories.length > 0 && `CATEGORIES:${card.categories.map(escapeValue).join(',')}`,
+    'END:VCARD',
+  ].filter((line): line is string => !!line).map(foldLine).join('\r\n')).join('\r\n') + '\r\n';
+
+// Quoted-printable da versão 2.1 (comum em contatos exportados por celulares Android), em UTF-8 ou no CHARSET informado
+const decodeQuotedPrintable = (value: string, charset = 'utf-8'): string => {
+  const bytes: number[] = [];
+  const raw = value.replace(/=\r?\n/g, '');
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === '=' && /^[0-9A-F]{2}$/i.test(raw.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(raw.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(raw[i]));
+    }
+  }
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+  return decoder.decode(new Uint8Array(bytes));
+};
+
+// Junta as linhas dobradas; no quoted-printable a continuação é marcada por "=" no fim da linha
+const unfoldLines = (text: string): string[] => {
+  const lines: string[] = [];
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && /^[ \t]/.test(line)) lines[lines.length - 1] = previous + line.slice(1);
+    else if (previous !== undefined && /QUOTED-PRINTABLE/i.test(previous) && previous.endsWith('=')) lines[lines.length - 1] = `${previous}\n${line}`;
+    else lines.push(line);
+  }
+  return lines;
+};
+
+export const parseVCards = (text: string): VCard[] => {
+  const cards: VCard[] = [];
+  let card: (VCard & { structured?: string }) | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [property, ...params] = line.slice(0, colon).split(';');
+    const name = property.split('.').pop()!.toUpperCase();
+    let value = line.slice(colon + 1);
+
+    if (name === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      card = { name: '', phones: [], emails: [], note: '', categories: [] };
+      continue;
+    }
+    if (!card) continue;
+    if (name === 'END') {
+      // Sem FN (comum na 2.1): monta o nome a partir de N (família;nome;...)
+      const fallback = card.structured ? splitValue(card.structured, ';').slice(0, 2).reverse().join(' ').trim() : '';
+      cards.push({ name: card.name || fallback, phones: card.phones, emails: card.emails, note: card.note, categories: card.categories, uid: card.uid });
+      card = null;
+      continue;
+    }
+
+    if (params.some(p => /QUOTED-PRINTABLE/i.test(p))) {
+      const charset = params.find(p => /^CHARSET=/i.test(p))?.slice(8);
+      value = decodeQuotedPrintable(value, charset);
+    }
+    // TYPE=cell,voice (3.0/4.0) ou apenas CELL (2.1)
+    const types = params
+      .flatMap(p => (p.includes('=') ? (/^TYPE=/i.test(p) ? p.slice(5) : '') : p).replace(/"/g, '').split(','))
+      .map(t => t.trim().toLowerCase())
+      .filter(Boolean);
+
+    switch (name) {
+      case 'FN': card.name = unescapeValue(value).trim(); break;
+      case 'N': card.structured = value; break;
+      case 'TEL': card.phones.push({ value: value.replace(/^tel:/i, '').trim(), types }); break;
+      case 'EMAIL': card.emails.push(unescapeValue(value).replace(/^mailto:/i, '').trim()); break;
+      case 'NOTE': card.note = [card.note, unescapeValue(value).trim()].filter(Boolean).join('\n'); break;
+      case 'CATEGORIES': card.categories.push(...splitValue(value, ',').map(c => c.trim()).filter(Boolean)); break;
+      case 'UID': card.uid = value.replace(/^urn:uuid:/i, '').trim(); break;
+    }
+  }
+
+  return cards;
+};
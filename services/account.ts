@@ -0,0 +1,55 @@
+import { supabase } from '../lib/supabase';
+import { Company, Membership, UserProfile } from '../types';
+import { authService } from './api';
+import { can, teamService } from './team';
+import { clearLocalData } from './storage';
+import { assertValid, validateAccount } from './validation';
+import { permissionError, toAppError, validationError } from './errors';
+import { t } from '../lib/i18n';
+
+export const accountService = {
+  // O nome também aparece nos vínculos (lista da equipe, responsável pelos clientes)
+  async updateProfile(profile: UserProfile, responsibleName: string): Promise<UserProfile> {
+    assertValid(validateAccount({ responsibleName }));
+    const updated = await authService.updateProfile(profile.id, { responsible_name: responsibleName.trim() });
+
+    const { error } = await supabase
+      .from('company_members')
+      .update({ name: updated.responsible_name })
+      .eq('user_id', profile.id);
+
+    if (error) console.error("Erro ao atualizar nome na equipe:", error);
+    return updated;
+  },
+
+  async renameCompany(company: Company, membership: Membership | null, profile: UserProfile, name: string): Promise<Company> {
+    if (!can(membership, 'team.manage')) throw permissionError();
+    assertValid(validateAccount({ companyName: name }));
+
+    const updated = await teamService.updateCompany(company.id, { name: name.trim() });
+    // O perfil do proprietário guarda o nome usado para recriar a empresa
+    if (company.owner_id === profile.id) {
+      await authService.updateProfile(profile.id, { company_name: updated.name })
+        .catch(err => console.error("Erro ao atualizar perfil:", err));
+    }
+    return updated;
+  },
+
+  // Encerramento da conta (LGPD): apaga clientes, histórico, equipe, a empresa e o próprio acesso
+  async deleteCompany(company: Company, membership: Membership | null, profile: UserProfile, confirmation: string): Promise<void> {
+    if (membership?.role !== 'owner' || company.owner_id !== profile.id) {
+      throw permissionError(t('account.ownerOnly'));
+    }
+    if (confirmation.trim() !== company.name.trim()) {
+      throw validationError({ deleteConfirmation: t('account.confirmName') });
+    }
+
+    // Uma só função do banco apaga, na mesma transação, os dados da empresa, convites, equipe, a empresa,
+    // o perfil e o usuário do Auth; se algo falhar nada é apagado e o erro chega à tela
+    const { error } = await supabase.rpc('delete_company', { company_id: company.id });
+    if (error) throw toAppError(error, t('account.deleteFailed'));
+
+    clearLocalData();
+    await authService.signOut().catch(err => console.error("Erro ao sair:", err));
+  }
+};
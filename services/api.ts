@@ -0,0 +1,397 @@
+
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { AppStats, Customer, CustomerChangeEvent, CustomerFilters, CustomerPage, CustomerStatus, SignupData, UserProfile } from '../types';
+import { CustomerRepository } from './repository';
+import { appError, conflictError, deletedElsewhereError, toAppError } from './errors';
+import { assertValid, validateEmail, validateLogin, validateNewPassword, validateSignup } from './validation';
+import { profileCache } from './storage';
+import { decodeCursor, encodeCursor, normalizeText, resolveDateRange, SORT_COLUMNS } from './filters';
+import { t } from '../lib/i18n';
+
+export const authService = {
+  async signUp(data: SignupData) {
+    // Convites não informam empresa; por isso ela é opcional aqui e exigida apenas na tela
+    assertValid(validateSignup(data, false));
+
+    // 1. Criar usuário no Auth do Supabase
+    // Os nomes também vão para o usuário do Auth: com confirmação de e-mail ativa não há sessão
+    // para gravar o perfil agora, e ele é recriado a partir daqui no primeiro login
+    const { data: authData, error: authError } = await supabase.auth.signUp({ 
+      email: data.email.trim(), 
+      password: data.password,
+      options: {
+        data: { company_name: data.companyName.trim(), responsible_name: data.responsibleName.trim(), accepted_terms: true },
+        emailRedirectTo: `${window.location.origin}/login`
+      }
+    });
+    
+    if (authError) throw toAppError(authError, t('account.signupFailed'));
+    if (!authData.user) throw appError('auth', t('account.signupFailed'));
+
+    // 2. Criar ou atualizar perfil na tabela 'profiles'
+    const { error: profileError } = await supabase
+      .from('profiles')
+      .upsert({
+        id: authData.user.id,
+        email: data.email.trim(),
+        company_name: data.companyName.trim(),
+        responsible_name: data.responsibleName.trim(),
+        accepted_terms: true,
+        updated_at: new Date().toISOString()
+      });
+
+    if (profileError) {
+      console.error("Erro ao salvar perfil:", profileError);
+      // Se o erro for de RLS ou tabela inexistente, o sistema ainda funciona mas o perfil fica incompleto
+    }
+
+    return authData.user;
+  },
+
+  async signIn(email: string, pass: string) {
+    assertValid(validateLogin({ email, password: pass }));
+    const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password: pass });
+    
+    if (error) throw toAppError(error, t('account.authFailed'));
+    if (!data.user) throw appError('auth', t('account.authFailed'));
+    return data.user;
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  },
+
+  // Login sem senha: o link recebido por e-mail abre o painel já autenticado
+  async sendMagicLink(email: string): Promise<void> {
+    assertValid(validateEmail(email));
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { shouldCreateUser: false, emailRedirectTo: `${window.location.origin}/clientes` }
+    });
+    if (error) throw toAppError(error, t('account.magicLinkFailed'));
+  },
+
+  // O link leva a /redefinir-senha com uma sessão temporária de recuperação
+  async sendPasswordReset(email: string): Promise<void> {
+    assertValid(validateEmail(email));
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: `${window.location.origin}/redefinir-senha`
+    });
+    if (error) throw toAppError(error, t('account.recoveryFailed'));
+  },
+
+  async resendConfirmation(email: string): Promise<void> {
+    assertValid(validateEmail(email));
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}/login` }
+    });
+    if (error) throw toAppError(error, t('account.resendFailed'));
+  },
+
+  async updatePassword(password: string, confirmation: string): Promise<void> {
+    assertValid(validateNewPassword(password, confirmation));
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw toAppError(error, t('account.passwordFailed'));
+  },
+
+  // A troca só vale depois que o novo endereço é confirmado pelo link enviado a ele
+  async updateEmail(email: string): Promise<void> {
+    assertValid(validateEmail(email));
+    const { error } = await supabase.auth.updateUser(
+      { email: email.trim() },
+      { emailRedirectTo: `${window.location.origin}/configuracoes` }
+    );
+    if (error) throw toAppError(error, t('account.emailFailed'));
+  },
+
+  async getProfile(user: { id: string; email?: string; user_metadata?: Record<string, any> }): Promise<UserProfile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .maybeSingle();
+    
+    if (error) {
+      console.error("Erro ao buscar perfil:", error);
+      // Sem conexão: reutiliza o último perfil conhecido para manter o modo offline
+      const cached = profileCache.get(user.id);
+      if (cached) return cached;
+      throw appError('network', t('account.profileLoadFailed'));
+    }
+
+    if (data) {
+      profileCache.set(data);
+      return data;
+    }
+
+    // Perfil não gravado no cadastro (ex.: confirmação de e-mail pendente): recria com os dados do Auth
+    const metadata = user.user_metadata || {};
+    const profile = {
+      id: user.id,
+      email: user.email || '',
+      company_name: metadata.company_name || t('app.defaultCompany'),
+      responsible_name: metadata.responsible_name || (user.email || 'Usuário').split('@')[0],
+      accepted_terms: !!metadata.accepted_terms,
+      created_at: new Date().toISOString()
+    };
+    const { data: created, error: createError } = await supabase
+      .from('profiles')
+      .upsert({ ...profile, updated_at: profile.created_at })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error("Erro ao recriar perfil:", createError);
+      return profile;
+    }
+    profileCache.set(created);
+    return created;
+  },
+
+  async updateProfile(userId: string, changes: Partial<Omit<UserProfile, 'id' | 'created_at'>>): Promise<UserProfile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) throw toAppError(error, t('account.profileSaveFailed'));
+    profileCache.set(data);
+    return data;
+  },
+
+  async getCurrentUser() {
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error) return null;
+    return user;
+  }
+};
+
+// O PostgREST limita cada resposta; listas completas (exportação, importação) são lidas em blocos
+const FETCH_CHUNK = 1000;
+
+// Valores dentro de filtros `or(...)` precisam de aspas por causa de vírgulas e parênteses
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// `%` e `_` do termo são literais, não curingas do LIKE
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+type CustomerQuery = ReturnType<ReturnType<typeof supabase.from>['select']>;
+
+// Traduz os filtros da listagem para a consulta, com as mesmas regras de applyFilters
+const applyQueryFilters = <Q extends CustomerQuery>(query: Q, filters: CustomerFilters): Q => {
+  const { from, to } = resolveDateRange(filters);
+  const term = filters.search.trim();
+
+  if (filters.statuses.length) query = query.in('status', filters.statuses);
+  if (from) query = query.gte('registration_date', from);
+  if (to) query = query.lte('registration_date', to);
+  if (filters.email === 'with') query = query.not('email', 'is', null).neq('email', '');
+  if (filters.email === 'without') query = query.or('email.is.null,email.eq.');
+  if (filters.responsible) query = query.eq('created_by', filters.responsible);
+  if (filters.tags.length) query = query.overlaps('tags', filters.tags);
+  Object.entries(filters.custom).forEach(([key, value]) => {
+    query = query.eq(`custom_fields->>${key}`, value);
+  });
+
+  if (term) {
+    // search_text é a coluna calculada equivalente a searchText: sem acentos, como a busca offline
+    const conditions = [`search_text.like.${quote(`*${escapeLike(normalizeText(term))}*`)}`];
+    // Busca sem letras é tratada como telefone: "(11) 9" encontra "11 9..." independente da máscara
+    const digits = term.replace(/\D/g, '');
+    if (digits.length >= 3 && !/[a-z]/i.test(term)) {
+      conditions.push(`phone_e164.ilike.${quote(`*${digits}*`)}`, `phone.ilike.${quote(`*${digits.split('').join('*')}*`)}`);
+    }
+    query = query.or(conditions.join(','));
+  }
+
+  return query;
+};
+
+// Implementação remota (Supabase) do repositório de clientes
+export const remoteCustomerRepository: CustomerRepository = {
+  async fetchAll(empresaId: string): Promise<Customer[]> {
+    const all: Customer[] = [];
+    for (let offset = 0; ; offset += FETCH_CHUNK) {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('empresa_id', empresaId)
+        .eq('is_deleted', false)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(offset, offset + FETCH_CHUNK - 1);
+
+      if (error) throw error;
+      all.push(...(data || []));
+      if (!data || data.length < FETCH_CHUNK) return all;
+    }
+  },
+
+  // Paginação por cursor (keyset) sobre (coluna de ordenação, id): estável mesmo com inserções
+  async fetchPage(empresaId: string, filters: CustomerFilters, cursor: string | null, limit: number): Promise<CustomerPage> {
+    const ascending = filters.direction === 'asc';
+    const column = SORT_COLUMNS[filters.sort];
+    let query = supabase
+      .from('customers')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .eq('is_deleted', false);
+
+    query = applyQueryFilters(query, filters);
+
+    if (cursor) {
+      const [value, id] = decodeCursor(cursor);
+      // Valores vazios ficam no fim nos dois sentidos (nullsFirst: false), depois de todos os preenchidos
+      query = query.or(value === null
+        ? `and(${column}.is.null,id.gt.${quote(id)})`
+        : `${column}.${ascending ? 'gt' : 'lt'}.${quote(value)},and(${column}.eq.${quote(value)},id.gt.${quote(id)}),${column}.is.null`);
+    }
+
+    const { data, error } = await query
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending: true })
+      .limit(limit + 1);
+
+    if (error) throw error;
+    const items: Customer[] = (data || []).slice(0, limit);
+    const hasMore = (data || []).length > limit;
+    return { items, nextCursor: hasMore ? encodeCursor(items[items.length - 1], filters.sort) : null };
+  },
+
+  async findSimilar(empresaId: string, probe: Partial<Customer>): Promise<Customer[]> {
+    const conditions: string[] = [];
+    const phoneDigits = (probe.phone_e164 || probe.phone || '').replace(/\D/g, '').slice(-8);
+    const firstName = (probe.name || '').trim().split(/\s+/)[0] || '';
+
+    if (probe.phone_e164) conditions.push(`phone_e164.eq.${quote(probe.phone_e164)}`);
+    // Registros antigos, ainda sem E.164: compara os últimos 8 dígitos em qualquer máscara
+    if (phoneDigits.length === 8) conditions.push(`phone.ilike.${quote(`*${phoneDigits.split('').join('*')}`)}`);
+    if (probe.email?.trim()) conditions.push(`email.ilike.${quote(probe.email.trim())}`);
+    if (firstName.length >= 3) conditions.push(`name.ilike.${quote(`${firstName}*`)}`);
+    if (!conditions.length) return [];
+
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .eq('is_deleted', false)
+      .or(conditions.join(','))
+      .limit(100);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Totais calculados no banco (count), sem trafegar os registros
+  async fetchStats(empresaId: string): Promise<AppStats> {
+    const count = async (status?: CustomerStatus) => {
+      let query = supabase
+        .from('customers')
+        .select('id', { count: 'exact', head: true })
+        .eq('empresa_id', empresaId)
+        .eq('is_deleted', false);
+      if (status) query = query.eq('status', status);
+
+      const { count, error } = await query;
+      if (error) throw error;
+      return count || 0;
+    };
+
+    const [total, active, pending, inactive] = await Promise.all([
+      count(),
+      count(CustomerStatus.ACTIVE),
+      count(CustomerStatus.PENDING),
+      count(CustomerStatus.INACTIVE)
+    ]);
+    return { total, active, pending, inactive };
+  },
+
+  async fetchOne(id: string, empresaId: string): Promise<Customer | null> {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', id)
+      .eq('empresa_id', empresaId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async fetchDeleted(empresaId: string): Promise<Customer[]> {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .eq('is_deleted', true)
+      .order('deleted_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async save(customer: Partial<Customer>): Promise<Customer> {
+    const stamped = { ...customer, updated_at: new Date().toISOString() };
+
+    // Registro já lido do servidor: só grava se ninguém o alterou desde então
+    if (customer.id && customer.updated_at) {
+      const { data, error } = await supabase
+        .from('customers')
+        .update(stamped)
+        .eq('id', customer.id)
+        .eq('updated_at', customer.updated_at)
+        .select();
+
+      if (error) throw error;
+      if (data?.length) return data[0];
+
+      const { data: current, error: currentError } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('id', customer.id)
+        .maybeSingle();
+
+      if (currentError) throw currentError;
+      // Sem o registro, a gravação recriaria um cliente excluído de propósito (inclusive por pedido LGPD)
+      throw current ? conflictError(customer as Customer, current) : deletedElsewhereError(customer as Customer);
+    }
+
+    const { data, error } = await supabase
+      .from('customers')
+      .upsert(stamped)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async hardDelete(id: string, empresaId: string): Promise<void> {
+    const { error } = await supabase
+      .from('customers')
+      .delete()
+      .eq('id', id)
+      .eq('empresa_id', empresaId);
+
+    if (error) throw error;
+  },
+
+  watch(empresaId: string, onChange: (event: CustomerChangeEvent) => void): () => void {
+    const channel = supabase
+      .channel(`customers:${empresaId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'customers', filter: `empresa_id=eq.${empresaId}` }, (payload: RealtimePostgresChangesPayload<Customer>) => {
+        // No DELETE só a chave primária vem em old (replica identity padrão)
+        if (payload.eventType !== 'DELETE') onChange({ type: 'upsert', customer: payload.new });
+        else if (payload.old.id) onChange({ type: 'delete', id: payload.old.id });
+      })
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }
+};
@@ -0,0 +1,185 @@
+
+import { supabase } from '../lib/supabase';
+import { AuditAction, AuditChange, AuditEvent, AuditFilters, Customer, CustomerStatus, StatusTransition, UserProfile } from '../types';
+import { auditQueueStorage, generateId } from './storage';
+import { translatedLabels } from '../lib/i18n';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = translatedLabels({
+  create: 'audit.action.create',
+  update: 'audit.action.update',
+  status_change: 'audit.action.statusChange',
+  delete: 'audit.action.delete',
+  restore: 'audit.action.restore',
+  purge: 'audit.action.purge',
+  anonymize: 'audit.action.anonymize',
+  import: 'audit.action.import',
+  export: 'audit.action.export',
+  merge: 'audit.action.merge',
+});
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = translatedLabels({
+  name: 'field.name',
+  phone: 'field.phone',
+  email: 'field.email',
+  status: 'field.status',
+  registration_date: 'field.registrationDate',
+  observations: 'field.observations',
+  created_by: 'common.responsible',
+  is_deleted: 'field.isDeleted',
+});
+
+// Campos com dados pessoais: seus valores saem do histórico quando o titular é anonimizado ou excluído
+const PERSONAL_FIELDS = ['name', 'phone', 'email', 'observations'];
+
+const REDACTED = '[removido]';
+
+// Resumos com texto pessoal: nomes dos registros mesclados e o motivo informado na exclusão definitiva
+const PERSONAL_SUMMARY_ACTIONS: AuditAction[] = ['merge', 'purge'];
+
+const TRACKED_FIELDS = Object.keys(AUDIT_FIELD_LABELS) as (keyof Customer)[];
+
+let flushing = false;
+
+export const diffCustomer = (before: Partial<Customer> | null, after: Partial<Customer>): AuditChange[] =>
+  TRACKED_FIELDS
+    .filter(field => (before?.[field] ?? '') !== (after[field] ?? ''))
+    .map(field => ({ field, old: before?.[field] ?? null, new: after[field] ?? null }));
+
+const redact = (changes: AuditChange[]): AuditChange[] =>
+  changes.map(c => PERSONAL_FIELDS.includes(c.field)
+    ? { ...c, old: c.old === null ? null : REDACTED, new: c.new === null ? null : REDACTED }
+    : c);
+
+const redactSummary = (event: AuditEvent): string | null =>
+  event.summary && PERSONAL_SUMMARY_ACTIONS.includes(event.action) ? REDACTED : event.summary;
+
+export const auditService = {
+  async record(
+    actor: UserProfile,
+    event: Pick<AuditEvent, 'empresa_id' | 'action'> & Partial<Pick<AuditEvent, 'customer_id' | 'changes' | 'summary'>>
+  ): Promise<void> {
+    auditQueueStorage.push({
+      id: generateId(),
+      customer_id: null,
+      changes: [],
+      summary: null,
+      ...event,
+      actor_id: actor.id,
+      actor_name: actor.responsible_name,
+      created_at: new Date().toISOString()
+    });
+    await auditService.flush();
+  },
+
+  // Registra gravação de cliente, escolhendo a ação a partir do que mudou
+  recordSave(actor: UserProfile, before: Customer | null, after: Customer): Promise<void> {
+    const changes = diffCustomer(before, after);
+    if (before && changes.length === 0) return Promise.resolve();
+
+    const action: AuditAction = !before ? 'create'
+      : changes.some(c => c.field === 'status') ? 'status_change'
+      : 'update';
+
+    return auditService.record(actor, { empresa_id: after.empresa_id, customer_id: after.id, action, changes });
+  },
+
+  // Envia os eventos pendentes; sem conexão eles ficam guardados para a próxima tentativa
+  async flush(): Promise<void> {
+    if (flushing) return;
+    flushing = true;
+    try {
+      let pending: AuditEvent[];
+      while ((pending = auditQueueStorage.getAll()).length > 0) {
+        const { error } = await supabase.from('audit_events').insert(pending);
+        if (error) {
+          console.error("Erro ao enviar eventos de auditoria:", error);
+          return;
+        }
+        auditQueueStorage.remove(pending.map(e => e.id));
+      }
+    } finally {
+      flushing = false;
+    }
+  },
+
+  async fetchForCustomer(customerId: string, empresaId: string): Promise<AuditEvent[]> {
+    const { data, error } = await supabase
+      .from('audit_events')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    const queued = auditQueueStorage.getAll().filter(e => e.customer_id === customerId && e.empresa_id === empresaId);
+    return [...queued.reverse(), ...(data || [])];
+  },
+
+  async fetchForCompany(empresaId: string, filters: AuditFilters = {}, limit = 200): Promise<AuditEvent[]> {
+    let query = supabase
+      .from('audit_events')
+      .select('*')
+      .eq('empresa_id', empresaId);
+
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Mudanças de status a partir de uma data, em ordem cronológica (base dos relatórios de transição e churn)
+  async fetchStatusTransitions(empresaId: string, since: string, chunkSize = 1000): Promise<StatusTransition[]> {
+    const transitions: StatusTransition[] = [];
+    for (let from = 0; ; from += chunkSize) {
+      const { data, error } = await supabase
+        .from('audit_events')
+        .select('customer_id, changes, actor_id, created_at')
+        .eq('empresa_id', empresaId)
+        .in('action', ['status_change', 'merge'])
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .range(from, from + chunkSize - 1);
+
+      if (error) throw error;
+      for (const event of data || []) {
+        const change = (event.changes as AuditChange[]).find(c => c.field === 'status');
+        if (!change || !event.customer_id) continue;
+        transitions.push({
+          customer_id: event.customer_id,
+          from: (change.old as CustomerStatus) || null,
+          to: change.new as CustomerStatus,
+          at: event.created_at,
+          actor_id: event.actor_id
+        });
+      }
+      if (!data || data.length < chunkSize) return transitions;
+    }
+  },
+
+  // LGPD: apaga os valores pessoais do histórico do titular (alterações e resumos), mantendo quem fez o quê e quando
+  async redactCustomer(customerId: string, empresaId: string): Promise<void> {
+    await auditService.flush();
+    const events = await auditService.fetchForCustomer(customerId, empresaId);
+
+    for (const event of events) {
+      const { error } = await supabase
+        .from('audit_events')
+        .update({ changes: redact(event.changes), summary: redactSummary(event) })
+        .eq('id', event.id)
+        .eq('empresa_id', empresaId);
+
+      if (error) throw error;
+    }
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { auditService.flush(); });
+}
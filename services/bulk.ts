@@ -0,0 +1,98 @@
+
+import { BulkAction, BulkResult, Customer, UserProfile } from '../types';
+import { customerService } from './sync';
+import { auditService } from './audit';
+import { trashService } from './trash';
+import { errorMessage } from './errors';
+import { t } from '../lib/i18n';
+
+// Alteração que a ação provoca no cliente; null quando ele já está no estado desejado
+const patchFor = (customer: Customer, action: BulkAction): Partial<Customer> | null => {
+  switch (action.kind) {
+    case 'status':
+      return customer.status === action.status ? null : { status: action.status };
+    case 'responsible':
+      return customer.created_by === action.userId ? null : { created_by: action.userId };
+    case 'tags': {
+      const current = customer.tags || [];
+      const tags = [...new Set([...current, ...action.add])].filter(t => !action.remove.includes(t));
+      return tags.length === current.length && tags.every(t => current.includes(t)) ? null : { tags };
+    }
+    case 'delete':
+      return customer.is_deleted ? null : {};
+  }
+};
+
+const apply = async (customer: Customer, action: BulkAction, actor: UserProfile): Promise<Customer> => {
+  if (action.kind === 'delete') return trashService.moveToTrash(customer, actor);
+  const saved = await customerService.save({ ...customer, ...patchFor(customer, action) });
+  auditService.recordSave(actor, customer, saved);
+  return saved;
+};
+
+// Processa em lotes para não sobrecarregar a fila de sincronização; falhas não interrompem o restante.
+// Cada gravação só termina depois que a sua alteração foi enviada, então conflitos e recusas contam como falha
+export const runBulk = async (
+  customers: Customer[],
+  action: BulkAction,
+  actor: UserProfile,
+  onProgress?: (done: number, total: number) => void,
+  batchSize = 25
+): Promise<BulkResult> => {
+  const result: BulkResult = { action, changed: [], unchanged: 0, failed: [] };
+
+  for (let i = 0; i < customers.length; i += batchSize) {
+    await Promise.all(customers.slice(i, i + batchSize).map(async customer => {
+      if (!patchFor(customer, action)) return result.unchanged++;
+      try {
+        result.changed.push({ before: customer, after: await apply(customer, action, actor) });
+      } catch (err: any) {
+        result.failed.push({ customer, error: errorMessage(err, t('errors.unknown')) });
+      }
+    }));
+    onProgress?.(Math.min(i + batchSize, customers.length), customers.length);
+  }
+
+  return result;
+};
+
+// Desfaz um lote inteiro: exclusões voltam da lixeira, as demais alterações regravam o estado anterior
+export const undoBulk = async (
+  result: BulkResult,
+  actor: UserProfile,
+  onProgress?: (done: number, total: number) => void,
+  batchSize = 25
+): Promise<BulkResult> => {
+  const undo: BulkResult = { action: result.action, changed: [], unchanged: 0, failed: [] };
+
+  for (let i = 0; i < result.changed.length; i += batchSize) {
+    await Promise.all(result.changed.slice(i, i + batchSize).map(async ({ before, after }) => {
+      try {
+        let restored: Customer;
+        if (result.action.kind === 'delete') {
+          restored = await trashService.restore(after, actor);
+        } else {
+          restored = await customerService.save({ ...after, status: before.status, tags: before.tags, created_by: before.created_by });
+          auditService.recordSave(actor, after, restored);
+        }
+        undo.changed.push({ before: after, after: restored });
+      } catch (err: any) {
+        undo.failed.push({ customer: after, error: errorMessage(err, t('errors.unknown')) });
+      }
+    }));
+    onProgress?.(Math.min(i + batchSize, result.changed.length), result.changed.length);
+  }
+
+  return undo;
+};
+
+// "12 cliente(s) atualizado(s). 2 falha(s): Ana, João"
+export const summarizeBulk = (result: BulkResult, verb: string): string => {
+  const parts = [t('bulk.changed', { count: result.changed.length, verb })];
+  if (result.unchanged > 0) parts.push(t('bulk.unchanged', { count: result.unchanged }));
+  if (result.failed.length > 0) {
+    const names = result.failed.slice(0, 3).map(f => f.customer.name).join(', ') + (result.failed.length > 3 ? '...' : '');
+    parts.push(t('bulk.failed', { count: result.failed.length, names, error: result.failed[0].error }));
+  }
+  return parts.join(' ');
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CompanySchema, Customer, CustomerStatus } from '../types';
+import { conflictingKeys, describeConflict, resolveConflict } from './conflicts';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const base = {
+  id: 'c1', empresa_id: 'e1', name: 'Ana', phone: '(11) 98765-4321', phone_e164: '+5511987654321', email: 'ana@ex.com',
+  registration_date: '2024-03-05', status: CustomerStatus.ACTIVE, observations: '', is_deleted: false,
+  created_at: '2024-03-05T12:00:00Z', created_by: 'u1', updated_at: 'v1', custom_fields: { bairro: 'Centro' },
+} as Customer;
+
+const schema = { fields: [{ id: 'f1', key: 'bairro', label: 'Bairro', type: 'text' }], tags: [] } as unknown as CompanySchema;
+
+describe('resolveConflict', () => {
+  it('campo alterado dos dois lados fica com a versão salva, a menos que o usuário escolha a sua', () => {
+    const mine = { ...base, phone: '(11) 91111-1111', phone_e164: '+5511911111111' };
+    const theirs = { ...base, phone: '(11) 92222-2222', phone_e164: '+5511922222222', updated_at: 'v2' };
+    const conflict = { mine, theirs, base };
+
+    expect(conflictingKeys(mine, theirs, base)).toEqual(['phone']);
+    expect(describeConflict({ ...conflict, id: 'q1', detected_at: '' }, schema, [])).toEqual([
+      { key: 'phone', label: 'Telefone', mine: '(11) 91111-1111', theirs: '(11) 92222-2222' },
+    ]);
+    expect(resolveConflict(conflict)).toMatchObject({ phone: '(11) 92222-2222', phone_e164: '+5511922222222', updated_at: 'v2' });
+    // O telefone normalizado acompanha a escolha do telefone
+    expect(resolveConflict(conflict, { phone: 'mine' })).toMatchObject({ phone: '(11) 91111-1111', phone_e164: '+5511911111111', updated_at: 'v2' });
+  });
+
+  it('campos alterados só de um lado são combinados sem perguntar', () => {
+    const mine = { ...base, email: 'ana@novo.com', custom_fields: { bairro: 'Água Branca' } };
+    const theirs = { ...base, status: CustomerStatus.INACTIVE, observations: 'Mudou de cidade', updated_at: 'v2' };
+
+    expect(conflictingKeys(mine, theirs, base)).toEqual([]);
+    expect(resolveConflict({ mine, theirs, base })).toMatchObject({
+      email: 'ana@novo.com', custom_fields: { bairro: 'Água Branca' },
+      status: CustomerStatus.INACTIVE, observations: 'Mudou de cidade', updated_at: 'v2',
+    });
+  });
+
+  it('sem a versão base, toda divergência precisa de decisão', () => {
+    const mine = { ...base, email: 'ana@novo.com' };
+    const theirs = { ...base, status: CustomerStatus.INACTIVE, updated_at: 'v2' };
+
+    expect(conflictingKeys(mine, theirs)).toEqual(['email', 'status']);
+    expect(resolveConflict({ mine, theirs })).toMatchObject({ email: 'ana@ex.com', status: CustomerStatus.INACTIVE });
+  });
+
+  it('cliente enviado à lixeira em outro dispositivo continua lá, com a edição deste aplicada', () => {
+    const mine = { ...base, observations: 'Ligar na segunda' };
+    const theirs = { ...base, is_deleted: true, deleted_at: '2024-04-01T10:00:00Z', deleted_by: 'u2', updated_at: 'v2' } as Customer;
+
+    expect(conflictingKeys(mine, theirs, base)).toEqual([]);
+    expect(resolveConflict({ mine, theirs, base })).toMatchObject({
+      observations: 'Ligar na segunda', is_deleted: true, deleted_at: '2024-04-01T10:00:00Z', deleted_by: 'u2',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+
+import { CompanySchema, Customer, CustomerConflict, CustomFieldValue, Membership } from '../types';
+import { AUDIT_FIELD_LABELS } from './audit';
+import { STATUS_LABELS } from './filters';
+import { formatCustomValue } from './customFields';
+import { formatDate, t } from '../lib/i18n';
+
+export type ConflictSide = 'mine' | 'theirs';
+
+export interface ConflictField {
+  key: string; // Campo do cliente ou cf:<chave> para campos personalizados
+  label: string;
+  mine: string;
+  theirs: string;
+}
+
+const COMPARED_FIELDS = [...Object.keys(AUDIT_FIELD_LABELS), 'tags'] as (keyof Customer)[];
+
+// Campos que acompanham a escolha de outro (ex.: telefone normalizado segue o telefone)
+const LINKED_FIELDS: Partial<Record<keyof Customer, (keyof Customer)[]>> = {
+  phone: ['phone_e164'],
+  is_deleted: ['deleted_at', 'deleted_by'],
+};
+
+const normalize = (value: unknown) =>
+  JSON.stringify(Array.isArray(value) ? [...value].sort() : value ?? '');
+
+// Campos em que duas versões divergem
+export const changedKeys = (from: Customer, to: Customer): string[] => {
+  const customKeys = [...new Set([...Object.keys(from.custom_fields || {}), ...Object.keys(to.custom_fields || {})])];
+  return [
+    ...COMPARED_FIELDS.filter(field => normalize(from[field]) !== normalize(to[field])),
+    ...customKeys
+      .filter(key => normalize(from.custom_fields?.[key]) !== normalize(to.custom_fields?.[key]))
+      .map(key => `cf:${key}`),
+  ];
+};
+
+// Campos alterados dos dois lados desde a versão em que a edição começou.
+// Sem essa base (alterações gravadas antes dela existir), toda divergência precisa de decisão
+export const conflictingKeys = (mine: Customer, theirs: Customer, base?: Customer): string[] => {
+  const diverging = changedKeys(mine, theirs);
+  if (!base) return diverging;
+  const mineChanged = changedKeys(base, mine);
+  const theirsChanged = changedKeys(base, theirs);
+  return diverging.filter(key => mineChanged.includes(key) && theirsChanged.includes(key));
+};
+
+const formatValue = (key: keyof Customer, value: Customer[keyof Customer], schema: CompanySchema, members: Membership[]): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (key === 'status') return STATUS_LABELS[value as Customer['status']] || String(value);
+  if (key === 'created_by') return members.find(m => m.user_id === value)?.name || t('reports.formerMember');
+  if (key === 'registration_date') return formatDate(String(value));
+  if (key === 'tags') return (value as string[]).map(id => schema.tags.find(tag => tag.id === id)?.name).filter(Boolean).join(', ') || '—';
+  if (typeof value === 'boolean') return t(value ? 'filters.yes' : 'filters.no');
+  return String(value);
+};
+
+const formatCustom = (key: string, value: CustomFieldValue | undefined, schema: CompanySchema): string => {
+  const field = schema.fields.find(f => f.key === key);
+  return (field ? formatCustomValue(field, value) : String(value ?? '')) || '—';
+};
+
+export const describeConflict = (conflict: CustomerConflict, schema: CompanySchema, members: Membership[]): ConflictField[] =>
+  conflictingKeys(conflict.mine, conflict.theirs, conflict.base).map(key => {
+    const custom = key.startsWith('cf:') ? key.slice(3) : null;
+    const format = (customer: Customer) => custom
+      ? formatCustom(custom, customer.custom_fields?.[custom], schema)
+      : formatValue(key as keyof Customer, customer[key as keyof Customer], schema, members);
+    return {
+      key,
+      label: custom ? schema.fields.find(f => f.key === custom)?.label || custom : AUDIT_FIELD_LABELS[key] || (key === 'tags' ? t('field.tags') : key),
+      mine: format(conflict.mine),
+      theirs: format(conflict.theirs),
+    };
+  });
+
+const copyField = <K extends keyof Customer>(target: Customer, source: Customer, field: K) => {
+  target[field] = source[field];
+};
+
+// Parte da versão do servidor e aplica o que só este dispositivo alterou, mais os campos
+// em conflito em que o usuário escolheu manter a sua versão
+export const resolveConflict = (
+  conflict: Pick<CustomerConflict, 'mine' | 'theirs' | 'base'>,
+  choices: Record<string, ConflictSide> = {}
+): Customer => {
+  const { mine, theirs, base } = conflict;
+  const resolved: Customer = { ...theirs, custom_fields: { ...theirs.custom_fields } };
+  const conflicting = conflictingKeys(mine, theirs, base);
+  const mineChanged = base ? changedKeys(base, mine) : [];
+  const kept = changedKeys(mine, theirs).filter(key =>
+    conflicting.includes(key) ? choices[key] === 'mine' : mineChanged.includes(key));
+
+  for (const key of kept) {
+    if (key.startsWith('cf:')) {
+      const value = mine.custom_fields?.[key.slice(3)];
+      if (value === undefined) delete resolved.custom_fields![key.slice(3)];
+      else resolved.custom_fields![key.slice(3)] = value;
+      continue;
+    }
+    for (const field of [key as keyof Customer, ...(LINKED_FIELDS[key as keyof Customer] || [])]) {
+      copyField(resolved, mine, field);
+    }
+  }
+  return resolved;
+};
@@ -0,0 +1,149 @@
+
+import { supabase } from '../lib/supabase';
+import { CompanySchema, Customer, CustomFieldDefinition, CustomFieldType, CustomFieldValue, Tag } from '../types';
+import { schemaCache } from './storage';
+import { isNetworkError } from './errors';
+import { normalizeText } from './filters';
+import { parseDateInput } from './validation';
+import { getLocale, t, translatedLabels } from '../lib/i18n';
+
+export const EMPTY_SCHEMA: CompanySchema = { fields: [], tags: [] };
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = translatedLabels({
+  text: 'customField.text',
+  number: 'customField.number',
+  date: 'customField.date',
+  select: 'customField.select',
+  boolean: 'customField.boolean',
+});
+
+export const TAG_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#0ea5e9', '#8b5cf6', '#64748b'];
+
+// "Data de aniversário" -> "data_de_aniversario"
+export const fieldKeyFrom = (label: string) =>
+  normalizeText(label).replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const TRUE_VALUES = ['sim', 's', 'true', '1', 'yes', 'x', 'si', 'sí'];
+const FALSE_VALUES = ['nao', 'não', 'n', 'false', '0', 'no'];
+
+// Converte o texto digitado/importado no valor tipado; lança Error com mensagem para o usuário
+export const parseCustomValue = (field: CustomFieldDefinition, raw: string): CustomFieldValue => {
+  const value = (raw || '').trim();
+  if (!value) {
+    if (field.required && field.type !== 'boolean') throw new Error(t('customField.required', { field: field.label }));
+    return field.type === 'boolean' ? false : null;
+  }
+
+  switch (field.type) {
+    case 'number': {
+      // "1.234,5" (formato brasileiro) ou "1234.5"; o ponto só é separador de milhar quando há vírgula decimal
+      const number = Number(value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value);
+      if (Number.isNaN(number)) throw new Error(t('customField.notNumber', { field: field.label, value }));
+      return number;
+    }
+    case 'date': {
+      // Mesma regra da data de início: "31/02/2024" é recusada em vez de virar 2 de março
+      const date = parseDateInput(value);
+      if (!date) throw new Error(t('customField.invalidDate', { field: field.label, value }));
+      return date;
+    }
+    case 'select': {
+      const option = field.options.find(o => o.toLowerCase() === value.toLowerCase());
+      if (!option) throw new Error(t('customField.notOption', { field: field.label, value }));
+      return option;
+    }
+    case 'boolean': {
+      if (TRUE_VALUES.includes(value.toLowerCase())) return true;
+      if (FALSE_VALUES.includes(value.toLowerCase())) return false;
+      throw new Error(t('customField.yesNo', { field: field.label }));
+    }
+    default:
+      return value;
+  }
+};
+
+export const formatCustomValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (field.type === 'boolean') return value ? t('filters.yes') : t('filters.no');
+  if (field.type === 'date' && typeof value === 'string') return value.split('-').reverse().join('/');
+  if (field.type === 'number' && typeof value === 'number') return value.toLocaleString(getLocale());
+  return String(value);
+};
+
+// Texto cru dos campos personalizados do formulário (inputs nomeados cf_<chave>), validado por validateCustomer
+export const readCustomInputs = (formData: FormData, fields: CustomFieldDefinition[]): Record<string, string> =>
+  Object.fromEntries(fields.map(field => {
+    const value = formData.get(`cf_${field.key}`);
+    return [field.key, field.type === 'boolean' ? (value === 'on' ? 'sim' : 'não') : typeof value === 'string' ? value : ''];
+  }));
+
+export const tagsOf = (customer: Pick<Customer, 'tags'>, schema: CompanySchema): Tag[] =>
+  (customer.tags || []).map(id => schema.tags.find(t => t.id === id)).filter((t): t is Tag => !!t);
+
+export const customFieldService = {
+  async fetchSchema(empresaId: string): Promise<CompanySchema> {
+    try {
+      const [fields, tags] = await Promise.all([
+        supabase.from('custom_fields').select('*').eq('empresa_id', empresaId).order('position', { ascending: true }),
+        supabase.from('tags').select('*').eq('empresa_id', empresaId).order('name', { ascending: true }),
+      ]);
+      if (fields.error) throw fields.error;
+      if (tags.error) throw tags.error;
+
+      const schema: CompanySchema = { fields: fields.data || [], tags: tags.data || [] };
+      schemaCache.set(empresaId, schema);
+      return schema;
+    } catch (err) {
+      const cached = schemaCache.get(empresaId);
+      if (cached && isNetworkError(err)) return cached;
+      throw err;
+    }
+  },
+
+  async saveField(field: Partial<CustomFieldDefinition> & Pick<CustomFieldDefinition, 'empresa_id' | 'label' | 'type'>): Promise<CustomFieldDefinition> {
+    if (field.type === 'select' && !field.options?.length) throw new Error(t('customField.optionsRequired'));
+    const key = field.key || fieldKeyFrom(field.label);
+    if (!key) throw new Error(t('customField.keyInvalid'));
+
+    const { data, error } = await supabase
+      .from('custom_fields')
+      .upsert({ options: [], required: false, show_on_card: false, position: 0, ...field, key })
+      .select()
+      .single();
+
+    if (error) throw error.code === '23505' ? new Error(t('customField.exists', { label: field.label })) : error;
+    return data;
+  },
+
+  // Os valores já gravados nos clientes permanecem no JSON, apenas deixam de ser exibidos
+  async removeField(field: CustomFieldDefinition): Promise<void> {
+    const { error } = await supabase
+      .from('custom_fields')
+      .delete()
+      .eq('id', field.id)
+      .eq('empresa_id', field.empresa_id);
+
+    if (error) throw error;
+  },
+
+  async saveTag(tag: Partial<Tag> & Pick<Tag, 'empresa_id' | 'name' | 'color'>): Promise<Tag> {
+    const { data, error } = await supabase
+      .from('tags')
+      .upsert({ ...tag, name: tag.name.trim() })
+      .select()
+      .single();
+
+    if (error) throw error.code === '23505' ? new Error(`A etiqueta "${tag.name}" já existe.`) : error;
+    return data;
+  },
+
+  async removeTag(tag: Tag): Promise<void> {
+    const { error } = await supabase
+      .from('tags')
+      .delete()
+      .eq('id', tag.id)
+      .eq('empresa_id', tag.empresa_id);
+
+    if (error) throw error;
+  }
+};
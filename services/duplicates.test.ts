@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Customer, CustomerStatus } from '../types';
+import { groupDuplicates, matchReasons, nameSimilarity } from './duplicates';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const customer = (id: string, overrides: Partial<Customer> = {}): Customer => ({
+  id, empresa_id: 'e1', name: id, phone: '', email: '', registration_date: '2024-03-05', status: CustomerStatus.ACTIVE,
+  observations: '', is_deleted: false, created_at: '2024-03-05T12:00:00Z', created_by: 'u1', ...overrides,
+});
+
+describe('nameSimilarity', () => {
+  it('ignora acentos, maiúsculas e partículas como "da"', () => {
+    expect(nameSimilarity('José Conceição', 'jose conceicao')).toBe(1);
+    expect(nameSimilarity('Maria da Silva', 'MARIA SILVA')).toBe(1);
+  });
+
+  it('tolera erro de digitação em nomes longos e sobrenome omitido', () => {
+    expect(nameSimilarity('Maria Aparecida Silva', 'Maria Aparecida Sliva')).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity('João Pedro Alves', 'João Alves')).toBe(0.9);
+  });
+
+  it('exige grafia quase idêntica em nomes curtos ou de uma só palavra', () => {
+    expect(nameSimilarity('Ana', 'Ane')).toBeLessThan(0.85);
+    expect(nameSimilarity('Ana Souza', 'Ana')).toBeLessThan(0.85);
+    expect(nameSimilarity('Ana', '')).toBe(0);
+  });
+});
+
+describe('groupDuplicates', () => {
+  it('agrupa por telefone em qualquer máscara, e-mail sem diferenciar maiúsculas e nome parecido', () => {
+    const groups = groupDuplicates([
+      customer('a', { name: 'Ana Souza', phone: '(11) 98765-4321', registration_date: '2024-05-01' }),
+      customer('b', { name: 'Beatriz', phone: '+55 11 98765-4321', registration_date: '2023-01-10' }),
+      customer('c', { name: 'Carlos', email: 'Carlos@Ex.com', registration_date: null as unknown as string }),
+      customer('d', { name: 'Outro', email: 'carlos@ex.com' }),
+      customer('e', { name: 'José da Conceição' }),
+      customer('f', { name: 'Jose Conceicao' }),
+      customer('g', { name: 'Sem par' }),
+    ]);
+
+    expect(groups.map(group => group.map(c => c.id))).toEqual([['b', 'a'], ['d', 'c'], ['e', 'f']]);
+  });
+
+  it('junta grupos ligados por motivos diferentes e ignora anonimizados e excluídos', () => {
+    const groups = groupDuplicates([
+      customer('a', { name: 'Ana', phone: '(11) 98765-4321' }),
+      customer('b', { name: 'Bia', phone: '11987654321', email: 'bia@ex.com' }),
+      customer('c', { name: 'Beatriz', email: 'bia@ex.com' }),
+      customer('d', { name: 'Ana', phone: '(11) 98765-4321', anonymized_at: '2024-01-01T00:00:00Z' }),
+      customer('e', { name: 'Ana', phone: '(11) 98765-4321', is_deleted: true }),
+    ]);
+
+    expect(groups.map(group => group.map(c => c.id).sort())).toEqual([['a', 'b', 'c']]);
+    expect(matchReasons(customer('b', { name: 'Bia', phone: '11987654321', email: 'bia@ex.com' }), customer('x', { name: 'bia', phone: '+5511987654321', email: 'BIA@ex.com ' })))
+      .toEqual(['phone', 'email', 'name']);
+  });
+});
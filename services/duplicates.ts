@@ -0,0 +1,189 @@
+
+import { Customer, DuplicateMatch, DuplicateReason, MergeField, UserProfile } from '../types';
+import { toE164 } from '../lib/phone';
+import { normalizeText } from './filters';
+import { customerService } from './sync';
+import { trashService } from './trash';
+import { auditService, diffCustomer } from './audit';
+import { interactionService } from './interactions';
+import { taskService } from './tasks';
+import { translatedLabels, translatedList } from '../lib/i18n';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = translatedLabels({
+  phone: 'duplicates.reason.phone',
+  email: 'duplicates.reason.email',
+  name: 'duplicates.reason.name',
+});
+
+export const MERGE_FIELDS = translatedList<{ field: MergeField; label: string }>([
+  { field: 'name', label: 'field.name' },
+  { field: 'phone', label: 'field.phone' },
+  { field: 'email', label: 'field.email' },
+  { field: 'status', label: 'field.status' },
+  { field: 'created_by', label: 'common.responsible' },
+]);
+
+// Semelhança mínima (0 a 1) para considerar dois nomes como da mesma pessoa
+const NAME_THRESHOLD = 0.85;
+
+const NAME_STOPWORDS = new Set(['da', 'de', 'do', 'das', 'dos', 'e']);
+
+const nameTokens = (name: string) =>
+  normalizeText(name).replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(t => t && !NAME_STOPWORDS.has(t));
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// "Maria da Silva" ≈ "Maria Silva" ≈ "Maria Sliva"; nomes de uma só palavra exigem grafia quase idêntica
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (!left.length || !right.length) return 0;
+
+  const joinedLeft = left.join(' ');
+  const joinedRight = right.join(' ');
+  const ratio = 1 - levenshtein(joinedLeft, joinedRight) / Math.max(joinedLeft.length, joinedRight.length);
+
+  // Todos os nomes de um contidos no outro (sobrenome omitido), com pelo menos nome e sobrenome
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  const contained = shorter.length >= 2 && shorter.every(t => longer.includes(t));
+  return Math.max(ratio, contained ? 0.9 : 0);
+};
+
+const phoneKey = (customer: Partial<Customer>) => customer.phone_e164 || toE164(customer.phone) || null;
+
+const emailKey = (customer: Partial<Customer>) => (customer.email || '').trim().toLowerCase() || null;
+
+// Registros anonimizados não têm dados pessoais e nunca são candidatos a duplicado
+const comparable = (customer: Customer) => !customer.anonymized_at && !customer.is_deleted;
+
+export const matchReasons = (a: Partial<Customer>, b: Partial<Customer>): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+  const phone = phoneKey(a);
+  const email = emailKey(a);
+  if (phone && phone === phoneKey(b)) reasons.push('phone');
+  if (email && email === emailKey(b)) reasons.push('email');
+  if (a.name && b.name && nameSimilarity(a.name, b.name) >= NAME_THRESHOLD) reasons.push('name');
+  return reasons;
+};
+
+// Avisos do formulário: compara o cadastro em edição com os candidatos vindos do repositório
+export const findDuplicates = (candidate: Partial<Customer>, customers: Customer[]): DuplicateMatch[] =>
+  customers
+    .filter(c => c.id !== candidate.id && comparable(c))
+    .map(customer => ({ customer, reasons: matchReasons(candidate, customer) }))
+    .filter(match => match.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length);
+
+export const fetchDuplicateCandidates = async (empresaId: string, candidate: Partial<Customer>): Promise<DuplicateMatch[]> => {
+  const probe = { ...candidate, phone_e164: phoneKey(candidate) };
+  if (!probe.phone_e164 && !emailKey(probe) && nameTokens(probe.name || '').length === 0) return [];
+  return findDuplicates(probe, await customerService.findSimilar(empresaId, probe));
+};
+
+// Agrupa a base em conjuntos de possíveis duplicados (união de pares por telefone, e-mail ou nome)
+export const groupDuplicates = (customers: Customer[]): Customer[][] => {
+  const pool = customers.filter(comparable);
+  const parent = new Map(pool.map(c => [c.id, c.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  const exact = new Map<string, string>();
+  for (const customer of pool) {
+    for (const key of [phoneKey(customer) && `p:${phoneKey(customer)}`, emailKey(customer) && `e:${emailKey(customer)}`]) {
+      if (!key) continue;
+      const seen = exact.get(key);
+      if (seen) union(seen, customer.id);
+      else exact.set(key, customer.id);
+    }
+  }
+
+  // Nomes só são comparados dentro do mesmo bloco (início do primeiro nome) para não ser quadrático na base toda
+  const blocks = new Map<string, Customer[]>();
+  for (const customer of pool) {
+    const block = (nameTokens(customer.name)[0] || '').slice(0, 3);
+    if (!block) continue;
+    blocks.set(block, [...(blocks.get(block) || []), customer]);
+  }
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        if (nameSimilarity(block[i].name, block[j].name) >= NAME_THRESHOLD) union(block[i].id, block[j].id);
+      }
+    }
+  }
+
+  const groups = new Map<string, Customer[]>();
+  for (const customer of pool) {
+    const root = find(customer.id);
+    groups.set(root, [...(groups.get(root) || []), customer]);
+  }
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    // Mais antigo primeiro; cadastros antigos sem data de início vão para o fim
+    .map(group => group.sort((a, b) => (a.registration_date || '\uffff').localeCompare(b.registration_date || '\uffff')))
+    .sort((a, b) => b.length - a.length);
+};
+
+// Monta o registro final: campos escolhidos por registro, observações somadas e a data de início mais antiga
+export const buildMerged = (records: Customer[], primaryId: string, choices: Partial<Record<MergeField, string>>): Customer => {
+  const primary = records.find(r => r.id === primaryId) || records[0];
+  const pick = (field: MergeField) => records.find(r => r.id === choices[field]) || primary;
+
+  const observations = records
+    .map(r => (r.observations || '').trim())
+    .filter((value, index, all) => value && all.indexOf(value) === index);
+
+  return {
+    ...primary,
+    name: pick('name').name,
+    phone: pick('phone').phone,
+    phone_e164: pick('phone').phone_e164 || toE164(pick('phone').phone),
+    email: pick('email').email,
+    status: pick('status').status,
+    created_by: pick('created_by').created_by,
+    observations: observations.join('\n\n'),
+    registration_date: records.map(r => r.registration_date).filter(Boolean).sort()[0] || primary.registration_date,
+    // Campos personalizados: o cadastro mantido prevalece; etiquetas somam as de todos
+    custom_fields: Object.assign({}, ...records.filter(r => r.id !== primary.id).map(r => r.custom_fields || {}), primary.custom_fields || {}),
+    tags: [...new Set(records.flatMap(r => r.tags || []))],
+    last_contact_at: records.map(r => r.last_contact_at).filter(Boolean).sort().pop() || null,
+  };
+};
+
+// Grava o registro mesclado e envia os demais para a lixeira (recuperáveis pelo prazo de retenção)
+export const mergeCustomers = async (merged: Customer, records: Customer[], actor: UserProfile): Promise<Customer> => {
+  const primary = records.find(r => r.id === merged.id)!;
+  const others = records.filter(r => r.id !== merged.id);
+
+  const saved = await customerService.save(merged);
+  await interactionService.reassign(others.map(o => o.id), saved.id, saved.empresa_id);
+  await taskService.reassign(others.map(o => o.id), saved.id, saved.empresa_id);
+  for (const other of others) {
+    await trashService.moveToTrash(other, actor);
+  }
+
+  await auditService.record(actor, {
+    empresa_id: saved.empresa_id,
+    customer_id: saved.id,
+    action: 'merge',
+    changes: diffCustomer(primary, saved),
+    summary: `Mesclado com: ${others.map(o => o.name).join(', ')}`
+  });
+  return saved;
+};
@@ -0,0 +1,104 @@
+
+import { AppErrorKind, Customer, FieldErrors } from '../types';
+import { MessageKey, t } from '../lib/i18n';
+
+// Erro com categoria: a interface decide o que mostrar (campos destacados, novo login, tela de conflito...)
+export type AppError = Error & { kind: AppErrorKind; fields?: FieldErrors; code?: string };
+
+export type ConflictError = AppError & { kind: 'conflict'; mine: Customer; theirs: Customer };
+
+export const appError = <T extends object = {}>(kind: AppErrorKind, message: string, extra?: T): AppError & T =>
+  Object.assign(new Error(message), { kind }, extra) as AppError & T;
+
+export const validationError = (fields: FieldErrors): AppError =>
+  appError('validation', Object.values(fields)[0] || t('validation.checkFields'), { fields });
+
+export const permissionError = (message = t('errors.permission')): AppError =>
+  appError('permission', message);
+
+// Concorrência otimista: a gravação só vale se o registro ainda estiver na versão (updated_at) em que foi lido
+export const conflictError = (mine: Customer, theirs: Customer): ConflictError =>
+  appError('conflict', t('errors.conflict'), { mine, theirs }) as ConflictError;
+
+// O cliente não existe mais no servidor (removido definitivamente ou apagado a pedido do titular em outro dispositivo)
+export const deletedElsewhereError = (customer: Customer): AppError =>
+  appError('conflict', t('errors.deletedElsewhere'), { code: 'deleted', mine: customer });
+
+export const isAppError = (err: any, kind?: AppErrorKind): err is AppError =>
+  typeof err?.kind === 'string' && (!kind || err.kind === kind) && err instanceof Error;
+
+export const isConflictError = (err: any): err is ConflictError => isAppError(err, 'conflict') && err.code !== 'deleted';
+
+export const isDeletedElsewhere = (err: any): boolean => isAppError(err, 'conflict') && err.code === 'deleted';
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Falhas de rede (sem resposta do servidor) mantêm a alteração na fila; as demais são reportadas
+export const isNetworkError = (err: any): boolean =>
+  isAppError(err) ? err.kind === 'network' : !isOnline() || /fetch|network|timeout/i.test(err?.message || '');
+
+const SESSION_EXPIRED: MessageKey = 'errors.sessionExpired';
+const NO_PERMISSION: MessageKey = 'errors.permissionAsk';
+
+// Códigos do Supabase Auth com orientação clara para o usuário
+const AUTH_ERRORS: Record<string, MessageKey> = {
+  user_already_exists: 'errors.emailInUse',
+  email_exists: 'errors.emailInUse',
+  weak_password: 'errors.weakPassword',
+  invalid_credentials: 'errors.invalidCredentials',
+  email_not_confirmed: 'errors.emailNotConfirmed',
+  over_request_rate_limit: 'errors.rateLimit',
+  over_email_send_rate_limit: 'errors.emailRateLimit',
+  signup_disabled: 'errors.signupDisabled',
+  otp_disabled: 'errors.otpDisabled',
+  otp_expired: 'errors.otpExpired',
+  same_password: 'errors.samePassword',
+  email_address_invalid: 'validation.emailRequired',
+  session_expired: SESSION_EXPIRED,
+  refresh_token_not_found: SESSION_EXPIRED,
+};
+
+// Versões antigas do Supabase Auth não enviam o código: identifica pela mensagem
+const AUTH_MESSAGES: [RegExp, string][] = [
+  [/already registered/i, 'user_already_exists'],
+  [/password should be/i, 'weak_password'],
+  [/invalid login credentials|does not exist/i, 'invalid_credentials'],
+  [/email not confirmed/i, 'email_not_confirmed'],
+  [/rate limit/i, 'over_request_rate_limit'],
+  [/signups not allowed for otp/i, 'otp_disabled'],
+  [/should be different from the old/i, 'same_password'],
+];
+
+// Códigos do PostgreSQL/PostgREST
+const DATABASE_ERRORS: Record<string, [AppErrorKind, MessageKey]> = {
+  '42501': ['permission', NO_PERMISSION],
+  PGRST301: ['auth', SESSION_EXPIRED],
+  PGRST303: ['auth', SESSION_EXPIRED],
+  '23505': ['validation', 'errors.duplicate'],
+  '23502': ['validation', 'errors.requiredFields'],
+  '22P02': ['validation', 'errors.invalidFormat'],
+  '22007': ['validation', 'errors.invalidDate'],
+  '22008': ['validation', 'errors.dateOutOfRange'],
+};
+
+// Converte qualquer erro (Supabase, rede ou dos serviços) em AppError com mensagem no idioma da interface
+export const toAppError = (err: any, fallback = t('errors.generic')): AppError => {
+  if (isAppError(err)) return err;
+  if (isNetworkError(err)) return appError('network', t('errors.network'));
+
+  if (err?.__isAuthError) {
+    const code = err.code || AUTH_MESSAGES.find(([pattern]) => pattern.test(err.message || ''))?.[1];
+    if (code && AUTH_ERRORS[code]) return appError('auth', t(AUTH_ERRORS[code]), { code });
+  }
+
+  const known = DATABASE_ERRORS[err?.code];
+  if (known) return appError(known[0], t(known[1]));
+  if (err?.status === 401) return appError('auth', t(SESSION_EXPIRED));
+  if (err?.status === 403) return appError('permission', t(NO_PERMISSION));
+
+  // Erros lançados pelos próprios serviços já trazem a mensagem para o usuário; os do backend, não
+  const ownMessage = err?.code === undefined && err?.status === undefined && err instanceof Error;
+  return appError('unknown', ownMessage && err.message ? err.message : fallback);
+};
+
+export const errorMessage = (err: any, fallback?: string): string => toAppError(err, fallback).message;
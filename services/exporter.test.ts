@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+import { Customer, CustomerStatus } from '../types';
+import { parseCSV } from '../lib/csv';
+import { buildExport, exportTargets, neutralizeFormula } from './exporter';
+import { applyFilters, DEFAULT_FILTERS } from './filters';
+
+// O cliente do Supabase é importado de uma URL; nenhum destes testes acessa o banco
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const customer = (overrides: Partial<Customer>): Customer => ({
+  id: 'c1',
+  empresa_id: 'e1',
+  name: 'Ana',
+  phone: '(11) 98765-4321',
+  phone_e164: '+5511987654321',
+  email: '',
+  registration_date: '2024-03-05',
+  status: CustomerStatus.ACTIVE,
+  observations: '',
+  is_deleted: false,
+  created_at: '2024-03-05T12:00:00Z',
+  created_by: 'u1',
+  ...overrides,
+});
+
+// Blob.text() descarta o BOM ao decodificar; aqui ele precisa continuar visível
+const rawText = async (blob: Blob) => new TextDecoder('utf-8', { ignoreBOM: true }).decode(await blob.arrayBuffer());
+
+const ana = customer({ id: 'c1', name: 'Silva, Ana', observations: 'disse "volto amanhã"\nligar às 10h' });
+const bruno = customer({ id: 'c2', name: 'Bruno', status: CustomerStatus.PENDING });
+const carla = customer({ id: 'c3', name: 'Carla', status: CustomerStatus.INACTIVE });
+const all = [ana, bruno, carla];
+
+describe('buildExport (CSV)', () => {
+  it('começa com BOM e escapa vírgulas, aspas e quebras de linha', async () => {
+    const text = await rawText(buildExport([ana], { format: 'csv', fields: ['name', 'observations'] }));
+    expect(text).toBe('\uFEFFNome,Observações\r\n"Silva, Ana","disse ""volto amanhã""\nligar às 10h"');
+  });
+
+  it('usa ";" para o Excel em português', async () => {
+    const text = await buildExport([ana], { format: 'csv', fields: ['name', 'status'], delimiter: ';' }).text();
+    expect(parseCSV(text, ';')).toEqual([['Nome', 'Status'], ['Silva, Ana', 'ativo']]);
+  });
+
+  it('exporta só os campos escolhidos, na ordem pedida', async () => {
+    const text = await buildExport([bruno], { format: 'csv', fields: ['email', 'id', 'phone_e164'] }).text();
+    expect(parseCSV(text)).toEqual([['E-mail', 'ID', 'Telefone (E.164)'], ['', 'c2', '+5511987654321']]);
+  });
+
+  it('recusa exportação sem campos', () => {
+    expect(() => buildExport([ana], { format: 'csv', fields: [] })).toThrow();
+  });
+
+  it('neutraliza células que seriam lidas como fórmula', async () => {
+    const evil = customer({ name: '=HYPERLINK("http://x","clique")', observations: '@SUM(A1)', email: '-2+3' });
+    const text = await buildExport([evil], { format: 'csv', fields: ['name', 'observations', 'email', 'phone_e164'] }).text();
+    expect(parseCSV(text)[1]).toEqual(["'=HYPERLINK(\"http://x\",\"clique\")", "'@SUM(A1)", "'-2+3", '+5511987654321']);
+  });
+});
+
+describe('buildExport (JSON e XLSX)', () => {
+  it('JSON mantém os valores como estão', async () => {
+    const evil = customer({ name: '+cmd' });
+    const records = JSON.parse(await buildExport([evil], { format: 'json', fields: ['name', 'tags'] }).text());
+    expect(records).toEqual([{ name: '+cmd', tags: [] }]);
+  });
+
+  it('XLSX traz cabeçalho, valores e células neutralizadas', async () => {
+    const evil = customer({ name: '=1+1' });
+    const blob = buildExport([ana, evil], { format: 'xlsx', fields: ['name', 'phone'] });
+    const workbook = XLSX.read(new Uint8Array(await blob.arrayBuffer()), { type: 'array' });
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets.Clientes, { header: 1 });
+    expect(rows).toEqual([['Nome', 'Telefone'], ['Silva, Ana', '(11) 98765-4321'], ["'=1+1", '(11) 98765-4321']]);
+  });
+});
+
+describe('neutralizeFormula', () => {
+  it('mantém números, telefones e valores que não são texto', () => {
+    expect(neutralizeFormula('+55 (11) 98765-4321')).toBe('+55 (11) 98765-4321');
+    expect(neutralizeFormula('-3,5')).toBe('-3,5');
+    expect(neutralizeFormula(-3)).toBe(-3);
+    expect(neutralizeFormula(null)).toBe(null);
+    expect(neutralizeFormula('Ana = cliente')).toBe('Ana = cliente');
+  });
+});
+
+describe('exportTargets', () => {
+  it('exporta a base inteira, o resultado dos filtros ou a seleção manual', () => {
+    const filtered = applyFilters(all, { ...DEFAULT_FILTERS, statuses: [CustomerStatus.PENDING, CustomerStatus.INACTIVE], sort: 'name', direction: 'asc' });
+    expect(exportTargets('all', all, filtered, new Set())).toEqual(all);
+    expect(exportTargets('filtered', all, filtered, new Set()).map(c => c.name)).toEqual(['Bruno', 'Carla']);
+    expect(exportTargets('selected', all, filtered, new Set(['c3', 'c1'])).map(c => c.id)).toEqual(['c1', 'c3']);
+  });
+});
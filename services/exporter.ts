@@ -0,0 +1,127 @@
+
+import * as XLSX from 'xlsx';
+import { CompanySchema, Customer, ExportField, ExportFormat, ExportOptions, ExportScope } from '../types';
+import { stringifyCSV } from '../lib/csv';
+import { stringifyVCards, VCard } from '../lib/vcard';
+import { toE164 } from '../lib/phone';
+import { localDateISO, t, translatedList } from '../lib/i18n';
+import { EMPTY_SCHEMA, formatCustomValue, tagsOf } from './customFields';
+
+export const EXPORT_FIELDS = translatedList<{ field: ExportField; label: string }>([
+  { field: 'id', label: 'field.id' },
+  { field: 'name', label: 'field.name' },
+  { field: 'phone', label: 'field.phone' },
+  { field: 'phone_e164', label: 'field.phoneE164' },
+  { field: 'email', label: 'field.email' },
+  { field: 'status', label: 'field.status' },
+  { field: 'registration_date', label: 'field.registrationDate' },
+  { field: 'observations', label: 'field.observations' },
+  { field: 'created_at', label: 'field.createdAt' },
+  { field: 'created_by', label: 'field.createdBy' },
+  { field: 'tags', label: 'field.tags' },
+  { field: 'empresa_id', label: 'field.company' },
+]);
+
+export const DEFAULT_EXPORT_FIELDS: ExportField[] = EXPORT_FIELDS
+  .map(f => f.field)
+  .filter(f => f !== 'empresa_id');
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8;',
+  json: 'application/json;charset=utf-8;',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  vcf: 'text/vcard;charset=utf-8;',
+};
+
+export const exportFieldsFor = (schema: CompanySchema): { field: ExportField; label: string }[] => [
+  ...EXPORT_FIELDS,
+  ...schema.fields.map(f => ({ field: `cf:${f.key}` as ExportField, label: f.label })),
+];
+
+// Valor de um campo para o arquivo: em JSON mantém o tipo; em planilhas, o texto exibido na tela
+const valueOf = (customer: Customer, field: ExportField, schema: CompanySchema, typed: boolean): unknown => {
+  if (field === 'tags') {
+    const names = tagsOf(customer, schema).map(t => t.name);
+    return typed ? names : names.join(', ');
+  }
+  if (field.startsWith('cf:')) {
+    const definition = schema.fields.find(f => `cf:${f.key}` === field);
+    const value = customer.custom_fields?.[field.slice(3)] ?? null;
+    return typed || !definition ? value : formatCustomValue(definition, value);
+  }
+  return customer[field as keyof Customer] ?? (typed ? null : '');
+};
+
+// Planilhas executam células que começam com = + - @ como fórmula; o apóstrofo faz o Excel exibi-las como texto.
+// Números e telefones ("+55 11 98765-4321", "-3,5") não chamam funções e ficam como estão
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMERIC_TEXT = /^[+-]?[\d\s().,-]+$/;
+
+export const neutralizeFormula = (value: unknown): unknown =>
+  typeof value === 'string' && FORMULA_START.test(value) && !NUMERIC_TEXT.test(value) ? `'${value}` : value;
+
+// Clientes de cada opção da exportação: o resultado da pesquisa, a seleção manual ou a base inteira
+export const exportTargets = (scope: ExportScope, customers: Customer[], filteredCustomers: Customer[], selectedIds: ReadonlySet<string>): Customer[] =>
+  scope === 'all' ? customers
+    : scope === 'filtered' ? filteredCustomers
+    : customers.filter(c => selectedIds.has(c.id));
+
+// Contato para a agenda do celular; as etiquetas viram categorias
+export const toVCard = (customer: Customer, schema: CompanySchema = EMPTY_SCHEMA): VCard => ({
+  uid: customer.id,
+  name: customer.name,
+  phones: customer.phone ? [{ value: customer.phone_e164 || toE164(customer.phone) || customer.phone, types: ['cell'] }] : [],
+  emails: customer.email ? [customer.email] : [],
+  note: customer.observations || '',
+  categories: tagsOf(customer, schema).map(t => t.name),
+});
+
+// Gera o conteúdo do arquivo sem tocar no DOM, para poder ser reutilizado (e testado) fora da interface
+export const buildExport = (customers: Customer[], options: ExportOptions, schema: CompanySchema = EMPTY_SCHEMA): Blob => {
+  const { format, fields } = options;
+  // O vCard tem campos fixos; a seleção de colunas vale só para as planilhas e o JSON
+  if (format === 'vcf') {
+    return new Blob([stringifyVCards(customers.map(c => toVCard(c, schema)), options.vcardVersion || '3.0')], { type: MIME_TYPES.vcf });
+  }
+  if (fields.length === 0) throw new Error(t('export.noFields'));
+  const labelOf = (field: ExportField) => exportFieldsFor(schema).find(f => f.field === field)?.label || String(field);
+
+  if (format === 'json') {
+    const records = customers.map(c => Object.fromEntries(fields.map(f => [f, valueOf(c, f, schema, true)])));
+    return new Blob([JSON.stringify(records, null, 2)], { type: MIME_TYPES.json });
+  }
+
+  const rows = [fields.map(labelOf), ...customers.map(c => fields.map(f => valueOf(c, f, schema, false)))];
+  return buildSheet(rows, format, 'Clientes', options.delimiter);
+};
+
+// Planilha (CSV ou XLSX) a partir de linhas prontas; toda exportação em planilha passa por aqui para neutralizar fórmulas
+export const buildSheet = (rows: unknown[][], format: 'csv' | 'xlsx', sheetName: string, delimiter = ','): Blob => {
+  const safe = rows.map(row => row.map(neutralizeFormula));
+
+  if (format === 'xlsx') {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(safe), sheetName.slice(0, 31));
+    return new Blob([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], { type: MIME_TYPES.xlsx });
+  }
+
+  // BOM para o Excel reconhecer UTF-8 (acentos)
+  return new Blob(["\uFEFF" + stringifyCSV(safe, delimiter)], { type: MIME_TYPES.csv });
+};
+
+export const exportFileName = (format: ExportFormat, prefix = 'clientes_export') =>
+  `${prefix}_${localDateISO()}.${format}`;
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportCustomers = (customers: Customer[], options: ExportOptions, schema: CompanySchema = EMPTY_SCHEMA): void => {
+  if (customers.length === 0) throw new Error(t('export.empty'));
+  downloadBlob(buildExport(customers, options, schema), exportFileName(options.format));
+};
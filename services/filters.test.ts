@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Customer, CustomerStatus } from '../types';
+import { applyFilters, DEFAULT_FILTERS, filtersFromQuery, filtersToQuery, matchesSearch, paginate, searchText } from './filters';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const joao = {
+  id: 'c1', empresa_id: 'e1', name: 'João Conceição', phone: '(11) 98765-4321', phone_e164: '+5511987654321', email: 'joao@ex.com',
+  registration_date: '2024-03-05', status: CustomerStatus.ACTIVE, observations: 'Prefere manhã', is_deleted: false,
+  created_at: '2024-03-05T12:00:00Z', created_by: 'u1', custom_fields: { bairro: 'Água Branca', vip: true, visitas: 3, indicacao: null },
+} as Customer;
+
+describe('busca livre', () => {
+  it('ignora acentos e maiúsculas nos dois sentidos', () => {
+    expect(matchesSearch(joao, 'joao conceicao')).toBe(true);
+    expect(matchesSearch({ ...joao, name: 'Joao' }, 'JOÃO')).toBe(true);
+    expect(matchesSearch(joao, 'agua bra')).toBe(true);
+  });
+
+  it('não emenda campos vizinhos e ignora campos vazios', () => {
+    expect(searchText(joao)).toBe('joao conceicao\njoao@ex.com\n(11) 98765-4321\nprefere manha\nagua branca\ntrue\n3');
+    expect(matchesSearch(joao, 'conceicao joao@')).toBe(false);
+  });
+
+  it('busca só com dígitos procura o telefone em qualquer máscara', () => {
+    expect(matchesSearch(joao, '98765 43')).toBe(true);
+    expect(matchesSearch(joao, '5511987')).toBe(true);
+  });
+});
+
+describe('filtersFromQuery', () => {
+  it('lê de volta o que filtersToQuery escreveu', () => {
+    const filters = { ...DEFAULT_FILTERS, search: 'ana', statuses: [CustomerStatus.PENDING], period: 'this_year' as const, sort: 'name' as const, direction: 'asc' as const };
+    expect(filtersFromQuery(filtersToQuery(filters))).toEqual(filters);
+  });
+
+  it('ignora período e ordem que não são chaves próprias dos rótulos', () => {
+    const filters = filtersFromQuery('periodo=constructor&ordem=-toString');
+    expect(filters.period).toBeNull();
+    expect(filters.sort).toBe(DEFAULT_FILTERS.sort);
+  });
+});
+
+describe('paginate', () => {
+  const customers = [
+    { ...joao, id: 'c1', name: 'Érica', registration_date: '2024-03-05' },
+    { ...joao, id: 'c2', name: 'bruno', registration_date: null },
+    { ...joao, id: 'c3', name: 'Ana', registration_date: '2024-01-10' },
+    { ...joao, id: 'c4', name: 'Zuleide', registration_date: null },
+    { ...joao, id: 'c5', name: 'carla', registration_date: '2024-03-05' },
+  ] as unknown as Customer[];
+
+  const walk = (filters: typeof DEFAULT_FILTERS) => {
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = paginate(customers, filters, cursor, 2);
+      ids.push(...page.items.map(c => c.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return ids;
+  };
+
+  it('ordena por nome sem acentos nem maiúsculas', () => {
+    expect(applyFilters(customers, { ...DEFAULT_FILTERS, sort: 'name', direction: 'asc' }).map(c => c.name))
+      .toEqual(['Ana', 'bruno', 'carla', 'Érica', 'Zuleide']);
+  });
+
+  it('percorre as páginas até os cadastros sem data, que ficam no fim nos dois sentidos', () => {
+    expect(walk({ ...DEFAULT_FILTERS, sort: 'registration_date', direction: 'asc' })).toEqual(['c3', 'c1', 'c5', 'c2', 'c4']);
+    expect(walk({ ...DEFAULT_FILTERS, sort: 'registration_date', direction: 'desc' })).toEqual(['c1', 'c5', 'c3', 'c2', 'c4']);
+  });
+
+  it('continua depois de um item sem data que saiu da lista', () => {
+    const filters = { ...DEFAULT_FILTERS, sort: 'registration_date' as const, direction: 'asc' as const };
+    const first = paginate(customers, filters, null, 4);
+    expect(first.items.map(c => c.id)).toEqual(['c3', 'c1', 'c5', 'c2']);
+    expect(paginate(customers.filter(c => c.id !== 'c2'), filters, first.nextCursor, 4).items.map(c => c.id)).toEqual(['c4']);
+  });
+});
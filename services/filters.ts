@@ -0,0 +1,226 @@
+
+import { supabase } from '../lib/supabase';
+import { Customer, CustomerFilters, CustomerPage, CustomerStatus, DatePeriod, SavedView, SortField } from '../types';
+import { translatedLabels } from '../lib/i18n';
+
+export const PAGE_SIZE = 50;
+
+export const DEFAULT_FILTERS: CustomerFilters = {
+  search: '',
+  statuses: [],
+  period: null,
+  from: null,
+  to: null,
+  email: null,
+  responsible: null,
+  tags: [],
+  custom: {},
+  sort: 'created_at',
+  direction: 'desc',
+};
+
+export const SORT_LABELS: Record<SortField, string> = translatedLabels({
+  name: 'sort.name',
+  registration_date: 'sort.registrationDate',
+  created_at: 'sort.createdAt',
+});
+
+export const PERIOD_LABELS: Record<DatePeriod, string> = translatedLabels({
+  this_month: 'period.thisMonth',
+  last_30_days: 'period.last30Days',
+  this_year: 'period.thisYear',
+});
+
+export const STATUS_LABELS: Record<CustomerStatus, string> = translatedLabels({
+  [CustomerStatus.ACTIVE]: 'status.active',
+  [CustomerStatus.PENDING]: 'status.pending',
+  [CustomerStatus.INACTIVE]: 'status.inactive',
+});
+
+// Minúsculas e sem acentos: "José" encontra "jose" e vice-versa
+export const normalizeText = (value: string | null | undefined) =>
+  (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const onlyDigits = (value: string | null | undefined) => (value || '').replace(/\D/g, '');
+
+const toISODate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Converte o período relativo em datas concretas no momento da consulta
+export const resolveDateRange = (filters: CustomerFilters, today = new Date()): { from: string | null; to: string | null } => {
+  if (!filters.period) return { from: filters.from, to: filters.to };
+
+  const to = toISODate(today);
+  if (filters.period === 'this_month') return { from: toISODate(new Date(today.getFullYear(), today.getMonth(), 1)), to };
+  if (filters.period === 'this_year') return { from: `${today.getFullYear()}-01-01`, to };
+  return { from: toISODate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 30)), to };
+};
+
+// Texto pesquisável do cliente, um campo por linha para a busca não emendar campos vizinhos.
+// A coluna calculada search_text(customers) do banco segue a mesma regra (unaccent + lower), e a busca da listagem filtra por ela
+export const searchText = (customer: Customer): string =>
+  normalizeText([customer.name, customer.email, customer.phone, customer.observations, ...Object.values(customer.custom_fields || {})]
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .join('\n'));
+
+export const matchesSearch = (customer: Customer, search: string): boolean => {
+  const term = normalizeText(search);
+  if (!term) return true;
+
+  // Busca sem letras é tratada como telefone: "(11) 9" encontra "119..."
+  const digits = onlyDigits(search);
+  if (digits.length >= 3 && !/[a-z]/i.test(search) && (onlyDigits(customer.phone).includes(digits) || onlyDigits(customer.phone_e164).includes(digits))) {
+    return true;
+  }
+
+  return searchText(customer).includes(term);
+};
+
+export const applyFilters = (customers: Customer[], filters: CustomerFilters): Customer[] => {
+  const { from, to } = resolveDateRange(filters);
+
+  const result = customers.filter(c =>
+    matchesSearch(c, filters.search) &&
+    (filters.statuses.length === 0 || filters.statuses.includes(c.status)) &&
+    (!from || c.registration_date >= from) &&
+    (!to || c.registration_date <= to) &&
+    (!filters.email || (filters.email === 'with') === !!c.email?.trim()) &&
+    (!filters.responsible || c.created_by === filters.responsible) &&
+    (filters.tags.length === 0 || filters.tags.some(tag => c.tags?.includes(tag))) &&
+    Object.entries(filters.custom).every(([key, value]) => String(c.custom_fields?.[key] ?? '') === value)
+  );
+
+  return result.sort((a, b) => compareSortKeys(sortKey(a, filters.sort), sortKey(b, filters.sort), filters.direction));
+};
+
+// Coluna usada na ordenação do servidor: sort_name é a coluna calculada unaccent(lower(name)) COLLATE "C",
+// igual a normalizeText, para a ordem por nome não depender do idioma do banco
+export const SORT_COLUMNS: Record<SortField, string> = {
+  name: 'sort_name',
+  registration_date: 'registration_date',
+  created_at: 'created_at',
+};
+
+type SortKey = [string | null, string];
+
+const sortKey = (customer: Customer, sort: SortField): SortKey =>
+  [sort === 'name' ? normalizeText(customer.name) : customer[sort] || null, customer.id];
+
+// Mesma ordem do servidor: comparação por código (COLLATE "C"), valores vazios sempre no fim e desempate pelo id
+const compareSortKeys = ([left, leftId]: SortKey, [right, rightId]: SortKey, direction: CustomerFilters['direction']): number => {
+  const byCode = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  const byValue = left === right ? 0
+    : left === null ? 1
+    : right === null ? -1
+    : byCode(left, right) * (direction === 'asc' ? 1 : -1);
+  return byValue || byCode(leftId, rightId);
+};
+
+// Cursor opaco com o valor da coluna de ordenação (null se vazio) e o id do último item da página
+export const encodeCursor = (customer: Customer, sort: SortField): string =>
+  btoa(encodeURIComponent(JSON.stringify(sortKey(customer, sort))));
+
+export const decodeCursor = (cursor: string): SortKey =>
+  JSON.parse(decodeURIComponent(atob(cursor)));
+
+// Paginação sobre uma lista em memória (cache offline), com o mesmo contrato do servidor
+export const paginate = (customers: Customer[], filters: CustomerFilters, cursor: string | null, limit: number): CustomerPage => {
+  const sorted = applyFilters(customers, filters);
+  let start = 0;
+
+  if (cursor) {
+    const key = decodeCursor(cursor);
+    const index = sorted.findIndex(c => c.id === key[1]);
+    // Se o último item sumiu da lista, continua a partir do valor de ordenação
+    start = index >= 0 ? index + 1 : sorted.findIndex(c => compareSortKeys(sortKey(c, filters.sort), key, filters.direction) > 0);
+    if (start < 0) start = sorted.length;
+  }
+
+  const items = sorted.slice(start, start + limit);
+  const last = items[items.length - 1];
+  return { items, nextCursor: last && start + limit < sorted.length ? encodeCursor(last, filters.sort) : null };
+};
+
+export const countActiveFilters = (filters: CustomerFilters) =>
+  [filters.statuses.length > 0, !!(filters.period || filters.from || filters.to), !!filters.email, !!filters.responsible, filters.tags.length > 0]
+    .filter(Boolean).length + Object.keys(filters.custom).length;
+
+// Estado dos filtros na URL, para compartilhar a visão com colegas
+export const filtersToQuery = (filters: CustomerFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.statuses.length) params.set('status', filters.statuses.join(','));
+  if (filters.period) params.set('periodo', filters.period);
+  if (filters.from) params.set('de', filters.from);
+  if (filters.to) params.set('ate', filters.to);
+  if (filters.email) params.set('email', filters.email === 'with' ? 'com' : 'sem');
+  if (filters.responsible) params.set('resp', filters.responsible);
+  if (filters.tags.length) params.set('tags', filters.tags.join(','));
+  Object.entries(filters.custom).forEach(([key, value]) => params.set(`cf.${key}`, value));
+  if (filters.sort !== DEFAULT_FILTERS.sort || filters.direction !== DEFAULT_FILTERS.direction) {
+    params.set('ordem', `${filters.direction === 'desc' ? '-' : ''}${filters.sort}`);
+  }
+  return params.toString();
+};
+
+export const filtersFromQuery = (query: string): CustomerFilters => {
+  const params = new URLSearchParams(query);
+  const statuses = (params.get('status') || '').split(',')
+    .filter((s): s is CustomerStatus => (Object.values(CustomerStatus) as string[]).includes(s));
+  const period = params.get('periodo') as DatePeriod | null;
+  const order = params.get('ordem') || '';
+  const sort = order.replace(/^-/, '') as SortField;
+  const email = params.get('email');
+
+  return {
+    search: params.get('q') || '',
+    statuses,
+    period: period && Object.hasOwn(PERIOD_LABELS, period) ? period : null,
+    from: params.get('de'),
+    to: params.get('ate'),
+    email: email === 'com' ? 'with' : email === 'sem' ? 'without' : null,
+    responsible: params.get('resp'),
+    tags: (params.get('tags') || '').split(',').filter(Boolean),
+    custom: Object.fromEntries([...params.entries()]
+      .filter(([key]) => key.startsWith('cf.'))
+      .map(([key, value]) => [key.slice(3), value])),
+    sort: Object.hasOwn(SORT_LABELS, sort) ? sort : DEFAULT_FILTERS.sort,
+    direction: order ? (order.startsWith('-') ? 'desc' : 'asc') : DEFAULT_FILTERS.direction,
+  };
+};
+
+export const savedViewService = {
+  async fetchAll(empresaId: string, userId: string): Promise<SavedView[]> {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    // Visões salvas antes de novos filtros existirem recebem os valores padrão
+    return (data || []).map((view: SavedView) => ({ ...view, filters: { ...DEFAULT_FILTERS, ...view.filters } }));
+  },
+
+  async save(view: Pick<SavedView, 'empresa_id' | 'user_id' | 'name' | 'filters'>): Promise<SavedView> {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .insert(view)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async remove(view: SavedView): Promise<void> {
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', view.id)
+      .eq('user_id', view.user_id);
+
+    if (error) throw error;
+  }
+};
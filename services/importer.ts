@@ -0,0 +1,213 @@
+
+import * as XLSX from 'xlsx';
+import { CompanySchema, Customer, CustomerStatus, ImportAction, ImportField, ImportRow, UserProfile } from '../types';
+import { parseCSV } from '../lib/csv';
+import { parseVCards, VCard } from '../lib/vcard';
+import { localDateISO, t, translatedList } from '../lib/i18n';
+import { toE164 } from '../lib/phone';
+import { customerService } from './sync';
+import { auditService, diffCustomer } from './audit';
+import { EMPTY_SCHEMA } from './customFields';
+import { validateCustomer } from './validation';
+
+export const IMPORT_FIELDS = translatedList<{ field: ImportField; label: string; required?: boolean }>([
+  { field: 'name', label: 'field.name', required: true },
+  { field: 'phone', label: 'field.phone', required: true },
+  { field: 'email', label: 'field.email' },
+  { field: 'status', label: 'field.status' },
+  { field: 'registration_date', label: 'field.registrationDate' },
+  { field: 'observations', label: 'field.observations' },
+]);
+
+// Campos fixos + etiquetas e campos personalizados da empresa
+export const importFieldsFor = (schema: CompanySchema): { field: ImportField; label: string; required?: boolean }[] => [
+  ...IMPORT_FIELDS,
+  { field: 'tags', label: t('field.tags') },
+  ...schema.fields.map(f => ({ field: `cf:${f.key}` as ImportField, label: f.label, required: f.required && f.type !== 'boolean' })),
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+const HEADER_ALIASES: Partial<Record<ImportField, string[]>> = {
+  name: ['nome', 'name', 'cliente', 'nome completo'],
+  phone: ['telefone', 'phone', 'celular', 'whatsapp', 'fone'],
+  email: ['email', 'e-mail', 'mail'],
+  status: ['status', 'situacao', 'situação', 'classificacao', 'classificação'],
+  registration_date: ['data', 'data cadastro', 'data de inicio', 'data de início', 'registration_date', 'inicio', 'início'],
+  observations: ['observacoes', 'observações', 'obs', 'notas', 'anotacoes', 'anotações', 'observations'],
+  tags: ['etiquetas', 'etiqueta', 'tags', 'marcadores'],
+};
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+const digits = (value: string) => (value || '').replace(/\D/g, '');
+
+// Contatos viram uma planilha com cabeçalhos que o mapeamento automático já reconhece.
+// Categorias da agenda raramente coincidem com as etiquetas da empresa, por isso ficam para mapeamento manual
+const vcardTable = (cards: VCard[]): string[][] => [
+  [t('field.name'), t('field.phone'), t('field.email'), t('field.observations'), t('import.categories')],
+  ...cards.map(card => {
+    const [phone, ...otherPhones] = [...card.phones]
+      .sort((a, b) => Number(b.types.includes('cell')) - Number(a.types.includes('cell')))
+      .map(p => p.value);
+    const [email, ...otherEmails] = card.emails;
+    const others = [...otherPhones, ...otherEmails];
+    const note = [card.note, others.length ? t('import.otherContacts', { contacts: others.join(', ') }) : ''].filter(Boolean).join('\n');
+    return [card.name, phone || '', email || '', note, card.categories.join(', ')];
+  }),
+];
+
+export const readImportFile = async (file: File): Promise<ImportSheet> => {
+  let table: string[][];
+
+  if (/\.(xlsx|xls)$/i.test(file.name)) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    table = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, dateNF: 'yyyy-mm-dd', defval: '' })
+      .map(row => row.map(cell => String(cell ?? '')))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  } else if (/\.vcf$/i.test(file.name)) {
+    table = vcardTable(parseVCards(await file.text()));
+  } else {
+    table = parseCSV(await file.text());
+  }
+
+  if (table.length < 2) throw new Error(t('import.noRows'));
+  const [headers, ...rows] = table;
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+export const guessMapping = (headers: string[], schema: CompanySchema = EMPTY_SCHEMA): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  // O rótulo no idioma atual reconhece as planilhas exportadas pelo próprio sistema
+  const aliases = importFieldsFor(schema).map(({ field, label }) => ({
+    field,
+    names: [normalizeHeader(label), ...(HEADER_ALIASES[field] || [field.slice(3).replace(/_/g, ' ')])],
+  }));
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    const match = aliases.find(a => mapping[a.field] === undefined && a.names.includes(normalized));
+    if (match) mapping[match.field] = index;
+  });
+  return mapping;
+};
+
+const findMatch = (data: Partial<Customer>, existing: Customer[]): Customer | null => {
+  const phone = data.phone_e164 || digits(data.phone || '');
+  const email = (data.email || '').toLowerCase();
+  return existing.find(c =>
+    (phone.length >= 8 && (c.phone_e164 || toE164(c.phone) || digits(c.phone)) === phone) ||
+    (!!email && (c.email || '').toLowerCase() === email)
+  ) || null;
+};
+
+// Simulação: valida cada linha e decide a ação sem gravar nada
+export const buildImportPreview = (
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existing: Customer[],
+  duplicateAction: ImportAction = 'update',
+  schema: CompanySchema = EMPTY_SCHEMA
+): ImportRow[] => {
+  const seen: Customer[] = [];
+
+  return sheet.rows.map((cells, index) => {
+    const get = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+    const rawTags = get('tags');
+    const custom = Object.fromEntries(schema.fields
+      .filter(f => mapping[`cf:${f.key}` as ImportField] !== undefined)
+      .map(f => [f.key, get(`cf:${f.key}` as ImportField)]));
+
+    // Colunas vazias de status/data ficam com o padrão do cadastro; as de texto são validadas mesmo vazias
+    const { data, errors: fieldErrors } = validateCustomer({
+      name: get('name'),
+      phone: get('phone'),
+      email: get('email'),
+      observations: get('observations'),
+      status: get('status') || undefined,
+      registration_date: get('registration_date') || undefined,
+      tags: rawTags ? rawTags.split(/[,;|]/).map(t => t.trim()).filter(Boolean) : undefined,
+      custom,
+    }, schema);
+    const errors = Object.values(fieldErrors);
+    // Linhas com erro mostram na prévia o telefone como veio no arquivo
+    if (fieldErrors.phone) data.phone = get('phone');
+
+    // Células vazias não apagam valores já existentes na atualização
+    const filled = Object.entries(data.custom_fields || {}).filter(([, value]) => value !== null);
+    if (filled.length) data.custom_fields = Object.fromEntries(filled);
+    else delete data.custom_fields;
+
+    const match = findMatch(data, existing);
+    const repeated = !match && errors.length === 0 ? findMatch(data, seen) : null;
+    if (repeated) errors.push(t('import.repeatedRow'));
+    if (errors.length === 0 && !match) seen.push(data as Customer);
+
+    const action: ImportAction = errors.length > 0 ? 'skip' : match ? duplicateAction : 'create';
+    return { line: index + 2, data, errors, match, action };
+  });
+};
+
+export const commitImport = async (
+  rows: ImportRow[],
+  context: { empresaId: string; actor: UserProfile },
+  onProgress?: (done: number, total: number) => void,
+  batchSize = 25
+): Promise<{ created: number; updated: number; failed: ImportRow[] }> => {
+  const pending = rows.filter(r => r.errors.length === 0 && r.action !== 'skip');
+  const result = { created: 0, updated: 0, failed: [] as ImportRow[] };
+  const today = localDateISO();
+
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize);
+    const outcomes = await Promise.allSettled(batch.map(async row => {
+      const filled = Object.fromEntries(Object.entries(row.data).filter(([, v]) => v !== '' && v !== undefined));
+      // Na atualização, campos personalizados e etiquetas do arquivo se somam aos existentes
+      const payload: Partial<Customer> = row.action === 'update' && row.match
+        ? {
+            ...row.match,
+            ...filled,
+            custom_fields: { ...row.match.custom_fields, ...row.data.custom_fields },
+            tags: [...new Set([...(row.match.tags || []), ...(row.data.tags || [])])],
+          }
+        : {
+            empresa_id: context.empresaId,
+            created_by: context.actor.id,
+            status: CustomerStatus.ACTIVE,
+            registration_date: today,
+            email: '',
+            observations: '',
+            is_deleted: false,
+            ...filled,
+          };
+      const saved = await customerService.save(payload);
+      const before = row.action === 'update' ? row.match : null;
+      auditService.record(context.actor, {
+        empresa_id: context.empresaId,
+        customer_id: saved.id,
+        action: 'import',
+        changes: diffCustomer(before, saved),
+        summary: `Linha ${row.line} (${before ? 'atualização' : 'novo cadastro'})`
+      });
+      return saved;
+    }));
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') result.failed.push(batch[index]);
+      else if (batch[index].action === 'update') result.updated++;
+      else result.created++;
+    });
+    onProgress?.(Math.min(i + batchSize, pending.length), pending.length);
+  }
+
+  return result;
+};
@@ -0,0 +1,163 @@
+
+import { supabase } from '../lib/supabase';
+import { Customer, Interaction, InteractionType, UserProfile } from '../types';
+import { customerService } from './sync';
+import { auditService } from './audit';
+import { permissionError } from './errors';
+import { t, translatedLabels } from '../lib/i18n';
+
+export const INTERACTION_TYPE_LABELS: Record<InteractionType, string> = translatedLabels({
+  note: 'interaction.note',
+  call: 'interaction.call',
+  whatsapp: 'interaction.whatsapp',
+  email: 'interaction.email',
+  visit: 'interaction.visit',
+  purchase: 'interaction.purchase',
+});
+
+// Anotações não contam como contato com o cliente
+const CONTACT_TYPES: InteractionType[] = ['call', 'whatsapp', 'email', 'visit', 'purchase'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+export const lastContactLabel = (customer: Pick<Customer, 'last_contact_at'>, now = new Date()): string => {
+  if (!customer.last_contact_at) return t('contact.none');
+  const days = Math.round((startOfDay(now) - startOfDay(new Date(customer.last_contact_at))) / DAY_MS);
+  if (days <= 0) return t('contact.today');
+  if (days === 1) return t('contact.yesterday');
+  return t('contact.days', { days });
+};
+
+const latestContact = (entries: Interaction[]): string | null =>
+  entries
+    .filter(e => CONTACT_TYPES.includes(e.type))
+    .map(e => e.occurred_at)
+    .sort()
+    .pop() || null;
+
+// Migrações em andamento por cliente: a linha do tempo pode pedir a mesma duas vezes seguidas
+const migrating = new Map<string, Promise<Customer>>();
+
+const assertAuthor = (entry: Interaction, actor: UserProfile) => {
+  if (entry.author_id !== actor.id) throw permissionError(t('timeline.authorOnly'));
+};
+
+export const interactionService = {
+  async fetchForCustomer(customerId: string, empresaId: string): Promise<Interaction[]> {
+    const { data, error } = await supabase
+      .from('interactions')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .eq('customer_id', customerId)
+      .order('occurred_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async save(
+    entry: Partial<Interaction> & Pick<Interaction, 'empresa_id' | 'customer_id' | 'type' | 'content' | 'occurred_at'>,
+    actor: UserProfile,
+    previous: Interaction | null = null
+  ): Promise<Interaction> {
+    if (!entry.content.trim()) throw new Error(t('timeline.contentRequired'));
+    if (previous) assertAuthor(previous, actor);
+
+    const { data, error } = await supabase
+      .from('interactions')
+      .upsert(previous
+        ? { ...previous, ...entry, content: entry.content.trim(), updated_at: new Date().toISOString() }
+        : { ...entry, content: entry.content.trim(), author_id: actor.id, author_name: actor.responsible_name })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async remove(entry: Interaction, actor: UserProfile): Promise<void> {
+    assertAuthor(entry, actor);
+    const { error } = await supabase
+      .from('interactions')
+      .delete()
+      .eq('id', entry.id)
+      .eq('empresa_id', entry.empresa_id);
+
+    if (error) throw error;
+  },
+
+  // Mantém o "último contato" do cartão coerente com a linha do tempo
+  async syncLastContact(customer: Customer, entries: Interaction[]): Promise<Customer> {
+    const last = latestContact(entries);
+    if ((customer.last_contact_at || null) === last) return customer;
+    return customerService.save({ ...customer, last_contact_at: last });
+  },
+
+  // O texto antigo de observações vira a primeira entrada (anotação na data de início) e o campo é esvaziado.
+  // Pode rodar de novo sem duplicar: a entrada já criada por uma tentativa anterior é reaproveitada
+  migrateObservations(customer: Customer, authorId: string, authorName: string, actor: UserProfile): Promise<Customer> {
+    const content = (customer.observations || '').trim();
+    if (!content) return Promise.resolve(customer);
+
+    const running = migrating.get(customer.id);
+    if (running) return running;
+
+    const migration = (async () => {
+      // Cadastros antigos sem data de início usam a data de criação
+      const occurredAt = customer.registration_date ? new Date(`${customer.registration_date}T12:00:00`).toISOString() : customer.created_at;
+      const { data: notes, error: findError } = await supabase
+        .from('interactions')
+        .select('id, content')
+        .eq('empresa_id', customer.empresa_id)
+        .eq('customer_id', customer.id)
+        .eq('type', 'note')
+        .eq('occurred_at', occurredAt);
+      if (findError) throw findError;
+
+      if (!(notes || []).some((note: Pick<Interaction, 'content'>) => note.content === content)) {
+        const { error } = await supabase.from('interactions').insert({
+          empresa_id: customer.empresa_id,
+          customer_id: customer.id,
+          type: 'note',
+          content,
+          occurred_at: occurredAt,
+          author_id: authorId,
+          author_name: authorName
+        });
+        if (error) throw error;
+      }
+
+      const saved = await customerService.save({ ...customer, observations: '' });
+      auditService.recordSave(actor, customer, saved);
+      return saved;
+    })();
+
+    migrating.set(customer.id, migration);
+    return migration.finally(() => migrating.delete(customer.id));
+  },
+
+  // Mesclagem: a linha do tempo dos duplicados passa para o cadastro mantido
+  async reassign(fromIds: string[], toId: string, empresaId: string): Promise<void> {
+    if (fromIds.length === 0) return;
+    const { error } = await supabase
+      .from('interactions')
+      .update({ customer_id: toId })
+      .eq('empresa_id', empresaId)
+      .in('customer_id', fromIds);
+
+    if (error) throw error;
+  },
+
+  // LGPD: as interações contêm dados pessoais e saem junto com o titular
+  async removeForCustomer(customerId: string, empresaId: string): Promise<void> {
+    const { error } = await supabase
+      .from('interactions')
+      .delete()
+      .eq('empresa_id', empresaId)
+      .eq('customer_id', customerId);
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,221 @@
+
+import { supabase } from '../lib/supabase';
+import {
+  Customer, UserProfile, ConsentRecord, ConsentChannel, LegalBasis,
+  DataSubjectLog, DataSubjectOperation, Interaction
+} from '../types';
+import { customerService } from './sync';
+import { downloadBlob } from './exporter';
+import { auditService } from './audit';
+import { interactionService, INTERACTION_TYPE_LABELS } from './interactions';
+import { formatDateTime, getLocale, t, translatedLabels } from '../lib/i18n';
+
+export const LEGAL_BASIS_LABELS: Record<LegalBasis, string> = translatedLabels({
+  [LegalBasis.CONSENT]: 'lgpd.basis.consent',
+  [LegalBasis.CONTRACT]: 'lgpd.basis.contract',
+  [LegalBasis.LEGAL_OBLIGATION]: 'lgpd.basis.legalObligation',
+  [LegalBasis.LEGITIMATE_INTEREST]: 'lgpd.basis.legitimateInterest',
+});
+
+export const CONSENT_CHANNEL_LABELS: Record<ConsentChannel, string> = translatedLabels({
+  presencial: 'lgpd.channel.inPerson',
+  whatsapp: 'interaction.whatsapp',
+  email: 'field.email',
+  telefone: 'field.phone',
+  formulario_online: 'lgpd.channel.onlineForm',
+});
+
+export const OPERATION_LABELS: Record<DataSubjectOperation, string> = translatedLabels({
+  access_report: 'lgpd.operation.accessReport',
+  anonymization: 'lgpd.operation.anonymization',
+  erasure: 'lgpd.operation.erasure',
+  consent_granted: 'lgpd.operation.consentGranted',
+  consent_revoked: 'lgpd.operation.consentRevoked',
+});
+
+export interface DataSubjectReport {
+  generated_at: string;
+  generated_by: string;
+  company: string;
+  customer: Customer;
+  consents: ConsentRecord[];
+  history: DataSubjectLog[];
+  interactions: Interaction[];
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+export const lgpdService = {
+  // Toda operação sobre dados do titular deixa um registro de quem fez e quando
+  async log(customer: Pick<Customer, 'id' | 'empresa_id'>, operation: DataSubjectOperation, actor: UserProfile, details: string | null = null): Promise<void> {
+    const { error } = await supabase
+      .from('data_subject_logs')
+      .insert({
+        customer_id: customer.id,
+        empresa_id: customer.empresa_id,
+        operation,
+        performed_by: actor.id,
+        performed_by_name: actor.responsible_name,
+        performed_at: new Date().toISOString(),
+        details
+      });
+
+    if (error) throw error;
+  },
+
+  async fetchHistory(customerId: string, empresaId: string): Promise<DataSubjectLog[]> {
+    const { data, error } = await supabase
+      .from('data_subject_logs')
+      .select('*')
+      .eq('customer_id', customerId)
+      .eq('empresa_id', empresaId)
+      .order('performed_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async fetchConsents(customerId: string, empresaId: string): Promise<ConsentRecord[]> {
+    const { data, error } = await supabase
+      .from('consents')
+      .select('*')
+      .eq('customer_id', customerId)
+      .eq('empresa_id', empresaId)
+      .order('granted_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async grantConsent(
+    customer: Customer,
+    consent: Pick<ConsentRecord, 'legal_basis' | 'purpose' | 'channel' | 'granted_at'>,
+    actor: UserProfile
+  ): Promise<ConsentRecord> {
+    const { data, error } = await supabase
+      .from('consents')
+      .insert({
+        ...consent,
+        customer_id: customer.id,
+        empresa_id: customer.empresa_id,
+        revoked_at: null,
+        recorded_by: actor.id
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    await lgpdService.log(customer, 'consent_granted', actor, `${LEGAL_BASIS_LABELS[consent.legal_basis]} • ${consent.purpose}`);
+    return data;
+  },
+
+  async revokeConsent(customer: Customer, consent: ConsentRecord, actor: UserProfile): Promise<void> {
+    const { error } = await supabase
+      .from('consents')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', consent.id)
+      .eq('empresa_id', customer.empresa_id);
+
+    if (error) throw error;
+    await lgpdService.log(customer, 'consent_revoked', actor, consent.purpose);
+  },
+
+  // Remove os dados pessoais mas mantém status e datas, preservando as estatísticas da empresa
+  async anonymize(customer: Customer, actor: UserProfile): Promise<Customer> {
+    const saved = await customerService.save({
+      ...customer,
+      name: 'Cliente anonimizado',
+      phone: '',
+      phone_e164: null,
+      email: '',
+      observations: '',
+      anonymized_at: new Date().toISOString()
+    });
+    await interactionService.removeForCustomer(customer.id, customer.empresa_id);
+    await lgpdService.log(customer, 'anonymization', actor);
+    await auditService.redactCustomer(customer.id, customer.empresa_id);
+    await auditService.record(actor, {
+      empresa_id: customer.empresa_id,
+      customer_id: customer.id,
+      action: 'anonymize',
+      changes: ['name', 'phone', 'email', 'observations'].map(field => ({ field, old: '[removido]', new: field === 'name' ? saved.name : null }))
+    });
+    return saved;
+  },
+
+  async buildReport(customer: Customer, actor: UserProfile): Promise<DataSubjectReport> {
+    const [consents, history, interactions] = await Promise.all([
+      lgpdService.fetchConsents(customer.id, customer.empresa_id),
+      lgpdService.fetchHistory(customer.id, customer.empresa_id),
+      interactionService.fetchForCustomer(customer.id, customer.empresa_id)
+    ]);
+    await lgpdService.log(customer, 'access_report', actor);
+
+    return {
+      generated_at: new Date().toISOString(),
+      generated_by: actor.responsible_name,
+      company: actor.company_name,
+      customer,
+      consents,
+      history,
+      interactions
+    };
+  },
+
+  downloadReportJSON(report: DataSubjectReport): void {
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json;charset=utf-8;' });
+    downloadBlob(blob, `dados_titular_${report.customer.id}.json`);
+  },
+
+  renderReportHTML(report: DataSubjectReport): string {
+    const { customer } = report;
+    const rows: [string, unknown][] = [
+      [t('lgpd.report.identifier'), customer.id],
+      [t('field.name'), customer.name],
+      [t('field.phone'), customer.phone],
+      [t('field.email'), customer.email],
+      [t('field.status'), customer.status],
+      [t('field.registrationDate'), customer.registration_date],
+      [t('field.observations'), customer.observations],
+      [t('lgpd.report.createdAt'), formatDateTime(customer.created_at)],
+      [t('lgpd.report.anonymizedAt'), formatDateTime(customer.anonymized_at)],
+    ];
+    const empty = `<tr><td colspan="2">${t('lgpd.report.empty')}</td></tr>`;
+
+    return `<!DOCTYPE html>
+<html lang="${getLocale()}"><head><meta charset="UTF-8"><title>${t('lgpd.report.title')}</title>
+<style>
+  body { font-family: Inter, Arial, sans-serif; color: #0f172a; margin: 40px; }
+  h1 { font-size: 20px; } h2 { font-size: 14px; text-transform: uppercase; letter-spacing: .1em; color: #64748b; margin-top: 32px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; white-space: pre-wrap; }
+  th { width: 30%; color: #64748b; }
+  .meta { color: #64748b; font-size: 12px; }
+</style></head><body>
+<h1>${t('lgpd.report.heading')}</h1>
+<p class="meta">${t('lgpd.report.meta', { company: escapeHtml(report.company), date: formatDateTime(report.generated_at), name: escapeHtml(report.generated_by) })}</p>
+<h2>${t('lgpd.report.registration')}</h2>
+<table>${rows.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+<h2>${t('lgpd.report.consents')}</h2>
+<table><tr><th>${t('lgpd.report.legalBasis')}</th><td><b>${t('lgpd.report.consentColumns')}</b></td></tr>
+${report.consents.map(c => `<tr><th>${escapeHtml(LEGAL_BASIS_LABELS[c.legal_basis])}</th><td>${escapeHtml(c.purpose)} • ${escapeHtml(CONSENT_CHANNEL_LABELS[c.channel])} • ${formatDateTime(c.granted_at)} • ${formatDateTime(c.revoked_at)}</td></tr>`).join('') || empty}
+</table>
+<h2>${t('lgpd.report.interactions')}</h2>
+<table>${(report.interactions || []).map(i => `<tr><th>${formatDateTime(i.occurred_at)}</th><td>${t('lgpd.report.by', { label: escapeHtml(INTERACTION_TYPE_LABELS[i.type]), name: escapeHtml(i.author_name) })} — ${escapeHtml(i.content)}</td></tr>`).join('') || empty}
+</table>
+<h2>${t('lgpd.report.history')}</h2>
+<table>${report.history.map(h => `<tr><th>${formatDateTime(h.performed_at)}</th><td>${t('lgpd.report.by', { label: escapeHtml(OPERATION_LABELS[h.operation]), name: escapeHtml(h.performed_by_name) })}${h.details ? ` — ${escapeHtml(h.details)}` : ''}</td></tr>`).join('') || empty}
+</table>
+</body></html>`;
+  },
+
+  printReport(report: DataSubjectReport): void {
+    const win = window.open('', '_blank');
+    if (!win) throw new Error(t('lgpd.popupBlocked'));
+    win.document.write(lgpdService.renderReportHTML(report));
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+};
@@ -0,0 +1,158 @@
+import { supabase } from '../lib/supabase';
+import { Company, CompanySchema, Customer, FieldErrors, MessageChannel, MessageTemplate, UserProfile } from '../types';
+import { toE164, whatsappLink } from '../lib/phone';
+import { customerService } from './sync';
+import { interactionService } from './interactions';
+import { formatCustomValue } from './customFields';
+import { STATUS_LABELS } from './filters';
+import { assertValid } from './validation';
+import { validationError } from './errors';
+import { t, translatedLabels, translatedList } from '../lib/i18n';
+
+export const MESSAGE_CHANNEL_LABELS: Record<MessageChannel, string> = translatedLabels({
+  whatsapp: 'interaction.whatsapp',
+  email: 'field.email',
+});
+
+export interface MergeField {
+  key: string;
+  label: string;
+}
+
+// Campos fixos de todo modelo; os personalizados usam a própria chave ({{aniversario}}) e não sobrepõem estes
+const BUILTIN_FIELDS = translatedList<MergeField & { value: (customer: Customer, company: Company) => string }>([
+  { key: 'name', label: 'field.name', value: c => c.name },
+  { key: 'first_name', label: 'field.firstName', value: c => c.name.trim().split(/\s+/)[0] },
+  { key: 'phone', label: 'field.phone', value: c => c.phone },
+  { key: 'email', label: 'field.email', value: c => c.email || '' },
+  { key: 'registration_date', label: 'field.registrationDate', value: c => (c.registration_date || '').split('-').reverse().join('/') },
+  { key: 'status', label: 'field.status', value: c => STATUS_LABELS[c.status] },
+  { key: 'company', label: 'field.company', value: (_, company) => company.name },
+]);
+
+const MERGE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const mergeFieldsOf = (schema: CompanySchema): MergeField[] => [
+  ...BUILTIN_FIELDS.map(({ key, label }) => ({ key, label })),
+  ...schema.fields
+    .filter(field => !BUILTIN_FIELDS.some(b => b.key === field.key))
+    .map(field => ({ key: field.key, label: field.label })),
+];
+
+export const unknownMergeFields = (text: string, schema: CompanySchema): string[] => {
+  const known = mergeFieldsOf(schema).map(f => f.key);
+  return [...new Set([...text.matchAll(MERGE_PATTERN)].map(match => match[1]).filter(key => !known.includes(key)))];
+};
+
+// Campos desconhecidos ficam como estão, para aparecerem na pré-visualização
+export const renderTemplate = (text: string, customer: Customer, company: Company, schema: CompanySchema): string =>
+  text.replace(MERGE_PATTERN, (match, key: string) => {
+    const builtin = BUILTIN_FIELDS.find(f => f.key === key);
+    if (builtin) return builtin.value(customer, company);
+    const field = schema.fields.find(f => f.key === key);
+    return field ? formatCustomValue(field, customer.custom_fields?.[key]) : match;
+  });
+
+// Telefone (E.164) ou e-mail para onde a mensagem vai; null quando o cliente não pode recebê-la
+export const recipientAddress = (channel: MessageChannel, customer: Customer): string | null => {
+  if (customer.is_deleted || customer.anonymized_at) return null;
+  if (channel === 'whatsapp') return customer.phone_e164 || toE164(customer.phone);
+  return customer.email?.trim() || null;
+};
+
+// Link wa.me com o texto pronto ou rascunho mailto:; o envio em si é feito pelo usuário no app aberto
+export const messageLink = (channel: MessageChannel, address: string, body: string, subject = ''): string =>
+  channel === 'whatsapp'
+    ? `${whatsappLink(address)}?text=${encodeURIComponent(body)}`
+    : `mailto:${address}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+// Texto vazio ou com campos que a empresa não tem (erro de digitação, campo removido)
+export const validateMessage = (message: Pick<MessageTemplate, 'subject' | 'body'>, schema: CompanySchema): FieldErrors => {
+  const errors: FieldErrors = {};
+  const unknown = unknownMergeFields(`${message.subject || ''} ${message.body}`, schema);
+  if (!message.body.trim()) errors.body = t('messages.bodyRequired');
+  else if (unknown.length) errors.body = `Campo(s) desconhecido(s): ${unknown.map(key => `{{${key}}}`).join(', ')}.`;
+  return errors;
+};
+
+export const validateTemplate = (template: Pick<MessageTemplate, 'name' | 'subject' | 'body'>, schema: CompanySchema): FieldErrors => {
+  const errors = validateMessage(template, schema);
+  if (!template.name.trim()) errors.name = t('messages.nameRequired');
+  return errors;
+};
+
+export const templateService = {
+  async fetchAll(empresaId: string): Promise<MessageTemplate[]> {
+    const { data, error } = await supabase
+      .from('message_templates')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async save(
+    template: Partial<MessageTemplate> & Pick<MessageTemplate, 'empresa_id' | 'name' | 'channel' | 'body'>,
+    schema: CompanySchema,
+    actor: UserProfile
+  ): Promise<MessageTemplate> {
+    const subject = template.channel === 'email' ? (template.subject || '').trim() : null;
+    assertValid(validateTemplate({ ...template, subject }, schema));
+
+    const { data, error } = await supabase
+      .from('message_templates')
+      .upsert({
+        created_by: actor.id,
+        ...template,
+        name: template.name.trim(),
+        subject,
+        body: template.body.trim(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error.code === '23505' ? validationError({ name: t('messages.nameExists', { name: template.name.trim() }) }) : error;
+    return data;
+  },
+
+  async remove(template: MessageTemplate): Promise<void> {
+    const { error } = await supabase
+      .from('message_templates')
+      .delete()
+      .eq('id', template.id)
+      .eq('empresa_id', template.empresa_id);
+
+    if (error) throw error;
+  }
+};
+
+export const messageService = {
+  // Registra a mensagem na linha do tempo e atualiza o "último contato"; devolve o cliente atualizado
+  async logSent(
+    customer: Customer,
+    message: { channel: MessageChannel; body: string; subject?: string; templateName?: string },
+    actor: UserProfile
+  ): Promise<Customer> {
+    const content = [
+      message.templateName && `Modelo: ${message.templateName}`,
+      message.channel === 'email' && message.subject && `Assunto: ${message.subject}`,
+      message.body,
+    ].filter(Boolean).join('\n');
+
+    const entry = await interactionService.save({
+      empresa_id: customer.empresa_id,
+      customer_id: customer.id,
+      type: message.channel,
+      content,
+      occurred_at: new Date().toISOString()
+    }, actor);
+
+    // O cliente pode ter sido editado desde que a mensagem foi aberta: grava só o último contato sobre a versão atual
+    const current = await customerService.fetchOne(customer.id, customer.empresa_id) || customer;
+    if ((current.last_contact_at || '') >= entry.occurred_at) return current;
+    return customerService.save({ ...current, last_contact_at: entry.occurred_at }, current);
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Customer, CustomerStatus, UserProfile } from '../types';
+import { permissionError } from './errors';
+import { migratePhones } from './phones';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const customers: Customer[] = ['11987654321', 'abc', '(21) 2345-6789', '11 91234-5678'].map((phone, i) => ({
+  id: `c${i}`, empresa_id: 'e1', name: `Cliente ${i}`, phone, email: '', registration_date: '2024-03-05',
+  status: CustomerStatus.ACTIVE, observations: '', is_deleted: false, created_at: '2024-03-05T12:00:00Z', created_by: 'u1',
+}));
+
+vi.mock('./sync', () => ({
+  customerService: {
+    fetchAll: async () => customers,
+    // O terceiro cliente é recusado pelo servidor
+    save: async (c: Customer) => {
+      if (c.id === 'c2') throw permissionError();
+      return c;
+    },
+  },
+}));
+vi.mock('./audit', () => ({ auditService: { recordSave: () => Promise.resolve() } }));
+
+describe('migratePhones', () => {
+  it('segue com os demais lotes quando uma gravação falha e devolve as falhas', async () => {
+    const progress: number[] = [];
+    const result = await migratePhones('e1', { id: 'u1' } as UserProfile, done => progress.push(done), 2);
+
+    expect(result.updated).toBe(2);
+    expect(result.invalid.map(c => c.id)).toEqual(['c1']);
+    expect(result.failed.map(f => f.customer.id)).toEqual(['c2']);
+    expect(result.failed[0].error).toMatch(/permissão/);
+    expect(progress).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,54 @@
+
+import { Customer, UserProfile } from '../types';
+import { parsePhone } from '../lib/phone';
+import { customerService } from './sync';
+import { auditService } from './audit';
+import { errorMessage } from './errors';
+import { t } from '../lib/i18n';
+
+export interface PhoneMigrationResult {
+  updated: number;
+  unchanged: number;
+  invalid: Customer[];
+  failed: { customer: Customer; error: string }[];
+}
+
+// Rotina única para a base já cadastrada: grava E.164 e formato de exibição.
+// Números que não puderem ser interpretados ficam como estão e são devolvidos para revisão manual;
+// gravações recusadas (conflito, permissão) não interrompem os demais lotes e também são devolvidas.
+export const migratePhones = async (
+  empresaId: string,
+  actor: UserProfile,
+  onProgress?: (done: number, total: number) => void,
+  batchSize = 25
+): Promise<PhoneMigrationResult> => {
+  const customers = await customerService.fetchAll(empresaId);
+  const result: PhoneMigrationResult = { updated: 0, unchanged: 0, invalid: [], failed: [] };
+
+  for (let i = 0; i < customers.length; i += batchSize) {
+    const batch = customers.slice(i, i + batchSize);
+    const outcomes = await Promise.allSettled(batch.map(async customer => {
+      if (!customer.phone) return result.unchanged++;
+
+      let parsed;
+      try {
+        parsed = parsePhone(customer.phone);
+      } catch {
+        return result.invalid.push(customer);
+      }
+
+      if (parsed.e164 === customer.phone_e164 && parsed.display === customer.phone) return result.unchanged++;
+
+      const saved = await customerService.save({ ...customer, phone: parsed.display, phone_e164: parsed.e164 });
+      auditService.recordSave(actor, customer, saved);
+      result.updated++;
+    }));
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') result.failed.push({ customer: batch[index], error: errorMessage(outcome.reason, t('errors.unknown')) });
+    });
+    onProgress?.(Math.min(i + batchSize, customers.length), customers.length);
+  }
+
+  return result;
+};
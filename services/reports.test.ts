@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Customer, CustomerStatus, StatusTransition } from '../types';
+import { parseCSV } from '../lib/csv';
+import { buildReport, churnByMonth, statusAt } from './reports';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+describe('buildReport', () => {
+  it('neutraliza nomes que seriam lidos como fórmula', async () => {
+    const table = { title: 'Equipe', columns: ['Membro', 'Novos'], rows: [['=HYPERLINK("http://x")', 3], ['-5', 1]] };
+    const text = await buildReport(table, 'csv').text();
+    expect(parseCSV(text)).toEqual([['Membro', 'Novos'], ["'=HYPERLINK(\"http://x\")", '3'], ['-5', '1']]);
+  });
+});
+
+const { ACTIVE, INACTIVE } = CustomerStatus;
+
+const customer = (id: string, status: CustomerStatus, registration_date = '2023-06-01') => ({ id, status, registration_date }) as Customer;
+
+// Horário local, como os registros de auditoria são lidos na tela
+const at = (month: number, day: number, hour = 12, minute = 0) => new Date(2024, month - 1, day, hour, minute).toISOString();
+
+const change = (customer_id: string, from: CustomerStatus, to: CustomerStatus, when: string): StatusTransition =>
+  ({ customer_id, from, to, at: when, actor_id: 'u1' });
+
+describe('churnByMonth', () => {
+  const customers = [
+    customer('virada-jan', INACTIVE),
+    customer('virada-fev', INACTIVE),
+    customer('novo', ACTIVE, '2024-01-15'),
+    customer('reativado', INACTIVE),
+  ];
+  const transitions = [
+    change('virada-jan', ACTIVE, INACTIVE, at(1, 31, 23, 30)),
+    change('virada-fev', ACTIVE, INACTIVE, at(2, 1, 0, 10)),
+    change('reativado', INACTIVE, ACTIVE, at(2, 10)),
+    change('reativado', ACTIVE, INACTIVE, at(2, 20)),
+  ];
+
+  it('conta a saída no mês em que aconteceu, mesmo perto da virada', () => {
+    const { rows, total } = churnByMonth(customers, transitions, { from: '2024-01-01', to: '2024-02-29' });
+    expect(rows).toEqual([
+      { month: '2024-01', active: 3, churned: 1, rate: 1 / 3 },
+      { month: '2024-02', active: 3, churned: 2, rate: 2 / 3 },
+    ]);
+    expect(total).toEqual({ active: 4, churned: 3, rate: 0.75 });
+  });
+
+  it('reconstrói o status de cada instante a partir do histórico', () => {
+    const history = transitions.filter(t => t.customer_id === 'virada-jan');
+    expect(statusAt(customers[0], history, at(1, 31, 23))).toBe(ACTIVE);
+    expect(statusAt(customers[0], history, at(2, 1, 0))).toBe(INACTIVE);
+    expect(statusAt(customers[2], [], at(1, 14))).toBeNull();
+    expect(statusAt(customers[2], [], at(1, 15))).toBe(ACTIVE);
+  });
+});
@@ -0,0 +1,147 @@
+
+import { Customer, CustomerStatus, Membership, ReportRange, ReportTable, StatusTransition } from '../types';
+import { buildSheet, downloadBlob, exportFileName } from './exporter';
+import { STATUS_LABELS, normalizeText } from './filters';
+import { getLocale, t, translatedLabels } from '../lib/i18n';
+
+export type ReportPreset = '3m' | '6m' | '12m' | 'year';
+
+export const REPORT_PRESET_LABELS: Record<ReportPreset, string> = translatedLabels({
+  '3m': 'reports.preset3m',
+  '6m': 'reports.preset6m',
+  '12m': 'reports.preset12m',
+  year: 'period.thisYear',
+});
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Os intervalos começam no primeiro dia do mês para que os gráficos mensais fiquem completos
+export const rangeFromPreset = (preset: ReportPreset, now = new Date()): ReportRange => {
+  const months = { '3m': 3, '6m': 6, '12m': 12, year: now.getMonth() + 1 }[preset];
+  return { from: localDate(new Date(now.getFullYear(), now.getMonth() - months + 1, 1)), to: localDate(now) };
+};
+
+// Meses (AAAA-MM) cobertos pelo intervalo
+export const monthsIn = (range: ReportRange): string[] => {
+  const months: string[] = [];
+  const [fromYear, fromMonth] = range.from.split('-').map(Number);
+  const last = range.to.slice(0, 7);
+  for (let date = new Date(fromYear, fromMonth - 1, 1); localDate(date).slice(0, 7) <= last; date.setMonth(date.getMonth() + 1)) {
+    months.push(localDate(date).slice(0, 7));
+  }
+  return months;
+};
+
+export const monthLabel = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1).toLocaleDateString(getLocale(), { month: 'short', year: '2-digit' });
+};
+
+// Início do dia/mês no horário local, comparável com os timestamps da auditoria
+const startOf = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+
+const inRange = (at: string, range: ReportRange) =>
+  at >= startOf(range.from) && at < new Date(new Date(`${range.to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString();
+
+const historyByCustomer = (transitions: StatusTransition[]) => {
+  const history = new Map<string, StatusTransition[]>();
+  for (const t of transitions) history.set(t.customer_id, [...(history.get(t.customer_id) || []), t]);
+  return history;
+};
+
+// Reconstrói o status num instante: última mudança anterior, senão o valor de antes da primeira mudança posterior
+export const statusAt = (customer: Customer, history: StatusTransition[] = [], at: string): CustomerStatus | null => {
+  if (customer.registration_date > localDate(new Date(at))) return null;
+  const before = history.filter(h => h.at <= at).pop();
+  if (before) return before.to;
+  const after = history.find(h => h.at > at);
+  return after?.from || customer.status;
+};
+
+export const newCustomersByMonth = (customers: Customer[], range: ReportRange) =>
+  monthsIn(range).map(month => ({
+    month,
+    // Cadastros antigos podem não ter data de início e ficam fora da contagem
+    count: customers.filter(c => (c.registration_date || '').startsWith(month) && c.registration_date >= range.from && c.registration_date <= range.to).length
+  }));
+
+export const statusDistribution = (customers: Customer[]): Record<CustomerStatus, number> =>
+  Object.fromEntries(Object.values(CustomerStatus).map(s => [s, customers.filter(c => c.status === s).length])) as Record<CustomerStatus, number>;
+
+export const transitionKey = (t: Pick<StatusTransition, 'from' | 'to'>) =>
+  `${t.from ? STATUS_LABELS[t.from] : '?'} → ${STATUS_LABELS[t.to]}`;
+
+export const transitionsByMonth = (transitions: StatusTransition[], range: ReportRange) => {
+  const relevant = transitions.filter(t => inRange(t.at, range) && t.from !== t.to);
+  const keys = [...new Set(relevant.map(transitionKey))].sort();
+  const months = monthsIn(range).map(month => {
+    const inMonth = relevant.filter(t => localDate(new Date(t.at)).startsWith(month));
+    return { month, counts: Object.fromEntries(keys.map(key => [key, inMonth.filter(t => transitionKey(t) === key).length])) };
+  });
+  return { keys, months };
+};
+
+const isChurn = (t: StatusTransition) => t.from === CustomerStatus.ACTIVE && t.to === CustomerStatus.INACTIVE;
+
+// Ativos em algum momento do intervalo: no início, cadastrados já ativos ou reativados no intervalo
+const activeDuring = (customers: Customer[], history: Map<string, StatusTransition[]>, range: ReportRange) => {
+  const start = startOf(range.from);
+  return customers.filter(c => {
+    const own = history.get(c.id);
+    if (statusAt(c, own, start) === CustomerStatus.ACTIVE) return true;
+    if (c.registration_date >= range.from && c.registration_date <= range.to && statusAt(c, own, startOf(c.registration_date)) === CustomerStatus.ACTIVE) return true;
+    return (own || []).some(t => t.to === CustomerStatus.ACTIVE && inRange(t.at, range));
+  }).length;
+};
+
+// Churn: clientes que passaram de ativo para inativo ÷ clientes ativos em algum momento do mês (ou do período)
+export const churnByMonth = (customers: Customer[], transitions: StatusTransition[], range: ReportRange) => {
+  const history = historyByCustomer(transitions);
+  const churnedIn = (period: ReportRange) => new Set(transitions.filter(t => isChurn(t) && inRange(t.at, period)).map(t => t.customer_id)).size;
+  const measure = (period: ReportRange) => {
+    const active = activeDuring(customers, history, period);
+    const churned = churnedIn(period);
+    return { active, churned, rate: active ? churned / active : 0 };
+  };
+
+  const rows = monthsIn(range).map(month => {
+    const [year, m] = month.split('-').map(Number);
+    return { month, ...measure({ from: `${month}-01`, to: localDate(new Date(year, m, 0)) }) };
+  });
+  return { rows, total: measure(range) };
+};
+
+// Por membro da equipe (responsável pelo cadastro): novos no período, situação atual e churn no período
+export const staffBreakdown = (customers: Customer[], transitions: StatusTransition[], range: ReportRange, members: Membership[]) => {
+  const churnedIds = new Set(transitions.filter(t => isChurn(t) && inRange(t.at, range)).map(t => t.customer_id));
+  const ids = [...new Set(customers.map(c => c.created_by))];
+  return ids
+    .map(userId => {
+      const own = customers.filter(c => c.created_by === userId);
+      const distribution = statusDistribution(own);
+      return {
+        userId,
+        name: members.find(m => m.user_id === userId)?.name || t('reports.formerMember'),
+        total: own.length,
+        created: own.filter(c => c.registration_date >= range.from && c.registration_date <= range.to).length,
+        active: distribution[CustomerStatus.ACTIVE],
+        pending: distribution[CustomerStatus.PENDING],
+        inactive: distribution[CustomerStatus.INACTIVE],
+        churned: own.filter(c => churnedIds.has(c.id)).length,
+      };
+    })
+    .sort((a, b) => b.created - a.created || b.total - a.total);
+};
+
+export const formatPercent = (value: number) => `${(value * 100).toLocaleString(getLocale(), { maximumFractionDigits: 1 })}%`;
+
+// Tabela do relatório no mesmo formato (e com a mesma neutralização de fórmulas) das exportações de clientes
+export const buildReport = (table: ReportTable, format: 'csv' | 'xlsx'): Blob =>
+  buildSheet([table.columns, ...table.rows], format, table.title);
+
+export const exportReport = (table: ReportTable, format: 'csv' | 'xlsx'): void => {
+  const prefix = `relatorio_${normalizeText(table.title).replace(/[^a-z0-9]+/g, '_')}`;
+  downloadBlob(buildReport(table, format), exportFileName(format, prefix));
+};
@@ -0,0 +1,19 @@
+import { AppStats, Customer, CustomerChangeEvent, CustomerFilters, CustomerPage } from '../types';
+
+// Contrato comum entre o backend remoto (Supabase) e o armazenamento local
+export interface CustomerRepository {
+  fetchAll(empresaId: string): Promise<Customer[]>;
+  fetchDeleted(empresaId: string): Promise<Customer[]>;
+  // Mesmo resultado de applyFilters sobre a base inteira, inclusive a busca sem acentos
+  fetchPage(empresaId: string, filters: CustomerFilters, cursor: string | null, limit: number): Promise<CustomerPage>;
+  fetchStats(empresaId: string): Promise<AppStats>;
+  // Um cliente da empresa (inclusive na lixeira); null se não existir
+  fetchOne(id: string, empresaId: string): Promise<Customer | null>;
+  // Candidatos a duplicado (mesmo telefone/e-mail ou nome com o mesmo início); a pontuação fica com quem chama
+  findSimilar(empresaId: string, probe: Partial<Customer>): Promise<Customer[]>;
+  // base: versão em que a edição começou, para combinar com alterações feitas em outro dispositivo
+  save(customer: Partial<Customer>, base?: Customer): Promise<Customer>;
+  hardDelete(id: string, empresaId: string): Promise<void>;
+  // Assina as alterações dos clientes da empresa; devolve a função que cancela a assinatura
+  watch(empresaId: string, onChange: (event: CustomerChangeEvent) => void): () => void;
+}
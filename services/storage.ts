@@ -0,0 +1,251 @@
+
+import { AppStats, AuditEvent, Company, CompanySchema, Customer, CustomerConflict, CustomerFilters, CustomerPage, CustomerStatus, FailedChange, Membership, PendingChange, UserProfile } from '../types';
+import { CustomerRepository } from './repository';
+import { paginate } from './filters';
+
+const STORAGE_KEY = 'gestor_clientes_data';
+const QUEUE_KEY = 'gestor_clientes_sync_queue';
+const PROFILE_KEY = 'gestor_clientes_profile';
+const SESSION_KEY = 'gestor_clientes_session';
+const AUDIT_QUEUE_KEY = 'gestor_clientes_audit_queue';
+const SCHEMA_KEY = 'gestor_clientes_schema';
+const NOTIFIED_TASKS_KEY = 'gestor_clientes_notified_tasks';
+const CONFLICTS_KEY = 'gestor_clientes_sync_conflicts';
+const FAILED_KEY = 'gestor_clientes_sync_failed';
+
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const write = (key: string, value: unknown): void => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+export const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+
+// Cópia local dos clientes: serve como cache do Supabase e como fonte de dados offline
+export const localCustomerRepository: CustomerRepository & {
+  replaceAll(empresaId: string, customers: Customer[], deleted?: boolean): void;
+  mergeAll(customers: Customer[]): void;
+  get(id: string): Customer | undefined;
+} = {
+  async fetchAll(empresaId: string): Promise<Customer[]> {
+    return read<Customer[]>(STORAGE_KEY, [])
+      .filter(c => c.empresa_id === empresaId && !c.is_deleted)
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+  },
+
+  async fetchDeleted(empresaId: string): Promise<Customer[]> {
+    return read<Customer[]>(STORAGE_KEY, [])
+      .filter(c => c.empresa_id === empresaId && c.is_deleted)
+      .sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+  },
+
+  async fetchPage(empresaId: string, filters: CustomerFilters, cursor: string | null, limit: number): Promise<CustomerPage> {
+    return paginate(await localCustomerRepository.fetchAll(empresaId), filters, cursor, limit);
+  },
+
+  async fetchStats(empresaId: string): Promise<AppStats> {
+    const customers = await localCustomerRepository.fetchAll(empresaId);
+    const count = (status: CustomerStatus) => customers.filter(c => c.status === status).length;
+    return {
+      total: customers.length,
+      active: count(CustomerStatus.ACTIVE),
+      pending: count(CustomerStatus.PENDING),
+      inactive: count(CustomerStatus.INACTIVE)
+    };
+  },
+
+  async fetchOne(id: string, empresaId: string): Promise<Customer | null> {
+    const customer = localCustomerRepository.get(id);
+    return customer?.empresa_id === empresaId ? customer : null;
+  },
+
+  async findSimilar(empresaId: string): Promise<Customer[]> {
+    return localCustomerRepository.fetchAll(empresaId);
+  },
+
+  async save(customer: Partial<Customer>): Promise<Customer> {
+    const customers = read<Customer[]>(STORAGE_KEY, []);
+    const index = customers.findIndex(c => c.id === customer.id);
+    const saved = {
+      ...(index >= 0 ? customers[index] : {}),
+      ...customer,
+      id: customer.id || generateId(),
+      created_at: customer.created_at || (index >= 0 ? customers[index].created_at : new Date().toISOString()),
+    } as Customer;
+
+    if (index >= 0) {
+      customers[index] = saved;
+    } else {
+      customers.push(saved);
+    }
+
+    write(STORAGE_KEY, customers);
+    return saved;
+  },
+
+  async hardDelete(id: string, empresaId: string): Promise<void> {
+    const customers = read<Customer[]>(STORAGE_KEY, []);
+    write(STORAGE_KEY, customers.filter(c => !(c.id === id && c.empresa_id === empresaId)));
+  },
+
+  // Substitui apenas os registros da empresa no mesmo estado (ativos ou na lixeira) do lote recebido
+  replaceAll(empresaId: string, customers: Customer[], deleted = false): void {
+    const others = read<Customer[]>(STORAGE_KEY, [])
+      .filter(c => c.empresa_id !== empresaId || !!c.is_deleted !== deleted);
+    write(STORAGE_KEY, [...others, ...customers]);
+  },
+
+  // Sem servidor não há alterações de outros dispositivos para acompanhar
+  watch(): () => void {
+    return () => {};
+  },
+
+  // Atualiza/insere os registros de uma página sem descartar o restante do cache
+  mergeAll(customers: Customer[]): void {
+    const ids = new Set(customers.map(c => c.id));
+    write(STORAGE_KEY, [...read<Customer[]>(STORAGE_KEY, []).filter(c => !ids.has(c.id)), ...customers]);
+  },
+
+  get(id: string): Customer | undefined {
+    return read<Customer[]>(STORAGE_KEY, []).find(c => c.id === id);
+  }
+};
+
+// Fila persistente de alterações feitas sem conexão, na ordem em que ocorreram
+export const syncQueueStorage = {
+  getAll: (): PendingChange[] => read<PendingChange[]>(QUEUE_KEY, []),
+
+  setAll: (changes: PendingChange[]): void => {
+    write(QUEUE_KEY, changes);
+  },
+
+  push: (change: PendingChange): void => {
+    const queue = syncQueueStorage.getAll();
+
+    if (change.op === 'save') {
+      // Várias edições do mesmo cliente viram uma só, mantendo a posição original
+      const index = queue.findIndex(c => c.op === 'save' && c.customer.id === change.customer.id);
+      if (index >= 0) {
+        queue[index] = change;
+        return syncQueueStorage.setAll(queue);
+      }
+      queue.push(change);
+    } else {
+      // Exclusão torna obsoletas as gravações pendentes do mesmo cliente
+      const filtered = queue.filter(c => !(c.op === 'save' && c.customer.id === change.customerId));
+      filtered.push(change);
+      return syncQueueStorage.setAll(filtered);
+    }
+
+    syncQueueStorage.setAll(queue);
+  },
+
+  remove: (id: string): void => {
+    syncQueueStorage.setAll(syncQueueStorage.getAll().filter(c => c.id !== id));
+  }
+};
+
+export const profileCache = {
+  get: (userId: string): UserProfile | null => {
+    const profile = read<UserProfile | null>(PROFILE_KEY, null);
+    return profile?.id === userId ? profile : null;
+  },
+
+  set: (profile: UserProfile): void => {
+    write(PROFILE_KEY, profile);
+  },
+
+  clear: (): void => {
+    localStorage.removeItem(PROFILE_KEY);
+  }
+};
+
+// Empresa e papel do usuário, para abrir o painel mesmo sem conexão
+export const sessionCache = {
+  get: (userId: string): { company: Company; membership: Membership } | null => {
+    const session = read<{ company: Company; membership: Membership } | null>(SESSION_KEY, null);
+    return session?.membership.user_id === userId ? session : null;
+  },
+
+  set: (userId: string, session: { company: Company; membership: Membership }): void => {
+    if (session.membership.user_id === userId) write(SESSION_KEY, session);
+  },
+
+  clear: (): void => {
+    localStorage.removeItem(SESSION_KEY);
+  }
+};
+
+// Campos personalizados e etiquetas da empresa, para o formulário continuar completo offline
+export const schemaCache = {
+  get: (empresaId: string): CompanySchema | null =>
+    read<Record<string, CompanySchema>>(SCHEMA_KEY, {})[empresaId] || null,
+
+  set: (empresaId: string, schema: CompanySchema): void => {
+    write(SCHEMA_KEY, { ...read<Record<string, CompanySchema>>(SCHEMA_KEY, {}), [empresaId]: schema });
+  }
+};
+
+// Lembretes de tarefas já exibidos neste dispositivo, para não repetir a cada verificação
+export const notifiedTasksStorage = {
+  has: (id: string): boolean => read<string[]>(NOTIFIED_TASKS_KEY, []).includes(id),
+
+  add: (ids: string[]): void => {
+    write(NOTIFIED_TASKS_KEY, [...read<string[]>(NOTIFIED_TASKS_KEY, []), ...ids].slice(-500));
+  }
+};
+
+// Conflitos de edição aguardando decisão do usuário (um por cliente, o mais recente)
+export const conflictStorage = {
+  getAll: (): CustomerConflict[] => read<CustomerConflict[]>(CONFLICTS_KEY, []),
+
+  push: (conflict: CustomerConflict): void => {
+    write(CONFLICTS_KEY, [...conflictStorage.getAll().filter(c => c.mine.id !== conflict.mine.id), conflict]);
+  },
+
+  remove: (id: string): void => {
+    write(CONFLICTS_KEY, conflictStorage.getAll().filter(c => c.id !== id));
+  }
+};
+
+// Alterações recusadas pelo servidor, guardadas até o usuário tomar conhecimento
+export const failedChangeStorage = {
+  getAll: (): FailedChange[] => read<FailedChange[]>(FAILED_KEY, []),
+
+  push: (failed: FailedChange): void => {
+    write(FAILED_KEY, [...failedChangeStorage.getAll(), failed]);
+  },
+
+  clear: (): void => {
+    write(FAILED_KEY, []);
+  }
+};
+
+// Eventos de auditoria ainda não enviados ao servidor (gerados offline)
+export const auditQueueStorage = {
+  getAll: (): AuditEvent[] => read<AuditEvent[]>(AUDIT_QUEUE_KEY, []),
+
+  push: (event: AuditEvent): void => {
+    write(AUDIT_QUEUE_KEY, [...auditQueueStorage.getAll(), event]);
+  },
+
+  remove: (ids: string[]): void => {
+    write(AUDIT_QUEUE_KEY, auditQueueStorage.getAll().filter(e => !ids.includes(e.id)));
+  }
+};
+
+// Exclusão da conta: nada da empresa fica neste dispositivo
+export const clearLocalData = (): void => {
+  [STORAGE_KEY, QUEUE_KEY, PROFILE_KEY, SESSION_KEY, AUDIT_QUEUE_KEY, SCHEMA_KEY, NOTIFIED_TASKS_KEY, CONFLICTS_KEY, FAILED_KEY]
+    .forEach(key => localStorage.removeItem(key));
+};
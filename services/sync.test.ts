@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Customer, CustomerStatus } from '../types';
+import { CustomerRepository } from './repository';
+import { conflictError, deletedElsewhereError, permissionError } from './errors';
+import { createSyncedRepository } from './sync';
+import { localCustomerRepository } from './storage';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const memory = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => memory.get(key) ?? null,
+  setItem: (key: string, value: string) => { memory.set(key, value); },
+  removeItem: (key: string) => { memory.delete(key); },
+  key: (index: number) => [...memory.keys()][index] ?? null,
+  get length() { return memory.size; },
+});
+
+const customer = (id: string, overrides: Partial<Customer> = {}): Customer => ({
+  id,
+  empresa_id: 'e1',
+  name: id,
+  phone: '(11) 98765-4321',
+  email: '',
+  registration_date: '2024-03-05',
+  status: CustomerStatus.ACTIVE,
+  observations: '',
+  is_deleted: false,
+  created_at: '2024-03-05T12:00:00Z',
+  created_by: 'u1',
+  updated_at: 'v1',
+  ...overrides,
+});
+
+// Servidor em memória com a mesma checagem de versão do remoto; cada gravação demora um pouco
+const fakeRemote = (server: Record<string, Customer>, fail: (c: Customer) => Error | null = () => null) => ({
+  async save(c: Customer) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const error = fail(c);
+    if (error) throw error;
+    const current = server[c.id];
+    if (current && c.updated_at && c.updated_at !== current.updated_at) throw conflictError(c, current);
+    server[c.id] = { ...c, updated_at: `${current?.updated_at || 'v0'}+` };
+    return server[c.id];
+  },
+  async fetchOne(id: string) {
+    return server[id] || null;
+  },
+}) as unknown as CustomerRepository;
+
+beforeEach(() => memory.clear());
+
+describe('sincronização', () => {
+  it('gravações simultâneas só terminam depois de enviadas, e o conflito vai para quem o causou', async () => {
+    const server = { a: customer('a'), b: customer('b', { status: CustomerStatus.INACTIVE, updated_at: 'v2' }), c: customer('c') };
+    const { repository } = createSyncedRepository(fakeRemote(server), localCustomerRepository);
+    localCustomerRepository.mergeAll([customer('a'), customer('b'), customer('c')]);
+
+    const results = await Promise.allSettled(['a', 'b', 'c'].map(id => repository.save({ ...customer(id), status: CustomerStatus.PENDING })));
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(server.a.status).toBe(CustomerStatus.PENDING);
+    expect(server.b.status).toBe(CustomerStatus.INACTIVE);
+    expect(server.c.status).toBe(CustomerStatus.PENDING);
+  });
+
+  it('alteração recusada pelo servidor sai da fila, volta à versão do servidor e não trava as seguintes', async () => {
+    const server = { a: customer('a'), b: customer('b'), c: customer('c') };
+    const { repository, sync } = createSyncedRepository(
+      fakeRemote(server, c => (c.id === 'b' ? permissionError() : null)),
+      localCustomerRepository
+    );
+    localCustomerRepository.mergeAll([customer('a'), customer('b'), customer('c')]);
+
+    const results = await Promise.allSettled(['a', 'b', 'c'].map(id => repository.save({ ...customer(id), status: CustomerStatus.PENDING })));
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(server.a.status).toBe(CustomerStatus.PENDING);
+    expect(server.c.status).toBe(CustomerStatus.PENDING);
+    expect(localCustomerRepository.get('b')?.status).toBe(CustomerStatus.ACTIVE);
+
+    const status = sync.getStatus();
+    expect(status.pending).toBe(0);
+    expect(status.failed.map(f => f.change.op === 'save' && f.change.customer.id)).toEqual(['b']);
+    sync.dismissFailed();
+    expect(sync.getStatus().failed).toEqual([]);
+  });
+
+  it('edição de cliente apagado em outro dispositivo é descartada junto com a cópia local', async () => {
+    const server = { a: customer('a') };
+    const { repository, sync } = createSyncedRepository(
+      fakeRemote(server, c => (c.id === 'b' ? deletedElsewhereError(c) : null)),
+      localCustomerRepository
+    );
+    localCustomerRepository.mergeAll([customer('a'), customer('b')]);
+
+    const results = await Promise.allSettled(['a', 'b'].map(id => repository.save({ ...customer(id), status: CustomerStatus.PENDING })));
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect(localCustomerRepository.get('b')).toBeUndefined();
+    expect(sync.getStatus()).toMatchObject({ pending: 0, conflicts: [], failed: [] });
+  });
+
+  it('sessão expirada mantém a alteração na fila e a cópia local', async () => {
+    const server = { a: customer('a') };
+    let expired = true;
+    // Erro cru do PostgREST, sem passar por toAppError
+    const jwtExpired = { message: 'JWT expired', code: 'PGRST301', details: null, hint: null } as unknown as Error;
+    const { repository, sync } = createSyncedRepository(fakeRemote(server, () => (expired ? jwtExpired : null)), localCustomerRepository);
+    localCustomerRepository.mergeAll([customer('a')]);
+
+    await repository.save({ ...customer('a'), status: CustomerStatus.PENDING });
+
+    expect(sync.getStatus()).toMatchObject({ pending: 1, failed: [] });
+    expect(localCustomerRepository.get('a')?.status).toBe(CustomerStatus.PENDING);
+    expect(server.a.status).toBe(CustomerStatus.ACTIVE);
+
+    expired = false;
+    await sync.flush();
+    expect(sync.getStatus().pending).toBe(0);
+    expect(server.a.status).toBe(CustomerStatus.PENDING);
+  });
+});
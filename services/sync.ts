@@ -0,0 +1,319 @@
+
+import { AppStats, Customer, CustomerChangeEvent, CustomerFilters, CustomerPage, PendingChange, SyncStatus } from '../types';
+import { CustomerRepository } from './repository';
+import { conflictError, errorMessage, isConflictError, isDeletedElsewhere, isNetworkError, toAppError } from './errors';
+import { remoteCustomerRepository } from './api';
+import { localCustomerRepository, syncQueueStorage, conflictStorage, failedChangeStorage, generateId } from './storage';
+import { applyFilters } from './filters';
+import { changedKeys, conflictingKeys, resolveConflict } from './conflicts';
+import { assertValidCustomer } from './validation';
+import { t } from '../lib/i18n';
+
+type Listener = (status: SyncStatus) => void;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+export const createSyncedRepository = (
+  remote: CustomerRepository,
+  local: typeof localCustomerRepository
+) => {
+  const listeners = new Set<Listener>();
+  // Alterações descartadas pela sincronização, para a gravação que as originou repassar o erro
+  const rejected = new Map<string, unknown>();
+  // Sincronização em andamento: quem chama flush() durante ela espera a mesma execução
+  let inFlight: Promise<void> | null = null;
+  let status: SyncStatus = {
+    online: isOnline(),
+    syncing: false,
+    pending: syncQueueStorage.getAll().length,
+    error: null,
+    conflicts: conflictStorage.getAll(),
+    failed: failedChangeStorage.getAll()
+  };
+
+  const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, pending: syncQueueStorage.getAll().length, conflicts: conflictStorage.getAll(), failed: failedChangeStorage.getAll(), ...patch };
+    listeners.forEach(l => l(status));
+  };
+
+  const apply = (change: PendingChange): Promise<unknown> =>
+    change.op === 'save'
+      ? remote.save(change.customer)
+      : remote.hardDelete(change.customerId, change.empresaId);
+
+  const enqueue = (change: PendingChange) => {
+    syncQueueStorage.push(change);
+    setStatus({});
+  };
+
+  const pendingFor = (customerId: string) =>
+    syncQueueStorage.getAll().find(c => (c.op === 'save' ? c.customer.id : c.customerId) === customerId);
+
+  const replacePending = (change: PendingChange) =>
+    syncQueueStorage.setAll(syncQueueStorage.getAll().map(c => c.id === change.id ? change : c));
+
+  // A versão do servidor passa a ser a base das próximas gravações do mesmo cliente
+  const rebase = (current: Customer) => {
+    const pending = pendingFor(current.id);
+    if (!pending) return local.mergeAll([current]);
+    if (pending.op !== 'save') return;
+    replacePending({ ...pending, customer: { ...pending.customer, updated_at: current.updated_at }, base: current });
+    local.save({ id: current.id, updated_at: current.updated_at });
+  };
+
+  // Campos alterados só de um lado são combinados e a gravação segue sobre a versão nova;
+  // campos alterados dos dois lados aguardam decisão do usuário
+  const handleConflict = (theirs: Customer) => {
+    const pending = pendingFor(theirs.id);
+    if (pending?.op !== 'save') return rebase(theirs);
+    const { customer: mine, base } = pending;
+    if (conflictingKeys(mine, theirs, base).length === 0) {
+      const merged = { ...resolveConflict({ mine, theirs, base }), updated_at: theirs.updated_at };
+      replacePending({ ...pending, customer: merged, base: theirs });
+      local.save(merged);
+      return;
+    }
+    syncQueueStorage.remove(pending.id);
+    conflictStorage.push({ id: pending.id, mine, theirs, base, detected_at: new Date().toISOString() });
+    local.mergeAll([theirs]);
+  };
+
+  // Alteração recusada: a cópia local volta à versão do servidor, ou some se o cliente nunca chegou lá
+  const revert = async (change: PendingChange) => {
+    const [id, empresaId] = change.op === 'save' ? [change.customer.id, change.customer.empresa_id] : [change.customerId, change.empresaId];
+    try {
+      const current = await remote.fetchOne(id, empresaId);
+      if (current) local.mergeAll([current]);
+      else await local.hardDelete(id, empresaId);
+    } catch (err) {
+      console.error("Erro ao restaurar a cópia local:", err);
+    }
+  };
+
+  // Reaplica as alterações pendentes sobre a lista vinda do servidor
+  const overlayPending = (empresaId: string, customers: Customer[], deleted: boolean): Customer[] => {
+    let result = [...customers];
+    for (const change of syncQueueStorage.getAll()) {
+      if (change.op === 'save' && change.customer.empresa_id === empresaId) {
+        result = [change.customer, ...result.filter(c => c.id !== change.customer.id)];
+      } else if (change.op === 'delete' && change.empresaId === empresaId) {
+        result = result.filter(c => c.id !== change.customerId);
+      }
+    }
+    return result.filter(c => !!c.is_deleted === deleted);
+  };
+
+  // Alterações pendentes saem das páginas do servidor; as gravações entram no topo da primeira página
+  const overlayPendingPage = (empresaId: string, filters: CustomerFilters, page: CustomerPage, first: boolean): CustomerPage => {
+    const queue = syncQueueStorage.getAll();
+    const touched = new Set(queue.map(c => c.op === 'save' ? c.customer.id : c.customerId));
+    const saved = queue.flatMap(c => c.op === 'save' && c.customer.empresa_id === empresaId && !c.customer.is_deleted ? [c.customer] : []);
+    const items = page.items.filter(c => !touched.has(c.id));
+    return { ...page, items: first ? [...applyFilters(saved, filters), ...items] : items };
+  };
+
+  const fetchFrom = async (empresaId: string, deleted: boolean): Promise<Customer[]> => {
+    if (isOnline()) {
+      try {
+        const remoteData = deleted ? await remote.fetchDeleted(empresaId) : await remote.fetchAll(empresaId);
+        const data = overlayPending(empresaId, remoteData, deleted);
+        local.replaceAll(empresaId, data, deleted);
+        return data;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        setStatus({ online: false });
+      }
+    }
+    return deleted ? local.fetchDeleted(empresaId) : local.fetchAll(empresaId);
+  };
+
+  // Envia a fila em ordem; a fila pode crescer enquanto a sincronização roda
+  const drain = async (): Promise<void> => {
+    if (!isOnline()) return setStatus({ online: false });
+
+    setStatus({ online: true, syncing: true, error: null });
+    try {
+      let change: PendingChange | undefined;
+      while ((change = syncQueueStorage.getAll()[0])) {
+        try {
+          const saved = await apply(change);
+          syncQueueStorage.remove(change.id);
+          if (change.op === 'save') rebase(saved as Customer);
+        } catch (err) {
+          if (isDeletedElsewhere(err) && change.op === 'save') {
+            syncQueueStorage.remove(change.id);
+            rejected.set(change.id, err);
+            await local.hardDelete(change.customer.id, change.customer.empresa_id);
+          } else if (isConflictError(err)) {
+            handleConflict(err.theirs);
+          } else if (isNetworkError(err) || toAppError(err).kind === 'auth') {
+            // Sem conexão ou sessão (erro cru do Supabase, ex.: JWT expirado) a fila fica como está para a próxima tentativa
+            throw err;
+          } else {
+            syncQueueStorage.remove(change.id);
+            failedChangeStorage.push({ id: change.id, change, error: errorMessage(err, t('sync.failed')), failed_at: new Date().toISOString() });
+            rejected.set(change.id, err);
+            await revert(change);
+          }
+        }
+        setStatus({});
+      }
+      setStatus({ syncing: false });
+    } catch (err: any) {
+      console.error("Erro ao sincronizar alterações:", err);
+      setStatus(isNetworkError(err)
+        ? { syncing: false, online: isOnline() }
+        : { syncing: false, error: errorMessage(err, t('sync.failed')) });
+    }
+  };
+
+  const sync = {
+    getStatus: (): SyncStatus => status,
+
+    subscribe(listener: Listener): () => void {
+      listeners.add(listener);
+      listener(status);
+      return () => { listeners.delete(listener); };
+    },
+
+    flush(): Promise<void> {
+      if (!inFlight) inFlight = drain().finally(() => { inFlight = null; });
+      return inFlight;
+    },
+
+    // O usuário tomou conhecimento das alterações recusadas
+    dismissFailed(): void {
+      failedChangeStorage.clear();
+      setStatus({});
+    },
+
+    // Grava a versão escolhida sobre a do servidor; se ela coincidir com a do servidor, apenas descarta a alteração
+    async resolveConflict(id: string, resolved: Customer): Promise<Customer> {
+      const conflict = conflictStorage.getAll().find(c => c.id === id);
+      if (!conflict) throw new Error(t('sync.alreadyResolved'));
+      conflictStorage.remove(id);
+      setStatus({});
+      if (changedKeys(resolved, conflict.theirs).length === 0) return conflict.theirs;
+      return repository.save({ ...resolved, updated_at: conflict.theirs.updated_at }, conflict.theirs);
+    }
+  };
+
+  // Enfileira e sincroniza; conflito ou recusa desta alteração volta como erro para quem gravou.
+  // Offline a alteração só fica na fila e a gravação local vale como sucesso
+  const submit = async (change: PendingChange) => {
+    enqueue(change);
+    await sync.flush();
+    // Enfileirada no fim de uma sincronização que já tinha esvaziado a fila: precisa de mais uma rodada
+    if (syncQueueStorage.getAll().some(c => c.id === change.id)) await sync.flush();
+    const conflict = conflictStorage.getAll().find(c => c.id === change.id);
+    if (conflict) throw conflictError(conflict.mine, conflict.theirs);
+    if (rejected.has(change.id)) {
+      const err = rejected.get(change.id);
+      rejected.delete(change.id);
+      throw err;
+    }
+  };
+
+  const repository: CustomerRepository = {
+    fetchAll: (empresaId: string) => fetchFrom(empresaId, false),
+
+    fetchDeleted: (empresaId: string) => fetchFrom(empresaId, true),
+
+    async fetchPage(empresaId: string, filters: CustomerFilters, cursor: string | null, limit: number): Promise<CustomerPage> {
+      if (isOnline()) {
+        try {
+          const page = await remote.fetchPage(empresaId, filters, cursor, limit);
+          local.mergeAll(page.items);
+          return overlayPendingPage(empresaId, filters, page, cursor === null);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          setStatus({ online: false });
+        }
+      }
+      return local.fetchPage(empresaId, filters, cursor, limit);
+    },
+
+    async findSimilar(empresaId: string, probe: Partial<Customer>): Promise<Customer[]> {
+      if (isOnline()) {
+        try {
+          return await remote.findSimilar(empresaId, probe);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          setStatus({ online: false });
+        }
+      }
+      return local.findSimilar(empresaId, probe);
+    },
+
+    async fetchStats(empresaId: string): Promise<AppStats> {
+      if (isOnline()) {
+        try {
+          return await remote.fetchStats(empresaId);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          setStatus({ online: false });
+        }
+      }
+      return local.fetchStats(empresaId);
+    },
+
+    // Com alteração pendente, a versão local é a mais recente
+    async fetchOne(id: string, empresaId: string): Promise<Customer | null> {
+      if (isOnline() && !pendingFor(id)) {
+        try {
+          const customer = await remote.fetchOne(id, empresaId);
+          if (customer) local.mergeAll([customer]);
+          return customer;
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          setStatus({ online: false });
+        }
+      }
+      return local.fetchOne(id, empresaId);
+    },
+
+    // Devolve a versão gravada no servidor quando a sincronização conclui na hora
+    async save(customer: Partial<Customer>, base?: Customer): Promise<Customer> {
+      const previous = customer.id ? local.get(customer.id) : undefined;
+      assertValidCustomer(customer, previous);
+      // Base da mesclagem: a da alteração ainda na fila, a informada por quem editou ou a cópia local da mesma versão
+      const pending = customer.id ? pendingFor(customer.id) : undefined;
+      const editBase = pending?.op === 'save'
+        ? pending.base
+        : base || (previous && (customer.updated_at === undefined || customer.updated_at === previous.updated_at) ? previous : undefined);
+
+      const saved = await local.save({ ...customer, id: customer.id || generateId() });
+      const change: PendingChange = { id: generateId(), op: 'save', customer: saved, base: editBase, queued_at: new Date().toISOString() };
+      await submit(change);
+      return local.get(saved.id) || saved;
+    },
+
+    async hardDelete(id: string, empresaId: string): Promise<void> {
+      await local.hardDelete(id, empresaId);
+      await submit({ id: generateId(), op: 'delete', customerId: id, empresaId, queued_at: new Date().toISOString() });
+    },
+
+    // Clientes com alteração pendente neste dispositivo mantêm a versão local até a sincronização
+    watch(empresaId: string, onChange: (event: CustomerChangeEvent) => void): () => void {
+      return remote.watch(empresaId, event => {
+        const id = event.type === 'delete' ? event.id : event.customer.id;
+        if (pendingFor(id)) return;
+        if (event.type === 'delete') local.hardDelete(id, empresaId);
+        else local.mergeAll([event.customer]);
+        onChange(event);
+      });
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => { sync.flush(); });
+    window.addEventListener('offline', () => setStatus({ online: false }));
+  }
+
+  return { repository, sync };
+};
+
+const synced = createSyncedRepository(remoteCustomerRepository, localCustomerRepository);
+
+export const customerService = synced.repository;
+export const syncService = synced.sync;
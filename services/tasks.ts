@@ -0,0 +1,162 @@
+
+import { supabase } from '../lib/supabase';
+import { Customer, CustomerStatus, Task, TaskBuckets, UserProfile } from '../types';
+import { customerService } from './sync';
+import { auditService } from './audit';
+import { notifiedTasksStorage } from './storage';
+import { t } from '../lib/i18n';
+
+const SELECT_WITH_CUSTOMER = '*, customer:customers(*)';
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// Atrasadas: prazo já passou; hoje: vencem até o fim do dia; próximas: as demais
+export const bucketTasks = (tasks: Task[], now = new Date()): TaskBuckets => {
+  const tomorrow = startOfDay(now) + 24 * 60 * 60 * 1000;
+  const buckets: TaskBuckets = { overdue: [], today: [], upcoming: [] };
+  for (const task of tasks.filter(t => !t.done)) {
+    const due = new Date(task.due_at).getTime();
+    if (due < now.getTime()) buckets.overdue.push(task);
+    else if (due < tomorrow) buckets.today.push(task);
+    else buckets.upcoming.push(task);
+  }
+  return buckets;
+};
+
+export const isOverdue = (task: Task, now = new Date()) => !task.done && new Date(task.due_at).getTime() < now.getTime();
+
+// Tarefas sem responsável definido lembram quem as criou
+export const isMine = (task: Task, userId: string) => (task.assignee_id || task.created_by) === userId;
+
+// Tarefas do usuário que venceram e ainda não geraram lembrete neste dispositivo (já ficam marcadas como avisadas)
+export const takeDueReminders = (tasks: Task[], userId: string, now = new Date()): Task[] => {
+  const due = tasks.filter(t => isOverdue(t, now) && isMine(t, userId) && !notifiedTasksStorage.has(t.id));
+  notifiedTasksStorage.add(due.map(t => t.id));
+  return due;
+};
+
+export const showBrowserNotification = (title: string, body: string) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag: title });
+  } catch (err) {
+    console.error("Erro ao exibir notificação:", err);
+  }
+};
+
+const withoutCustomer = ({ customer, ...task }: Partial<Task>) => task;
+
+export const taskService = {
+  // Tarefas em aberto de clientes fora da lixeira: alimenta a agenda, os selos dos cartões e os lembretes
+  async fetchOpen(empresaId: string): Promise<Task[]> {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(SELECT_WITH_CUSTOMER)
+      .eq('empresa_id', empresaId)
+      .eq('done', false)
+      .order('due_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).filter((t: Task) => t.customer && !t.customer.is_deleted);
+  },
+
+  async fetchForCustomer(customerId: string, empresaId: string): Promise<Task[]> {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('empresa_id', empresaId)
+      .eq('customer_id', customerId)
+      .order('done', { ascending: true })
+      .order('due_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async save(task: Partial<Task> & Pick<Task, 'empresa_id' | 'customer_id' | 'title' | 'due_at'>, actor: UserProfile): Promise<Task> {
+    if (!task.title.trim()) throw new Error(t('tasks.titleRequired'));
+    if (Number.isNaN(new Date(task.due_at).getTime())) throw new Error(t('tasks.dueInvalid'));
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .upsert({
+        assignee_id: null,
+        done: false,
+        done_at: null,
+        created_by: actor.id,
+        ...withoutCustomer(task),
+        title: task.title.trim()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Concluir pode mudar o status do cliente (ex.: pendente -> ativo); devolve o cliente atualizado, se houver.
+  // O status é gravado primeiro: se ele falhar (conflito, permissão) a tarefa continua aberta, e se a tarefa
+  // falhar depois o status volta ao anterior
+  async complete(task: Task, actor: UserProfile, customer: Customer | null = null, status: CustomerStatus | null = null): Promise<Customer | null> {
+    let saved: Customer | null = null;
+    if (customer && status && status !== customer.status) saved = await customerService.save({ ...customer, status });
+
+    const { error } = await supabase
+      .from('tasks')
+      .update({ done: true, done_at: new Date().toISOString() })
+      .eq('id', task.id)
+      .eq('empresa_id', task.empresa_id);
+
+    if (error) {
+      if (customer && saved) {
+        await customerService.save({ ...saved, status: customer.status })
+          .catch(err => console.error("Erro ao desfazer mudança de status:", err));
+      }
+      throw error;
+    }
+    if (customer && saved) auditService.recordSave(actor, customer, saved);
+    return saved;
+  },
+
+  async reopen(task: Task): Promise<void> {
+    const { error } = await supabase
+      .from('tasks')
+      .update({ done: false, done_at: null })
+      .eq('id', task.id)
+      .eq('empresa_id', task.empresa_id);
+
+    if (error) throw error;
+  },
+
+  async remove(task: Task): Promise<void> {
+    const { error } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', task.id)
+      .eq('empresa_id', task.empresa_id);
+
+    if (error) throw error;
+  },
+
+  // Mesclagem: as tarefas dos duplicados passam para o cadastro mantido
+  async reassign(fromIds: string[], toId: string, empresaId: string): Promise<void> {
+    if (fromIds.length === 0) return;
+    const { error } = await supabase
+      .from('tasks')
+      .update({ customer_id: toId })
+      .eq('empresa_id', empresaId)
+      .in('customer_id', fromIds);
+
+    if (error) throw error;
+  },
+
+  async removeForCustomer(customerId: string, empresaId: string): Promise<void> {
+    const { error } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('empresa_id', empresaId)
+      .eq('customer_id', customerId);
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,270 @@
+
+import { supabase } from '../lib/supabase';
+import { Company, Invitation, Membership, MemberRole, Permission, UserProfile } from '../types';
+import { sessionCache, generateId } from './storage';
+import { permissionError } from './errors';
+import { t, translatedLabels } from '../lib/i18n';
+
+export const ROLE_LABELS: Record<MemberRole, string> = translatedLabels({
+  owner: 'role.owner',
+  manager: 'role.manager',
+  attendant: 'role.attendant',
+  readonly: 'role.readonly',
+});
+
+const ROLE_PERMISSIONS: Record<MemberRole, Permission[]> = {
+  owner: ['customers.create', 'customers.edit', 'customers.delete', 'customers.import', 'customers.export', 'lgpd.manage', 'audit.view', 'reports.view', 'messages.send', 'team.manage'],
+  manager: ['customers.create', 'customers.edit', 'customers.delete', 'customers.import', 'customers.export', 'lgpd.manage', 'audit.view', 'reports.view', 'messages.send', 'team.manage'],
+  attendant: ['customers.create', 'customers.edit', 'messages.send'],
+  readonly: [],
+};
+
+const INVITATION_TTL_DAYS = 7;
+
+// A interface só esconde ações; a garantia real fica nas políticas RLS do Supabase
+export const can = (membership: Membership | null, permission: Permission): boolean =>
+  !!membership && ROLE_PERMISSIONS[membership.role].includes(permission);
+
+export const invitationLink = (invitation: Invitation) =>
+  `${window.location.origin}/signup?convite=${invitation.token}`;
+
+export const teamService = {
+  // Descobre a empresa do usuário: vínculo existente, convite pendente ou nova empresa própria
+  async resolveMembership(profile: UserProfile): Promise<{ company: Company; membership: Membership }> {
+    try {
+      let membership = await teamService.fetchMembership(profile.id);
+
+      if (!membership) {
+        const pending = await teamService.fetchPendingInvitationFor(profile.email);
+        if (pending) {
+          await teamService.acceptInvitation(pending.token, profile);
+          membership = await teamService.fetchMembership(profile.id);
+        }
+      }
+
+      if (!membership) membership = await teamService.createOwnCompany(profile);
+
+      const company = await teamService.fetchCompany(membership.company_id);
+      sessionCache.set(profile.id, { company, membership });
+      return { company, membership };
+    } catch (err) {
+      const cached = sessionCache.get(profile.id);
+      if (cached) return cached;
+      throw err;
+    }
+  },
+
+  async fetchMembership(userId: string): Promise<Membership | null> {
+    const { data, error } = await supabase
+      .from('company_members')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async fetchCompany(companyId: string): Promise<Company> {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('*')
+      .eq('id', companyId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Reaproveita o ID do perfil como ID da empresa para manter os clientes já cadastrados (empresa_id)
+  async createOwnCompany(profile: UserProfile): Promise<Membership> {
+    const { error: companyError } = await supabase
+      .from('companies')
+      .upsert({
+        id: profile.id,
+        name: profile.company_name,
+        owner_id: profile.id,
+        created_at: new Date().toISOString()
+      });
+
+    if (companyError) throw companyError;
+
+    const { data, error } = await supabase
+      .from('company_members')
+      .insert({
+        company_id: profile.id,
+        user_id: profile.id,
+        role: 'owner',
+        name: profile.responsible_name,
+        email: profile.email
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateCompany(companyId: string, changes: Partial<Omit<Company, 'id' | 'owner_id' | 'created_at'>>): Promise<Company> {
+    const { data, error } = await supabase
+      .from('companies')
+      .update(changes)
+      .eq('id', companyId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async fetchMembers(companyId: string): Promise<Membership[]> {
+    const { data, error } = await supabase
+      .from('company_members')
+      .select('*')
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async updateRole(member: Membership, role: MemberRole): Promise<void> {
+    if (member.role === 'owner') throw permissionError("O proprietário não pode ter o papel alterado.");
+    if (role === 'owner') throw permissionError(t('team.singleOwnerTransfer'));
+
+    const { error } = await supabase
+      .from('company_members')
+      .update({ role })
+      .eq('id', member.id)
+      .eq('company_id', member.company_id);
+
+    if (error) throw error;
+  },
+
+  // Só o proprietário entrega a empresa; a função do banco troca owner_id e os dois papéis na mesma transação
+  // e o antigo proprietário continua na equipe como gerente
+  async transferOwnership(company: Company, membership: Membership | null, profile: UserProfile, target: Membership): Promise<{ company: Company; membership: Membership }> {
+    if (membership?.role !== 'owner' || company.owner_id !== profile.id) {
+      throw permissionError(t('team.transferOwnerOnly'));
+    }
+    if (target.company_id !== company.id || target.user_id === profile.id) {
+      throw permissionError(t('team.transferOtherMember'));
+    }
+
+    const { error } = await supabase.rpc('transfer_ownership', { company_id: company.id, new_owner_id: target.user_id });
+    if (error) throw error;
+    return teamService.resolveMembership(profile);
+  },
+
+  async removeMember(member: Membership): Promise<void> {
+    if (member.role === 'owner') throw permissionError("O proprietário não pode ser removido da empresa.");
+
+    const { error } = await supabase
+      .from('company_members')
+      .delete()
+      .eq('id', member.id)
+      .eq('company_id', member.company_id);
+
+    if (error) throw error;
+  },
+
+  async fetchInvitations(companyId: string): Promise<Invitation[]> {
+    const { data, error } = await supabase
+      .from('invitations')
+      .select('*')
+      .eq('company_id', companyId)
+      .is('accepted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async fetchPendingInvitationFor(email: string): Promise<Invitation | null> {
+    if (!email) return null;
+    const { data, error } = await supabase
+      .from('invitations')
+      .select('*')
+      .ilike('email', email)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async invite(companyId: string, email: string, role: MemberRole, invitedBy: UserProfile): Promise<Invitation> {
+    if (role === 'owner') throw permissionError(t('team.singleOwner'));
+
+    const { data, error } = await supabase
+      .from('invitations')
+      .insert({
+        company_id: companyId,
+        email: email.trim().toLowerCase(),
+        role,
+        token: generateId(),
+        invited_by: invitedBy.id,
+        expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        accepted_at: null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // O link mágico do Supabase entrega o convite por e-mail e já autentica o convidado
+    const { error: mailError } = await supabase.auth.signInWithOtp({
+      email: data.email,
+      options: { emailRedirectTo: invitationLink(data), shouldCreateUser: true }
+    });
+
+    if (mailError) console.error("Erro ao enviar e-mail de convite:", mailError);
+    return data;
+  },
+
+  async revokeInvitation(invitation: Invitation): Promise<void> {
+    const { error } = await supabase
+      .from('invitations')
+      .delete()
+      .eq('id', invitation.id)
+      .eq('company_id', invitation.company_id);
+
+    if (error) throw error;
+  },
+
+  async acceptInvitation(token: string, profile: UserProfile): Promise<void> {
+    const { data: invitation, error } = await supabase
+      .from('invitations')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!invitation || invitation.accepted_at) return;
+    if (new Date(invitation.expires_at).getTime() < Date.now()) throw new Error(t('team.inviteExpired'));
+    if (invitation.email.toLowerCase() !== profile.email.toLowerCase()) throw new Error(t('team.inviteOtherEmail'));
+
+    const { error: memberError } = await supabase
+      .from('company_members')
+      .insert({
+        company_id: invitation.company_id,
+        user_id: profile.id,
+        role: invitation.role,
+        name: profile.responsible_name,
+        email: profile.email
+      });
+
+    if (memberError) throw memberError;
+
+    const { error: acceptError } = await supabase
+      .from('invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitation.id);
+
+    if (acceptError) throw acceptError;
+  }
+};
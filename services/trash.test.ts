@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Customer, UserProfile } from '../types';
+import { trashService } from './trash';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const trashed = (id: string, deleted_at: string | null) =>
+  ({ id, empresa_id: 'e1', name: id, is_deleted: true, deleted_at }) as Customer;
+
+describe('purgeExpired', () => {
+  it('apaga o que passou do prazo e os registros sem data de exclusão', async () => {
+    const customers = [
+      trashed('recente', new Date(Date.now() - 2 * DAY_MS).toISOString()),
+      trashed('vencido', new Date(Date.now() - 31 * DAY_MS).toISOString()),
+      trashed('sem-data', null),
+    ];
+    vi.spyOn(trashService, 'fetchAll').mockResolvedValue(customers);
+    const purge = vi.spyOn(trashService, 'purge').mockResolvedValue();
+
+    expect(await trashService.purgeExpired('e1', 30, { id: 'u1' } as UserProfile)).toBe(2);
+    expect(purge.mock.calls.map(([customer]) => customer.id)).toEqual(['vencido', 'sem-data']);
+    expect(customers.map(c => trashService.daysLeft(c, 30))).toEqual([28, 0, 0]);
+  });
+});
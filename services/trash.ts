@@ -0,0 +1,71 @@
+
+import { Company, Customer, UserProfile } from '../types';
+import { customerService } from './sync';
+import { lgpdService } from './lgpd';
+import { auditService } from './audit';
+import { interactionService } from './interactions';
+import { taskService } from './tasks';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_OPTIONS = [7, 15, 30, 60, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const retentionDaysOf = (company: Company | null) =>
+  company?.trash_retention_days || DEFAULT_TRASH_RETENTION_DAYS;
+
+export const trashService = {
+  fetchAll: (empresaId: string): Promise<Customer[]> => customerService.fetchDeleted(empresaId),
+
+  async moveToTrash(customer: Customer, actor: UserProfile): Promise<Customer> {
+    const saved = await customerService.save({
+      ...customer,
+      is_deleted: true,
+      deleted_at: new Date().toISOString(),
+      deleted_by: actor.id
+    });
+    auditService.record(actor, { empresa_id: customer.empresa_id, customer_id: customer.id, action: 'delete' });
+    return saved;
+  },
+
+  async restore(customer: Customer, actor: UserProfile): Promise<Customer> {
+    const saved = await customerService.save({ ...customer, is_deleted: false, deleted_at: null, deleted_by: null });
+    auditService.record(actor, { empresa_id: customer.empresa_id, customer_id: customer.id, action: 'restore' });
+    return saved;
+  },
+
+  // Exclusão definitiva: atende ao direito de eliminação da LGPD e fica registrada
+  async purge(customer: Pick<Customer, 'id' | 'empresa_id'>, actor: UserProfile, details: string | null = null): Promise<void> {
+    await customerService.hardDelete(customer.id, customer.empresa_id);
+    await interactionService.removeForCustomer(customer.id, customer.empresa_id)
+      .catch(err => console.error("Erro ao excluir interações:", err));
+    await taskService.removeForCustomer(customer.id, customer.empresa_id)
+      .catch(err => console.error("Erro ao excluir tarefas:", err));
+    await lgpdService.log(customer, 'erasure', actor, details)
+      .catch(err => console.error("Erro ao registrar exclusão:", err));
+    // O motivo fica no registro da LGPD; o evento da exclusão também passa pela anonimização do histórico
+    await auditService.record(actor, { empresa_id: customer.empresa_id, customer_id: customer.id, action: 'purge', summary: details });
+    await auditService.redactCustomer(customer.id, customer.empresa_id)
+      .catch(err => console.error("Erro ao anonimizar histórico:", err));
+  },
+
+  // Sem data de exclusão (registros antigos, gravados antes de deleted_at existir) o prazo já está vencido
+  daysLeft(customer: Customer, retentionDays: number): number {
+    const deletedAt = customer.deleted_at ? new Date(customer.deleted_at).getTime() : NaN;
+    if (Number.isNaN(deletedAt)) return 0;
+    const expiresAt = deletedAt + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+  },
+
+  // Executado ao abrir o painel: remove o que passou do prazo de retenção configurado
+  async purgeExpired(empresaId: string, retentionDays: number, actor: UserProfile): Promise<number> {
+    const expired = (await trashService.fetchAll(empresaId))
+      .filter(c => trashService.daysLeft(c, retentionDays) === 0);
+
+    for (const customer of expired) {
+      await trashService.purge(customer, actor, `Prazo de retenção da lixeira (${retentionDays} dias) expirado`);
+    }
+    return expired.length;
+  }
+};
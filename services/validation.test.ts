@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CompanySchema, Customer, CustomerStatus } from '../types';
+import { assertValidCustomer, validateCustomer } from './validation';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+// Cadastro antigo, anterior às regras de validação: e-mail fora do padrão e sem data de início
+const legacy = {
+  id: 'c1', empresa_id: 'e1', name: 'Ana', phone: '(11) 98765-4321', email: 'ana@', registration_date: null,
+  status: CustomerStatus.ACTIVE, observations: '', is_deleted: false, created_at: '2020-01-01T12:00:00Z', created_by: 'u1',
+} as unknown as Customer;
+
+describe('assertValidCustomer', () => {
+  it('confere todos os campos de um cadastro novo', () => {
+    expect(() => assertValidCustomer({ ...legacy, id: undefined })).toThrow();
+  });
+
+  it('deixa etiquetar, mover para a lixeira e registrar contato em cadastros antigos', () => {
+    expect(() => assertValidCustomer({ ...legacy, tags: ['t1'] }, legacy)).not.toThrow();
+    expect(() => assertValidCustomer({ ...legacy, is_deleted: true, status: CustomerStatus.INACTIVE }, legacy)).not.toThrow();
+    expect(() => assertValidCustomer({ ...legacy, last_contact_at: '2024-03-05T12:00:00Z' }, legacy)).not.toThrow();
+  });
+
+  it('recusa o campo alterado quando ele fica inválido', () => {
+    expect(() => assertValidCustomer({ ...legacy, email: 'ana@@x' }, legacy)).toThrow(/E-mail inválido/);
+    expect(() => assertValidCustomer({ ...legacy, phone: ' ' }, legacy)).toThrow(/Telefone obrigatório/);
+  });
+});
+
+describe('validateCustomer', () => {
+  it('recusa status com nome de propriedade herdada', () => {
+    expect(validateCustomer({ status: 'constructor' }).errors.status).toMatch(/Status desconhecido/);
+    expect(validateCustomer({ status: ' Pendente ' }).data.status).toBe(CustomerStatus.PENDING);
+  });
+
+  it('recusa datas impossíveis nos campos personalizados', () => {
+    const schema = { fields: [{ id: 'f1', key: 'aniversario', label: 'Aniversário', type: 'date' }], tags: [] } as unknown as CompanySchema;
+    expect(validateCustomer({ custom: { aniversario: '31/02/2024' } }, schema).errors['cf:aniversario']).toMatch(/Aniversário/);
+    expect(validateCustomer({ custom: { aniversario: '2024-13-01' } }, schema).errors['cf:aniversario']).toBeDefined();
+    expect(validateCustomer({ custom: { aniversario: '5/3/2024' } }, schema).data.custom_fields).toEqual({ aniversario: '2024-03-05' });
+  });
+});
@@ -0,0 +1,176 @@
+
+import { CompanySchema, Customer, CustomerStatus, CustomFieldValue, FieldErrors, SignupData } from '../types';
+import { parsePhone } from '../lib/phone';
+import { EMPTY_SCHEMA, parseCustomValue } from './customFields';
+import { validationError } from './errors';
+import { t } from '../lib/i18n';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+const STATUS_ALIASES: Record<string, CustomerStatus> = {
+  ativo: CustomerStatus.ACTIVE,
+  active: CustomerStatus.ACTIVE,
+  inativo: CustomerStatus.INACTIVE,
+  inactive: CustomerStatus.INACTIVE,
+  pendente: CustomerStatus.PENDING,
+  pending: CustomerStatus.PENDING,
+  activo: CustomerStatus.ACTIVE,
+  inactivo: CustomerStatus.INACTIVE,
+  pendiente: CustomerStatus.PENDING,
+};
+
+// Aceita AAAA-MM-DD e DD/MM/AAAA (ou DD-MM-AAAA); devolve sempre AAAA-MM-DD
+export const parseDateInput = (value: string): string | null => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const br = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : br ? [br[3], br[2].padStart(2, '0'), br[1].padStart(2, '0')] : [];
+  if (!year) return null;
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  const valid = date.getFullYear() === Number(year) && date.getMonth() === Number(month) - 1 && date.getDate() === Number(day);
+  return valid ? `${year}-${month}-${day}` : null;
+};
+
+// Valores crus (como digitados ou lidos da planilha); campos ausentes não são validados
+export interface CustomerInput {
+  name?: string;
+  phone?: string;
+  email?: string;
+  status?: string;
+  registration_date?: string;
+  observations?: string;
+  tags?: string[]; // IDs ou nomes das etiquetas
+  custom?: Record<string, string>; // Pela chave do campo personalizado
+}
+
+// Lê um campo de texto do formulário sem supor o tipo do valor
+export const formText = (formData: FormData, key: string): string => {
+  const value = formData.get(key);
+  return typeof value === 'string' ? value : '';
+};
+
+// Regras dos campos fixos: recebem o texto cru e devolvem o valor normalizado ou lançam a mensagem do erro
+export const customerRules = {
+  name: (raw: string) => {
+    const name = raw.trim();
+    if (!name) throw new Error(t('validation.nameRequired'));
+    return name;
+  },
+  phone: parsePhone,
+  email: (raw: string) => {
+    const email = raw.trim();
+    if (email && !EMAIL_PATTERN.test(email)) throw new Error(t('validation.emailInvalid', { email }));
+    return email;
+  },
+  status: (raw: string) => {
+    // Só as chaves do próprio mapa: "constructor" ou "toString" não são status
+    const alias = raw.trim().toLowerCase();
+    const status = Object.hasOwn(STATUS_ALIASES, alias) ? STATUS_ALIASES[alias] : undefined;
+    if (!status) throw new Error(t('validation.statusUnknown', { status: raw }));
+    return status;
+  },
+  registration_date: (raw: string) => {
+    if (!raw.trim()) throw new Error(t('validation.startDateRequired'));
+    const date = parseDateInput(raw);
+    if (!date) throw new Error(t('validation.dateInvalid', { date: raw }));
+    return date;
+  },
+};
+
+// Esquema único do cliente: usado pelo formulário, pela importação e pelo serviço antes de gravar
+export const validateCustomer = (input: CustomerInput, schema: CompanySchema = EMPTY_SCHEMA): { data: Partial<Customer>; errors: FieldErrors } => {
+  const data: Partial<Customer> = {};
+  const errors: FieldErrors = {};
+  const check = <T,>(field: string, parse: () => T, apply: (value: T) => void) => {
+    try {
+      apply(parse());
+    } catch (err: any) {
+      errors[field] = err.message;
+    }
+  };
+
+  if (input.name !== undefined) check('name', () => customerRules.name(input.name!), name => { data.name = name; });
+  if (input.phone !== undefined) check('phone', () => customerRules.phone(input.phone!), phone => {
+    data.phone = phone.display;
+    data.phone_e164 = phone.e164;
+  });
+  if (input.email !== undefined) check('email', () => customerRules.email(input.email!), email => { data.email = email; });
+  if (input.status !== undefined) check('status', () => customerRules.status(input.status!), status => { data.status = status; });
+  if (input.registration_date !== undefined) check('registration_date', () => customerRules.registration_date(input.registration_date!), date => { data.registration_date = date; });
+  if (input.observations !== undefined) data.observations = input.observations.trim();
+
+  if (input.tags) {
+    const matches = (value: string) => schema.tags.find(t => t.id === value || t.name.toLowerCase() === value.toLowerCase());
+    const unknown = input.tags.filter(value => !matches(value));
+    if (unknown.length) errors.tags = t('validation.unknownTags', { tags: unknown.join(', ') });
+    data.tags = [...new Set(input.tags.flatMap(value => matches(value)?.id || []))];
+  }
+
+  if (input.custom) {
+    const custom: Record<string, CustomFieldValue> = {};
+    for (const field of schema.fields.filter(f => input.custom![f.key] !== undefined)) {
+      check(`cf:${field.key}`, () => parseCustomValue(field, input.custom![field.key]), value => { custom[field.key] = value; });
+    }
+    data.custom_fields = custom;
+  }
+
+  return { data, errors };
+};
+
+export const assertValid = (errors: FieldErrors): void => {
+  if (Object.keys(errors).length > 0) throw validationError(errors);
+};
+
+// Verificação antes de gravar um cliente. Com a versão guardada (previous), só os campos alterados são conferidos:
+// cadastros antigos fora do padrão continuam recebendo etiquetas, contatos e indo para a lixeira.
+// Anonimizados ficam sem nome real e sem telefone
+export const assertValidCustomer = (customer: Partial<Customer>, previous?: Partial<Customer>): void => {
+  const changed = (field: keyof Customer) => !previous || (customer[field] !== undefined && customer[field] !== previous[field]);
+  const input: CustomerInput = {};
+  for (const field of ['name', 'email', 'status', 'registration_date'] as const) {
+    if (changed(field)) input[field] = customer[field] || '';
+  }
+  const { errors } = validateCustomer(input);
+  if (!customer.anonymized_at && changed('phone') && !(customer.phone || '').trim()) errors.phone = t('validation.phoneRequired');
+  assertValid(errors);
+};
+
+export const validateEmail = (email: string): FieldErrors =>
+  EMAIL_PATTERN.test(email.trim()) ? {} : { email: t('validation.emailRequired') };
+
+export const validateLogin = (data: Pick<SignupData, 'email' | 'password'>): FieldErrors => {
+  const errors: FieldErrors = validateEmail(data.email);
+  if (!data.password) errors.password = t('validation.passwordRequired');
+  return errors;
+};
+
+// Nova senha digitada duas vezes: redefinição pelo link do e-mail e troca nas configurações
+export const validateNewPassword = (password: string, confirmation: string): FieldErrors => {
+  const errors: FieldErrors = {};
+  if (password.length < MIN_PASSWORD_LENGTH) errors.password = t('validation.passwordLength', { min: MIN_PASSWORD_LENGTH });
+  else if (password !== confirmation) errors.confirmation = t('validation.passwordMismatch');
+  return errors;
+};
+
+// Dados do perfil e da empresa editados depois do cadastro; campos ausentes não são validados
+export const validateAccount = (data: Partial<Pick<SignupData, 'companyName' | 'responsibleName'>>): FieldErrors => {
+  const errors: FieldErrors = {};
+  if (data.companyName !== undefined && !data.companyName.trim()) errors.companyName = t('validation.companyRequired');
+  if (data.responsibleName !== undefined && !data.responsibleName.trim()) errors.responsibleName = t('validation.responsibleRequired');
+  return errors;
+};
+
+// Convidados entram na empresa de quem convidou, por isso não informam o nome da empresa
+export const validateSignup = (data: SignupData, requireCompany: boolean): FieldErrors => {
+  const errors: FieldErrors = validateLogin(data);
+  if (data.password && data.password.length < MIN_PASSWORD_LENGTH) errors.password = t('validation.passwordLength', { min: MIN_PASSWORD_LENGTH });
+  if (requireCompany && !data.companyName.trim()) errors.companyName = t('validation.companyRequired');
+  if (!data.responsibleName.trim()) errors.responsibleName = t('validation.responsibleRequired');
+  if (!data.terms) errors.terms = t('validation.termsRequired');
+  return errors;
+};
@@ -9,14 +9,22 @@ export interface Customer {
   id: string;
   empresa_id: string; // FK para isolamento multi-empresa
   name: string;
-  phone: string;
+  phone: string; // Formato de exibição
+  phone_e164?: string | null; // Normalizado (+5511988887777), usado em busca e links
+  custom_fields?: Record<string, CustomFieldValue>; // Valores dos campos personalizados, pela chave do campo
+  tags?: string[]; // IDs das etiquetas
   email: string;
   registration_date: string;
   status: CustomerStatus;
-  observations: string;
+  observations: string; // Legado: migrado para a linha do tempo ao abrir o cliente
+  last_contact_at?: string | null; // Interação mais recente que não seja anotação
   is_deleted: boolean;
   created_at: string;
   created_by: string; // User ID do responsável
+  updated_at?: string;
+  anonymized_at?: string | null; // Preenchido quando os dados pessoais foram removidos (LGPD)
+  deleted_at?: string | null; // Momento em que foi para a lixeira
+  deleted_by?: string | null;
 }
 
 export interface UserProfile {
@@ -28,14 +36,377 @@ export interface UserProfile {
   created_at: string;
 }
 
+export interface Company {
+  id: string; // Para contas anteriores às equipes, igual ao ID do perfil do dono
+  name: string;
+  owner_id: string;
+  created_at: string;
+  trash_retention_days?: number; // Dias na lixeira antes da exclusão definitiva
+}
+
+export type MemberRole = 'owner' | 'manager' | 'attendant' | 'readonly';
+
+export type Permission =
+  | 'customers.create'
+  | 'customers.edit'
+  | 'customers.delete'
+  | 'customers.import'
+  | 'customers.export'
+  | 'lgpd.manage'
+  | 'audit.view'
+  | 'reports.view'
+  | 'messages.send'
+  | 'team.manage';
+
+export interface Membership {
+  id: string;
+  company_id: string;
+  user_id: string;
+  role: MemberRole;
+  name: string;
+  email: string;
+  created_at: string;
+}
+
+export interface Invitation {
+  id: string;
+  company_id: string;
+  email: string;
+  role: MemberRole;
+  token: string;
+  invited_by: string;
+  created_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
 export interface AuthState {
   isLoggedIn: boolean;
   profile: UserProfile | null;
+  company: Company | null;
+  membership: Membership | null;
   loading: boolean;
 }
 
 export interface AppStats {
   total: number;
   active: number;
+  pending: number;
   inactive: number;
 }
+
+export type PendingChange =
+  // base: versão do servidor em que a edição começou, usada para mesclar com alterações de outros dispositivos
+  | { id: string; op: 'save'; customer: Customer; base?: Customer; queued_at: string }
+  | { id: string; op: 'delete'; customerId: string; empresaId: string; queued_at: string };
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  error: string | null;
+  conflicts: CustomerConflict[];
+  failed: FailedChange[];
+}
+
+// Gravação recusada porque o cliente mudou no servidor depois que a edição começou
+export interface CustomerConflict {
+  id: string; // Alteração da fila que foi recusada
+  mine: Customer;
+  theirs: Customer;
+  base?: Customer;
+  detected_at: string;
+}
+
+// Alteração recusada pelo servidor (permissão, restrição do banco...); sai da fila para não travar as seguintes
+export interface FailedChange {
+  id: string; // Alteração da fila que foi recusada
+  change: PendingChange;
+  error: string;
+  failed_at: string;
+}
+
+export type AppErrorKind = 'validation' | 'auth' | 'permission' | 'network' | 'conflict' | 'unknown';
+
+// Mensagens de validação por campo (campos personalizados usam cf:<chave>)
+export type FieldErrors = Record<string, string>;
+
+export interface SignupData {
+  email: string;
+  password: string;
+  companyName: string;
+  responsibleName: string;
+  terms: boolean;
+}
+
+// Alteração de cliente feita em outro dispositivo ou aba, recebida em tempo real
+export type CustomerChangeEvent =
+  | { type: 'upsert'; customer: Customer }
+  | { type: 'delete'; id: string };
+
+export type ImportField = 'name' | 'phone' | 'email' | 'status' | 'registration_date' | 'observations' | 'tags' | `cf:${string}`;
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export interface ImportRow {
+  line: number;
+  data: Partial<Customer>;
+  errors: string[];
+  match: Customer | null;
+  action: ImportAction;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'vcf';
+
+export type ExportScope = 'filtered' | 'selected' | 'all';
+
+// Campos fixos do cliente ou campos personalizados (cf:chave)
+export type ExportField = keyof Customer | `cf:${string}`;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fields: ExportField[];
+  delimiter?: ',' | ';';
+  vcardVersion?: '3.0' | '4.0';
+}
+
+// Bases legais do art. 7º da LGPD mais usadas no relacionamento com clientes
+export enum LegalBasis {
+  CONSENT = 'consentimento',
+  CONTRACT = 'execucao_contrato',
+  LEGAL_OBLIGATION = 'obrigacao_legal',
+  LEGITIMATE_INTEREST = 'interesse_legitimo'
+}
+
+export type ConsentChannel = 'presencial' | 'whatsapp' | 'email' | 'telefone' | 'formulario_online';
+
+export interface ConsentRecord {
+  id: string;
+  customer_id: string;
+  empresa_id: string;
+  legal_basis: LegalBasis;
+  purpose: string;
+  channel: ConsentChannel;
+  granted_at: string;
+  revoked_at: string | null;
+  recorded_by: string;
+}
+
+export type DataSubjectOperation =
+  | 'access_report'
+  | 'anonymization'
+  | 'erasure'
+  | 'consent_granted'
+  | 'consent_revoked';
+
+export interface DataSubjectLog {
+  id: string;
+  customer_id: string;
+  empresa_id: string;
+  operation: DataSubjectOperation;
+  performed_by: string;
+  performed_by_name: string;
+  performed_at: string;
+  details: string | null;
+}
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'status_change'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'anonymize'
+  | 'import'
+  | 'export'
+  | 'merge';
+
+export interface AuditChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  empresa_id: string;
+  customer_id: string | null; // Nulo em eventos de lote (importação, exportação)
+  action: AuditAction;
+  changes: AuditChange[];
+  summary: string | null;
+  actor_id: string;
+  actor_name: string;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  actorId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+}
+
+export type SortField = 'name' | 'registration_date' | 'created_at';
+
+export type DatePeriod = 'this_month' | 'last_30_days' | 'this_year';
+
+export interface CustomerFilters {
+  search: string;
+  statuses: CustomerStatus[];
+  period: DatePeriod | null; // Período relativo: continua válido em visões salvas
+  from: string | null;
+  to: string | null;
+  email: 'with' | 'without' | null;
+  responsible: string | null;
+  tags: string[]; // Qualquer uma das etiquetas
+  custom: Record<string, string>; // Chave do campo personalizado -> valor exato
+  sort: SortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface SavedView {
+  id: string;
+  empresa_id: string;
+  user_id: string;
+  name: string;
+  filters: CustomerFilters;
+  created_at: string;
+}
+
+// Página da listagem paginada por cursor (keyset); nextCursor nulo indica fim da lista
+export interface CustomerPage {
+  items: Customer[];
+  nextCursor: string | null;
+}
+
+// Duplicados: motivos pelos quais dois cadastros parecem ser a mesma pessoa
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateMatch {
+  customer: Customer;
+  reasons: DuplicateReason[];
+}
+
+// Campos escolhidos individualmente na mesclagem (observações são concatenadas e a data mais antiga prevalece)
+export type MergeField = 'name' | 'phone' | 'email' | 'status' | 'created_by';
+
+// Campos personalizados e etiquetas definidos por empresa
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+
+export type CustomFieldValue = string | number | boolean | null;
+
+export interface CustomFieldDefinition {
+  id: string;
+  empresa_id: string;
+  key: string; // Chave estável no JSON do cliente; o rótulo pode mudar
+  label: string;
+  type: CustomFieldType;
+  options: string[]; // Apenas para 'select'
+  required: boolean;
+  show_on_card: boolean;
+  position: number;
+  created_at: string;
+}
+
+export interface Tag {
+  id: string;
+  empresa_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+}
+
+export interface CompanySchema {
+  fields: CustomFieldDefinition[];
+  tags: Tag[];
+}
+
+// Linha do tempo de interações com o cliente
+export type InteractionType = 'note' | 'call' | 'whatsapp' | 'email' | 'visit' | 'purchase';
+
+export interface Interaction {
+  id: string;
+  empresa_id: string;
+  customer_id: string;
+  type: InteractionType;
+  content: string;
+  occurred_at: string;
+  author_id: string;
+  author_name: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+// Modelos de mensagem da empresa; o texto aceita campos de mesclagem como {{name}}
+export type MessageChannel = 'whatsapp' | 'email';
+
+export interface MessageTemplate {
+  id: string;
+  empresa_id: string;
+  name: string;
+  channel: MessageChannel;
+  subject: string | null; // Apenas para e-mail
+  body: string;
+  created_by: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+// Tarefas de acompanhamento vinculadas a um cliente
+export interface Task {
+  id: string;
+  empresa_id: string;
+  customer_id: string;
+  title: string;
+  due_at: string;
+  assignee_id: string | null; // Nulo: qualquer membro da equipe
+  done: boolean;
+  done_at: string | null;
+  created_by: string;
+  created_at: string;
+  customer?: Customer | null; // Embutido na consulta (somente leitura)
+}
+
+export interface TaskBuckets {
+  overdue: Task[];
+  today: Task[];
+  upcoming: Task[];
+}
+
+// Relatórios: intervalo em datas locais (AAAA-MM-DD), inclusivo
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+// Mudança de status extraída da auditoria; from nulo quando o valor anterior é desconhecido
+export interface StatusTransition {
+  customer_id: string;
+  from: CustomerStatus | null;
+  to: CustomerStatus;
+  at: string;
+  actor_id: string;
+}
+
+// Tabela exportável de um relatório (a mesma exibida na tela)
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: (string | number)[][];
+}
+
+// Ações em massa sobre a seleção da lista
+export type BulkAction =
+  | { kind: 'status'; status: CustomerStatus }
+  | { kind: 'tags'; add: string[]; remove: string[] }
+  | { kind: 'responsible'; userId: string }
+  | { kind: 'delete' };
+
+// Resultado de um lote: os pares antes/depois permitem desfazer tudo de uma vez
+export interface BulkResult {
+  action: BulkAction;
+  changed: { before: Customer; after: Customer }[];
+  unchanged: number;
+  failed: { customer: Customer; error: string }[];
+}